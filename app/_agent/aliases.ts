@@ -0,0 +1,67 @@
+import type { AgentAction } from "@/app/_tldraw/agent/agentActions";
+
+/**
+ * Rewrites the short aliases the model saw in CANVAS_STATE (`s1`, `s2`, ...)
+ * back to real shape ids. Ids of newly created shapes are left alone; they
+ * are resolved on the client like any other model-chosen id.
+ */
+export function resolveActionAliases(
+  action: AgentAction,
+  aliases: Record<string, string>,
+): AgentAction {
+  const resolve = (id: string) => aliases[id] ?? id;
+
+  switch (action._type) {
+    case "create_shape": {
+      const shape = action.shape.anchor
+        ? { ...action.shape, anchor: resolve(action.shape.anchor) }
+        : action.shape;
+      if (shape.kind === "arrow" && shape.bindings) {
+        return {
+          ...action,
+          shape: {
+            ...shape,
+            bindings: shape.bindings.map((b) => ({
+              ...b,
+              toId: resolve(b.toId),
+            })),
+          },
+        };
+      }
+      if (shape.kind === "frame" && shape.children) {
+        return {
+          ...action,
+          shape: { ...shape, children: shape.children.map(resolve) },
+        };
+      }
+      return { ...action, shape };
+    }
+    case "update_shape":
+    case "delete_shape":
+      return { ...action, id: resolve(action.id) };
+    case "reparent":
+      return {
+        ...action,
+        ids: action.ids.map(resolve),
+        parentId: action.parentId && resolve(action.parentId),
+      };
+    case "connect":
+      return {
+        ...action,
+        fromId: resolve(action.fromId),
+        toId: resolve(action.toId),
+      };
+    case "create_graph":
+      return action;
+    case "select":
+    case "layout":
+    case "group":
+    case "ungroup":
+    case "align":
+    case "distribute":
+    case "stack":
+    case "reorder":
+    case "duplicate":
+      return { ...action, ids: action.ids.map(resolve) };
+  }
+}
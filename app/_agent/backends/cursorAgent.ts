@@ -0,0 +1,115 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { readLines } from "@/app/_utils/readLines";
+import { type AgentImage, getImageExtension } from "../image";
+import { isObject } from "../plan";
+import { type AgentBackend, AgentBackendError } from "./types";
+
+/** Pulls the assistant text out of one `stream-json` event, if it has any. */
+function getEventText(event: Record<string, unknown>): string | undefined {
+  if (event.type === "assistant" && isObject(event.message)) {
+    const content = event.message.content;
+    if (!Array.isArray(content)) return undefined;
+    return content
+      .map((part) =>
+        isObject(part) && typeof part.text === "string" ? part.text : "",
+      )
+      .join("");
+  }
+  if (event.type === "result" && typeof event.result === "string") {
+    return event.result;
+  }
+  return undefined;
+}
+
+/**
+ * cursor-agent reads images from paths mentioned in the prompt, so they are
+ * written to a temporary directory for the duration of the run.
+ */
+async function writeImageFiles(
+  images: AgentImage[],
+): Promise<{ dir: string; paths: string[] }> {
+  const dir = await mkdtemp(join(tmpdir(), "agent-images-"));
+  const paths = await Promise.all(
+    images.map(async (image, i) => {
+      const path = join(dir, `canvas-${i + 1}.${getImageExtension(image)}`);
+      await Bun.write(path, Buffer.from(image.data, "base64"));
+      return path;
+    }),
+  );
+  return { dir, paths };
+}
+
+/** Runs `cursor-agent -p` and yields its assistant text as it streams. */
+async function* runCursorAgent(
+  prompt: string,
+  signal?: AbortSignal,
+): AsyncGenerator<string> {
+  const proc = Bun.spawn(
+    [
+      "cursor-agent",
+      "-p",
+      "--output-format",
+      "stream-json",
+      "--stream-partial-output",
+      prompt,
+    ],
+    { stdout: "pipe", stderr: "pipe", signal },
+  );
+  const stderr = new Response(proc.stderr).text();
+
+  // With --stream-partial-output, assistant events carry deltas, but the
+  // CLI also repeats the full message (and the `result` event carries the
+  // full text too). Only yield what extends what we already have.
+  let accumulated = "";
+  for await (const line of readLines(proc.stdout)) {
+    let event: unknown;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      continue;
+    }
+    if (!isObject(event)) continue;
+
+    const text = getEventText(event);
+    if (!text) continue;
+
+    const isRepeat = accumulated.length > 0 && text.startsWith(accumulated);
+    const delta = isRepeat
+      ? text.slice(accumulated.length)
+      : event.type === "result"
+        ? ""
+        : text;
+    if (!delta) continue;
+    accumulated += delta;
+    yield delta;
+  }
+
+  const exitCode = await proc.exited;
+  // Killed on purpose: report why rather than the exit code.
+  signal?.throwIfAborted();
+  if (exitCode !== 0) {
+    throw new AgentBackendError("cursor-agent failed", {
+      exitCode,
+      stderr: await stderr,
+    });
+  }
+}
+
+export function createCursorAgentBackend(): AgentBackend {
+  return {
+    id: "cursor-agent",
+    async *stream({ prompt: basePrompt, images = [], signal }) {
+      const files = images.length ? await writeImageFiles(images) : undefined;
+      try {
+        const prompt = files
+          ? `${basePrompt}\nCANVAS_IMAGE_FILES (open these to see CANVAS_IMAGE):\n${files.paths.join("\n")}\n`
+          : basePrompt;
+        yield* runCursorAgent(prompt, signal);
+      } finally {
+        if (files) await rm(files.dir, { recursive: true, force: true });
+      }
+    },
+  };
+}
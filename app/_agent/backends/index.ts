@@ -0,0 +1,73 @@
+import { readFileSync } from "node:fs";
+import {
+  AGENT_BACKEND_IDS,
+  type AgentBackendId,
+  DEFAULT_AGENT_BACKEND,
+} from "@/app/_constants/agent";
+import { createCursorAgentBackend } from "./cursorAgent";
+import { createOpenAiCompatibleBackend } from "./openAiCompatible";
+import { createScriptedBackend } from "./scripted";
+import type { AgentBackend } from "./types";
+
+export type { AgentBackend, AgentBackendRequest } from "./types";
+export { AgentBackendError, runAgentBackend } from "./types";
+
+const backends = new Map<AgentBackendId, AgentBackend>();
+
+export function isAgentBackendId(value: unknown): value is AgentBackendId {
+  return (
+    typeof value === "string" &&
+    (AGENT_BACKEND_IDS as readonly string[]).includes(value)
+  );
+}
+
+/** The backend selected by `AGENT_BACKEND`, or cursor-agent when unset. */
+export function getDefaultAgentBackendId(): AgentBackendId {
+  const configured = process.env.AGENT_BACKEND;
+  if (configured === undefined) return DEFAULT_AGENT_BACKEND;
+  if (!isAgentBackendId(configured)) {
+    throw new Error(
+      `AGENT_BACKEND must be one of ${AGENT_BACKEND_IDS.join(", ")} (got "${configured}")`,
+    );
+  }
+  return configured;
+}
+
+function readScriptedOutputs(): string[] {
+  const file = process.env.AGENT_SCRIPTED_OUTPUTS;
+  if (!file) return [];
+  const parsed: unknown = JSON.parse(readFileSync(file, "utf8"));
+  const outputs = Array.isArray(parsed) ? parsed : [parsed];
+  return outputs.map((o) => (typeof o === "string" ? o : JSON.stringify(o)));
+}
+
+function createAgentBackend(id: AgentBackendId): AgentBackend {
+  switch (id) {
+    case "cursor-agent":
+      return createCursorAgentBackend();
+    case "openai":
+      return createOpenAiCompatibleBackend({
+        baseUrl:
+          process.env.AGENT_OPENAI_BASE_URL ?? "http://localhost:11434/v1",
+        model: process.env.AGENT_OPENAI_MODEL ?? "llama3.1",
+        apiKey: process.env.AGENT_OPENAI_API_KEY,
+      });
+    case "scripted":
+      return createScriptedBackend(readScriptedOutputs());
+  }
+}
+
+/**
+ * Backends are created lazily and cached, so stateful ones (the scripted
+ * backend's replay position) persist across requests.
+ */
+export function getAgentBackend(
+  id: AgentBackendId = getDefaultAgentBackendId(),
+): AgentBackend {
+  let backend = backends.get(id);
+  if (!backend) {
+    backend = createAgentBackend(id);
+    backends.set(id, backend);
+  }
+  return backend;
+}
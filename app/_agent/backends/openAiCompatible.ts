@@ -0,0 +1,87 @@
+import { readLines } from "@/app/_utils/readLines";
+import { toImageDataUrl } from "../image";
+import { isObject } from "../plan";
+import { type AgentBackend, AgentBackendError } from "./types";
+
+type OpenAiCompatibleOptions = {
+  /** e.g. `http://localhost:11434/v1` (Ollama) or `http://localhost:8080/v1` (llama.cpp). */
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+};
+
+/** Pulls the content delta out of one streamed `chat.completion.chunk`. */
+function getChunkText(chunk: unknown): string {
+  if (!isObject(chunk) || !Array.isArray(chunk.choices)) return "";
+  const choice: unknown = chunk.choices[0];
+  if (!isObject(choice) || !isObject(choice.delta)) return "";
+  return typeof choice.delta.content === "string" ? choice.delta.content : "";
+}
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` API
+ * (Ollama, llama.cpp's `llama-server`, vLLM, OpenAI itself, ...).
+ */
+export function createOpenAiCompatibleBackend(
+  opts: OpenAiCompatibleOptions,
+): AgentBackend {
+  return {
+    id: "openai",
+    async *stream({ prompt, images = [], signal }) {
+      // Vision models take images as extra content parts of the user message.
+      const content = images.length
+        ? [
+            { type: "text", text: prompt },
+            ...images.map((image) => ({
+              type: "image_url",
+              image_url: { url: toImageDataUrl(image) },
+            })),
+          ]
+        : prompt;
+
+      const res = await fetch(
+        `${opts.baseUrl.replace(/\/+$/, "")}/chat/completions`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(opts.apiKey
+              ? { Authorization: `Bearer ${opts.apiKey}` }
+              : null),
+          },
+          body: JSON.stringify({
+            model: opts.model,
+            messages: [{ role: "user", content }],
+            temperature: 0,
+            stream: true,
+            response_format: { type: "json_object" },
+          }),
+          signal,
+        },
+      );
+
+      if (!res.ok || !res.body) {
+        throw new AgentBackendError("openai backend request failed", {
+          status: res.status,
+          body: await res.text(),
+        });
+      }
+
+      // Server-sent events: `data: {chunk}` lines, terminated by `data: [DONE]`.
+      for await (const line of readLines(res.body)) {
+        if (!line.startsWith("data:")) continue;
+        const data = line.slice("data:".length).trim();
+        if (data === "[DONE]") break;
+
+        let chunk: unknown;
+        try {
+          chunk = JSON.parse(data);
+        } catch {
+          continue;
+        }
+        const text = getChunkText(chunk);
+        if (text) yield text;
+      }
+    },
+  };
+}
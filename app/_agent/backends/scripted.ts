@@ -0,0 +1,51 @@
+import type { AgentPlan } from "../plan";
+import type { AgentBackend } from "./types";
+
+/** Chunk size used to replay outputs, so streaming clients see partial text. */
+const SCRIPTED_CHUNK_SIZE = 64;
+
+/**
+ * Deterministic backend for tests and offline demos. Replays `outputs` in
+ * order (wrapping around), or, when none are given, answers every prompt with
+ * a single box labelled with the user's message.
+ */
+export function createScriptedBackend(outputs: string[] = []): AgentBackend {
+  let index = 0;
+
+  return {
+    id: "scripted",
+    async *stream(request) {
+      const output = getOutput(request.message);
+      for (let i = 0; i < output.length; i += SCRIPTED_CHUNK_SIZE) {
+        request.signal?.throwIfAborted();
+        yield output.slice(i, i + SCRIPTED_CHUNK_SIZE);
+      }
+    },
+  };
+
+  function getOutput(message: string): string {
+    if (outputs.length > 0) {
+      const output = outputs[index % outputs.length];
+      index++;
+      return output;
+    }
+
+    const plan: AgentPlan = {
+      actions: [
+        {
+          _type: "create_shape",
+          shape: {
+            kind: "geo",
+            id: "scripted-box",
+            geo: "rectangle",
+            x: 0,
+            y: 0,
+            label: message,
+          },
+        },
+      ],
+      notes: "Scripted backend: created a single box for the message.",
+    };
+    return JSON.stringify(plan);
+  }
+}
@@ -0,0 +1,45 @@
+import type { AgentImage } from "../image";
+
+export type AgentBackendRequest = {
+  /** The fully rendered prompt (see `buildPrompt`). */
+  prompt: string;
+  /** The raw user message, for backends that don't need the full prompt. */
+  message: string;
+  /**
+   * Images of the canvas for vision-capable models. Backends that can't take
+   * images ignore them; the prompt only describes them.
+   */
+  images?: AgentImage[];
+  /** Aborts the run: backends kill their subprocess or cancel the request. */
+  signal?: AbortSignal;
+};
+
+export type AgentBackend = {
+  id: string;
+  /** Runs the model, yielding its raw text output as it is produced. */
+  stream(request: AgentBackendRequest): AsyncIterable<string>;
+};
+
+/** Runs a backend to completion and returns its whole output. */
+export async function runAgentBackend(
+  backend: AgentBackend,
+  request: AgentBackendRequest,
+): Promise<string> {
+  let output = "";
+  for await (const chunk of backend.stream(request)) output += chunk;
+  return output;
+}
+
+/**
+ * Thrown when a backend could not produce output at all (process exited
+ * non-zero, HTTP error, ...). `detail` is returned to the client verbatim.
+ */
+export class AgentBackendError extends Error {
+  readonly detail: Record<string, unknown>;
+
+  constructor(message: string, detail: Record<string, unknown> = {}) {
+    super(message);
+    this.name = "AgentBackendError";
+    this.detail = detail;
+  }
+}
@@ -0,0 +1,84 @@
+import { expect, test } from "bun:test";
+import {
+  describeDiagram,
+  diagramToActions,
+  getDiagramSourceId,
+  parseDiagramText,
+} from "./index";
+
+const options = { origin: { x: 100, y: 200 }, idPrefix: "diagram-abc123-" };
+
+test("flowcharts become a graph plus a group per subgraph", () => {
+  const parsed = parseDiagramText(`flowchart LR
+    subgraph outer
+      subgraph inner
+        A --> B
+      end
+      C
+    end
+    subgraph lonely
+      D
+    end
+    B --> C --> D`);
+  if (parsed?.diagram.kind !== "flowchart") throw new Error("Not a flowchart");
+  const [graph, ...groups] = diagramToActions(parsed.diagram, options);
+  expect(graph).toMatchObject({
+    _type: "create_graph",
+    direction: "right",
+    origin: options.origin,
+  });
+  // A one-node subgraph stands for its node.
+  expect(groups).toEqual([
+    {
+      _type: "group",
+      ids: ["diagram-abc123-A", "diagram-abc123-B"],
+      id: "diagram-abc123-subgraph-inner",
+    },
+    {
+      _type: "group",
+      ids: ["diagram-abc123-C", "diagram-abc123-subgraph-inner"],
+      id: "diagram-abc123-subgraph-outer",
+    },
+  ]);
+  expect(getDiagramSourceId("shape:diagram-abc123-A")).toEqual({
+    idPrefix: "diagram-abc123-",
+    id: "A",
+  });
+});
+
+test("sequence diagrams lay out participants before their steps", () => {
+  const parsed = parseDiagramText(`@startuml
+A -> B : hi
+A -> A : think
+note right of B : ok
+@enduml`);
+  if (parsed?.diagram.kind !== "sequence") throw new Error("Not a sequence");
+  const actions = diagramToActions(parsed.diagram, options);
+  expect(actions.map((a) => a._type)).toEqual([
+    "create_shape",
+    "create_shape",
+    "create_shape",
+    "create_shape",
+    "create_shape",
+    "create_shape",
+    "update_shape",
+    "create_shape",
+  ]);
+  expect(actions[0]).toMatchObject({
+    shape: { kind: "geo", id: "diagram-abc123-A", x: 100, y: 200 },
+  });
+  // The message to self bends out and back.
+  expect(actions[6]).toEqual({
+    _type: "update_shape",
+    id: "diagram-abc123-message-1",
+    patch: { props: { bend: -40 } },
+  });
+});
+
+test("the summary lists skipped lines", () => {
+  const parsed = parseDiagramText("graph TD\n  A --> B\n  A --> ??? --> B");
+  expect(parsed && describeDiagram(parsed)).toBe(
+    "Imported Mermaid flowchart: 2 nodes, 1 edges.\nSkipped 1 line(s) that couldn't be read:\n  A --> ??? --> B",
+  );
+  expect(parseDiagramText("just some text")).toBeUndefined();
+});
@@ -0,0 +1,242 @@
+import type { AgentAction } from "@/app/_tldraw/agent/agentActions";
+import { parseMermaid } from "./mermaid";
+import { parsePlantUml } from "./plantuml";
+import type { FlowDiagram, ParsedDiagram, SequenceDiagram } from "./types";
+
+export { toMermaid } from "./mermaid";
+export type * from "./types";
+
+type Point = { x: number; y: number };
+
+export type DiagramActionOptions = {
+  /** Top-left corner of the imported diagram. */
+  origin: Point;
+  /** Prepended to every shape id, so importing twice doesn't collide. */
+  idPrefix: string;
+};
+
+/** Sequence diagram metrics, in page units. */
+const PARTICIPANT_W = 160;
+const PARTICIPANT_H = 60;
+const PARTICIPANT_GAP = 80;
+const ROW_H = 60;
+const NOTE_W = 160;
+const NOTE_LINE_H = 24;
+const SELF_MESSAGE_H = 40;
+
+/**
+ * Parses Mermaid (flowchart, sequence) or PlantUML (sequence) text. Returns
+ * `undefined` when the text isn't a diagram in one of those formats.
+ */
+export function parseDiagramText(text: string): ParsedDiagram | undefined {
+  return parseMermaid(text) ?? parsePlantUml(text);
+}
+
+/** For shapes created by an import: the prefix and the node id in the source text. */
+export function getDiagramSourceId(
+  shapeId: string,
+): { idPrefix: string; id: string } | undefined {
+  const match = shapeId
+    .replace(/^shape:/, "")
+    .match(/^(diagram-[a-z0-9]+-)(.+)$/);
+  return match ? { idPrefix: match[1], id: match[2] } : undefined;
+}
+
+export function createDiagramIdPrefix(): string {
+  return `diagram-${Math.random().toString(36).slice(2, 8)}-`;
+}
+
+function getFlowchartActions(
+  diagram: FlowDiagram,
+  { origin, idPrefix }: DiagramActionOptions,
+): AgentAction[] {
+  const actions: AgentAction[] = [
+    {
+      _type: "create_graph",
+      direction: diagram.direction,
+      origin,
+      nodes: diagram.nodes.map((node) => ({
+        id: `${idPrefix}${node.id}`,
+        label: node.label ?? node.id,
+        geo: node.geo,
+      })),
+      edges: diagram.edges.map((edge) => ({
+        from: `${idPrefix}${edge.from}`,
+        to: `${idPrefix}${edge.to}`,
+        label: edge.label,
+        ...(edge.dash === "dashed" ? { dash: "dashed" } : null),
+        ...(edge.thick ? { size: "l" } : null),
+        ...(edge.arrowheadStart !== "none"
+          ? { arrowheadStart: edge.arrowheadStart }
+          : null),
+        ...(edge.arrowheadEnd !== "arrow"
+          ? { arrowheadEnd: edge.arrowheadEnd }
+          : null),
+      })),
+    },
+  ];
+
+  // Subgraphs become groups. Groups are listed innermost first, so nested
+  // ones already exist; one with a single member stands for that member.
+  const groupShapeIds = new Map<string, string>();
+  for (const group of diagram.groups) {
+    const members = [
+      ...group.nodeIds.map((id) => `${idPrefix}${id}`),
+      ...group.groupIds.flatMap((id) => groupShapeIds.get(id) ?? []),
+    ];
+    if (members.length === 1) groupShapeIds.set(group.id, members[0]);
+    if (members.length < 2) continue;
+    const id = `${idPrefix}subgraph-${group.id}`;
+    groupShapeIds.set(group.id, id);
+    actions.push({ _type: "group", ids: members, id });
+  }
+  return actions;
+}
+
+function getSequenceActions(
+  diagram: SequenceDiagram,
+  { origin, idPrefix }: DiagramActionOptions,
+): AgentAction[] {
+  const columns = new Map(
+    diagram.participants.map((p, i) => [
+      p.id,
+      origin.x + i * (PARTICIPANT_W + PARTICIPANT_GAP) + PARTICIPANT_W / 2,
+    ]),
+  );
+  const getColumn = (id: string) => columns.get(id) ?? origin.x;
+
+  const steps: AgentAction[] = [];
+  let y = origin.y + PARTICIPANT_H + ROW_H;
+  diagram.steps.forEach((step, i) => {
+    if (step.type === "message") {
+      const from = getColumn(step.from);
+      const to = getColumn(step.to);
+      const style = {
+        ...(step.dashed ? { dash: "dashed" as const } : null),
+        ...(step.arrowhead !== "arrow"
+          ? { arrowheadEnd: step.arrowhead }
+          : null),
+      };
+      if (step.from === step.to) {
+        // A message to self loops out to the right and back.
+        const id = `${idPrefix}message-${i}`;
+        steps.push(
+          {
+            _type: "create_shape",
+            shape: {
+              ...style,
+              kind: "arrow",
+              id,
+              start: { x: from, y },
+              end: { x: from, y: y + SELF_MESSAGE_H },
+              label: step.label,
+            },
+          },
+          { _type: "update_shape", id, patch: { props: { bend: -40 } } },
+        );
+        y += SELF_MESSAGE_H + ROW_H;
+        return;
+      }
+      steps.push({
+        _type: "create_shape",
+        shape: {
+          ...style,
+          kind: "arrow",
+          start: { x: from, y },
+          end: { x: to, y },
+          label: step.label,
+        },
+      });
+      y += ROW_H;
+      return;
+    }
+
+    const columnsOver = step.over.map(getColumn);
+    const left = Math.min(...columnsOver);
+    const right = Math.max(...columnsOver);
+    const x =
+      step.placement === "left"
+        ? left - NOTE_W - 10
+        : step.placement === "right"
+          ? right + 10
+          : left - NOTE_W / 2;
+    const w =
+      step.placement === "over"
+        ? Math.max(NOTE_W, right - left + NOTE_W)
+        : NOTE_W;
+    const h = (step.text.split("\n").length + 1) * NOTE_LINE_H;
+    steps.push({
+      _type: "create_shape",
+      shape: {
+        kind: "geo",
+        geo: "rectangle",
+        x,
+        y: y - NOTE_LINE_H,
+        w,
+        h,
+        label: step.text,
+        color: "yellow",
+        fill: "solid",
+        size: "s",
+      },
+    });
+    y += h + ROW_H / 2;
+  });
+
+  // Participants and their lifelines first, so messages draw on top.
+  const actions: AgentAction[] = [];
+  for (const p of diagram.participants) {
+    const x = getColumn(p.id);
+    actions.push(
+      {
+        _type: "create_shape",
+        shape: {
+          kind: "geo",
+          id: `${idPrefix}${p.id}`,
+          geo: p.isActor ? "ellipse" : "rectangle",
+          x: x - PARTICIPANT_W / 2,
+          y: origin.y,
+          w: PARTICIPANT_W,
+          h: PARTICIPANT_H,
+          label: p.label,
+        },
+      },
+      {
+        _type: "create_shape",
+        shape: {
+          kind: "line",
+          points: [
+            { x, y: origin.y + PARTICIPANT_H },
+            { x, y },
+          ],
+          dash: "dashed",
+          color: "grey",
+        },
+      },
+    );
+  }
+  return [...actions, ...steps];
+}
+
+/** Deterministically lays out a parsed diagram as plan actions. */
+export function diagramToActions(
+  diagram: FlowDiagram | SequenceDiagram,
+  opts: DiagramActionOptions,
+): AgentAction[] {
+  return diagram.kind === "flowchart"
+    ? getFlowchartActions(diagram, opts)
+    : getSequenceActions(diagram, opts);
+}
+
+/** One-line summary for the prompt thread, mentioning any skipped lines. */
+export function describeDiagram(parsed: ParsedDiagram): string {
+  const format = parsed.format === "mermaid" ? "Mermaid" : "PlantUML";
+  const { diagram } = parsed;
+  const summary =
+    diagram.kind === "flowchart"
+      ? `Imported ${format} flowchart: ${diagram.nodes.length} nodes, ${diagram.edges.length} edges.`
+      : `Imported ${format} sequence diagram: ${diagram.participants.length} participants, ${diagram.steps.length} steps.`;
+  if (parsed.skipped.length === 0) return summary;
+  const lines = parsed.skipped.map((line) => `  ${line}`).join("\n");
+  return `${summary}\nSkipped ${parsed.skipped.length} line(s) that couldn't be read:\n${lines}`;
+}
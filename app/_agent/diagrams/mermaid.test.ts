@@ -0,0 +1,232 @@
+import { expect, test } from "bun:test";
+import { parseMermaid, toMermaid } from "./mermaid";
+import type { FlowDiagram, SequenceDiagram } from "./types";
+
+function flowchart(text: string) {
+  const parsed = parseMermaid(text);
+  if (parsed?.diagram.kind !== "flowchart") throw new Error("Not a flowchart");
+  return { ...parsed, diagram: parsed.diagram };
+}
+
+function sequence(text: string) {
+  const parsed = parseMermaid(text);
+  if (parsed?.diagram.kind !== "sequence") throw new Error("Not a sequence");
+  return { ...parsed, diagram: parsed.diagram };
+}
+
+test("other diagram types are not parsed", () => {
+  expect(parseMermaid('pie\n  "A": 1')).toBeUndefined();
+  expect(parseMermaid("")).toBeUndefined();
+});
+
+test("node brackets pick the geo", () => {
+  const { diagram } = flowchart(`flowchart LR
+    A[Box] --> B(Round) --> C((Circle))
+    D{Choice} --> E{{Hex}}
+    F[/Lean/] --> G[/Trap\\]
+    H[\\Back\\] --> I[\\Flip/]
+    J["Quoted ] label"]`);
+  expect(diagram.direction).toBe("right");
+  expect(
+    Object.fromEntries(diagram.nodes.map((n) => [n.id, [n.geo, n.label]])),
+  ).toEqual({
+    A: ["rectangle", "Box"],
+    B: ["rectangle", "Round"],
+    C: ["ellipse", "Circle"],
+    D: ["diamond", "Choice"],
+    E: ["hexagon", "Hex"],
+    F: ["rhombus", "Lean"],
+    G: ["trapezoid", "Trap"],
+    H: ["rhombus-2", "Back"],
+    I: ["trapezoid", "Flip"],
+    J: ["rectangle", "Quoted ] label"],
+  });
+});
+
+test("links carry labels, dashes and arrowheads", () => {
+  const { diagram } = flowchart(`graph TD
+    A -->|piped| B
+    B -- inline --> C
+    C -.-> D
+    D == thick ==> E
+    E <--> F
+    F --o G
+    G --- H`);
+  expect(
+    diagram.edges.map((e) => [
+      `${e.from}${e.to}`,
+      e.label,
+      e.dash,
+      e.thick,
+      e.arrowheadStart,
+      e.arrowheadEnd,
+    ]),
+  ).toEqual([
+    ["AB", "piped", "solid", false, "none", "arrow"],
+    ["BC", "inline", "solid", false, "none", "arrow"],
+    ["CD", undefined, "dashed", false, "none", "arrow"],
+    ["DE", "thick", "solid", true, "none", "arrow"],
+    ["EF", undefined, "solid", false, "arrow", "arrow"],
+    ["FG", undefined, "solid", false, "none", "dot"],
+    ["GH", undefined, "solid", false, "none", "none"],
+  ]);
+});
+
+test("& links every node on one side to every node on the other", () => {
+  const { diagram } = flowchart("flowchart TD\n  A & B --> C & D --> E");
+  expect(diagram.edges.map((e) => `${e.from}${e.to}`)).toEqual([
+    "AC",
+    "AD",
+    "BC",
+    "BD",
+    "CE",
+    "DE",
+  ]);
+});
+
+test("nested subgraphs are listed innermost first", () => {
+  const { diagram } = flowchart(`flowchart TD
+    subgraph outer [Outer box]
+      A
+      subgraph inner
+        B --> C
+      end
+    end
+    subgraph Free text title
+      D
+    end
+    A --> D`);
+  expect(diagram.groups).toEqual([
+    { id: "inner", label: "inner", nodeIds: ["B", "C"], groupIds: [] },
+    { id: "outer", label: "Outer box", nodeIds: ["A"], groupIds: ["inner"] },
+    {
+      id: "subgraph3",
+      label: "Free text title",
+      nodeIds: ["D"],
+      groupIds: [],
+    },
+  ]);
+});
+
+test("lines that can't be read are skipped, styling is ignored", () => {
+  const parsed = flowchart(`\`\`\`mermaid
+flowchart TD
+  %% a comment
+  classDef hot fill:#f00
+  A:::hot --> B; B --> C
+  A --> ??? --> B
+  end
+  style A stroke:#333
+\`\`\``);
+  expect(parsed.diagram.edges).toHaveLength(2);
+  expect(parsed.skipped).toEqual(["A --> ??? --> B", "end"]);
+});
+
+test("sequence diagrams read participants, messages and notes", () => {
+  const { diagram, skipped } = sequence(`sequenceDiagram
+    actor U as User
+    participant API
+    U->>API: GET /items
+    loop every item
+      API->>API: check
+    end
+    API-->>U: 200 OK
+    API-x DB: lost
+    Note over U,API: Both wait
+    Note right of DB: cold<br/>cache
+    something odd`);
+  expect(diagram.participants).toEqual([
+    { id: "U", label: "User", isActor: true },
+    { id: "API", label: "API", isActor: false },
+    { id: "DB", label: "DB", isActor: false },
+  ]);
+  expect(diagram.steps).toEqual([
+    {
+      type: "message",
+      from: "U",
+      to: "API",
+      label: "GET /items",
+      dashed: false,
+      arrowhead: "arrow",
+    },
+    {
+      type: "message",
+      from: "API",
+      to: "API",
+      label: "check",
+      dashed: false,
+      arrowhead: "arrow",
+    },
+    {
+      type: "message",
+      from: "API",
+      to: "U",
+      label: "200 OK",
+      dashed: true,
+      arrowhead: "arrow",
+    },
+    {
+      type: "message",
+      from: "API",
+      to: "DB",
+      label: "lost",
+      dashed: false,
+      arrowhead: "bar",
+    },
+    { type: "note", over: ["U", "API"], placement: "over", text: "Both wait" },
+    { type: "note", over: ["DB"], placement: "right", text: "cold\ncache" },
+  ] satisfies SequenceDiagram["steps"]);
+  expect(skipped).toEqual(["something odd"]);
+});
+
+test("toMermaid output parses back to the same flowchart", () => {
+  const diagram: FlowDiagram = {
+    kind: "flowchart",
+    direction: "left",
+    // Grouped nodes first and no label where it's the id, as parsed.
+    nodes: [
+      { id: "D", label: "Lean", geo: "rhombus" },
+      { id: "E", label: "Trap", geo: "trapezoid" },
+      { id: "C", geo: "rectangle" },
+      { id: "A", label: 'Say "hi" | wave', geo: "ellipse" },
+      { id: "B", label: "Two\nlines", geo: "diamond" },
+    ],
+    edges: [
+      {
+        from: "A",
+        to: "B",
+        label: "yes",
+        dash: "solid",
+        thick: false,
+        arrowheadStart: "none",
+        arrowheadEnd: "arrow",
+      },
+      {
+        from: "B",
+        to: "C",
+        dash: "dashed",
+        thick: false,
+        arrowheadStart: "none",
+        arrowheadEnd: "dot",
+      },
+      {
+        from: "C",
+        to: "D",
+        dash: "solid",
+        thick: true,
+        arrowheadStart: "arrow",
+        arrowheadEnd: "arrow",
+      },
+    ],
+    groups: [
+      { id: "inner", label: "Inner", nodeIds: ["D", "E"], groupIds: [] },
+      { id: "outer", label: "Outer", nodeIds: ["C"], groupIds: ["inner"] },
+    ],
+  };
+  const parsed = flowchart(toMermaid(diagram));
+  expect(parsed.skipped).toEqual([]);
+  expect(parsed.diagram).toEqual({
+    ...diagram,
+    edges: diagram.edges.map((edge) => ({ label: undefined, ...edge })),
+  });
+});
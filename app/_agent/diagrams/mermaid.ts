@@ -0,0 +1,520 @@
+import type { TLArrowShapeArrowheadStyle, TLGeoShapeGeoStyle } from "tldraw";
+import type { LayoutDirection } from "../layout";
+import type {
+  FlowDiagram,
+  FlowEdge,
+  FlowGroup,
+  FlowNode,
+  ParsedDiagram,
+  SequenceDiagram,
+  SequenceStep,
+} from "./types";
+
+const DIRECTIONS: Record<string, LayoutDirection> = {
+  TD: "down",
+  TB: "down",
+  BT: "up",
+  LR: "right",
+  RL: "left",
+};
+
+const DIRECTION_CODES: Record<LayoutDirection, string> = {
+  down: "TD",
+  up: "BT",
+  right: "LR",
+  left: "RL",
+};
+
+/**
+ * Node shapes by their brackets, longest first so `((` wins over `(`. Mermaid
+ * shapes tldraw has no geo for (cylinders, subroutines, ...) become rectangles.
+ */
+const NODE_SHAPES: { open: string; close: string; geo: TLGeoShapeGeoStyle }[] =
+  [
+    { open: "(((", close: ")))", geo: "ellipse" },
+    { open: "((", close: "))", geo: "ellipse" },
+    { open: "([", close: "])", geo: "oval" },
+    { open: "[[", close: "]]", geo: "rectangle" },
+    { open: "[(", close: ")]", geo: "rectangle" },
+    { open: "{{", close: "}}", geo: "hexagon" },
+    { open: "[/", close: "\\]", geo: "trapezoid" },
+    { open: "[/", close: "/]", geo: "rhombus" },
+    { open: "[\\", close: "\\]", geo: "rhombus-2" },
+    { open: "[\\", close: "/]", geo: "trapezoid" },
+    { open: ">", close: "]", geo: "rectangle" },
+    { open: "(", close: ")", geo: "rectangle" },
+    { open: "{", close: "}", geo: "diamond" },
+    { open: "[", close: "]", geo: "rectangle" },
+  ];
+
+/** How each geo is written back; geos Mermaid can't draw are rectangles. */
+const GEO_BRACKETS: Partial<Record<TLGeoShapeGeoStyle, [string, string]>> = {
+  ellipse: ["((", "))"],
+  oval: ["([", "])"],
+  hexagon: ["{{", "}}"],
+  trapezoid: ["[/", "\\]"],
+  rhombus: ["[/", "/]"],
+  "rhombus-2": ["[\\", "\\]"],
+  diamond: ["{", "}"],
+};
+
+const ID = /^[\p{L}\p{N}_]+/u;
+
+/** Statements that only affect Mermaid's own rendering. */
+const IGNORED_FLOWCHART =
+  /^(?:%%|classDef\b|class\b|style\b|linkStyle\b|click\b|direction\b|accTitle\b|accDescr\b)/;
+
+const IGNORED_SEQUENCE =
+  /^(?:%%|autonumber\b|loop\b|alt\b|else\b|opt\b|par\b|and\b|critical\b|option\b|break\b|rect\b|end\b|activate\b|deactivate\b|box\b|title\b|create\b|destroy\b|links?\b|properties\b|details\b|accTitle\b|accDescr\b)/i;
+
+/** Undoes Mermaid's escaping: quotes, `#quot;`-style entities and `<br>`. */
+function decodeLabel(text: string): string {
+  let label = text.trim();
+  if (label.startsWith('"') && label.endsWith('"') && label.length > 1) {
+    label = label.slice(1, -1);
+  }
+  if (label.startsWith("`") && label.endsWith("`") && label.length > 1) {
+    label = label.slice(1, -1);
+  }
+  return label
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/#quot;/g, '"')
+    .replace(/#(\d+);/g, (_, code) => String.fromCharCode(Number(code)));
+}
+
+function encodeLabel(text: string): string {
+  return text
+    .replace(/"/g, "#quot;")
+    .replace(/\|/g, "#124;")
+    .replace(/\n/g, "<br/>");
+}
+
+/** Strips a Markdown code fence and YAML front matter around the diagram. */
+function getDiagramLines(text: string): string[] {
+  let body = text.trim();
+  const fence = body.match(/^```\s*mermaid\s*\n([\s\S]*?)\n```$/i);
+  if (fence) body = fence[1];
+  body = body.replace(/^---\n[\s\S]*?\n---\n/, "");
+  return body
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("%%"));
+}
+
+/** Splits a line on `;` outside of quotes. */
+function splitStatements(line: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ";" && !inQuotes) {
+      statements.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  statements.push(current);
+  return statements.map((s) => s.trim()).filter(Boolean);
+}
+
+type ParsedNode = { id: string; label?: string; geo?: TLGeoShapeGeoStyle };
+
+type ParsedLink = Omit<FlowEdge, "from" | "to">;
+
+/** Reads a node like `A`, `A[Label]` or `A(("Label")):::class` from the start of `text`. */
+function readNode(text: string): { node: ParsedNode; rest: string } | null {
+  const id = text.match(ID)?.[0];
+  if (!id) return null;
+  let rest = text.slice(id.length);
+  let node: ParsedNode = { id };
+
+  const shape = NODE_SHAPES.find((s) => rest.startsWith(s.open));
+  if (shape) {
+    const bracket = readBracket(rest);
+    if (!bracket) return null;
+    node = { id, label: bracket.label, geo: bracket.geo };
+    rest = bracket.rest;
+  }
+  rest = rest.replace(/^:::[\w-]+/, "");
+  return { node, rest };
+}
+
+function readBracket(
+  text: string,
+): { label: string; geo: TLGeoShapeGeoStyle; rest: string } | null {
+  for (const { open, close, geo } of NODE_SHAPES) {
+    if (!text.startsWith(open)) continue;
+    const inner = text.slice(open.length);
+    let closeAt: number;
+    let label: string;
+    const quoted = inner.match(/^\s*("[^"]*")\s*/);
+    if (quoted) {
+      closeAt = quoted[0].length;
+      label = quoted[1];
+    } else {
+      // Unquoted labels can't contain closing brackets, so the label ends at
+      // the first one (less the `/` or `\` some closers start with).
+      const end = inner.search(/[)\]}]/);
+      if (end < 0) continue;
+      closeAt = end - (close.length - close.replace(/^[/\\]/, "").length);
+      label = inner.slice(0, Math.max(0, closeAt));
+    }
+    if (closeAt < 0 || !inner.startsWith(close, closeAt)) continue;
+    return {
+      label: decodeLabel(label),
+      geo,
+      rest: inner.slice(closeAt + close.length),
+    };
+  }
+  return null;
+}
+
+/** Reads `A & B & C`. */
+function readNodeGroup(
+  text: string,
+): { nodes: ParsedNode[]; rest: string } | null {
+  const nodes: ParsedNode[] = [];
+  let rest = text;
+  for (;;) {
+    const read = readNode(rest.trimStart());
+    if (!read) return null;
+    nodes.push(read.node);
+    rest = read.rest;
+    const amp = rest.match(/^\s*&\s*/);
+    if (!amp) return { nodes, rest };
+    rest = rest.slice(amp[0].length);
+  }
+}
+
+const LINK_WITH_TEXT =
+  /^\s*([<ox]?)(--|==|-\.)\s+(.+?)\s*(-{2,}|={2,}|\.+-)([>ox]?)(?=\s|[\p{L}\p{N}_]|$)/u;
+const LINK = /^\s*([<ox]?)(-{2,}|={2,}|-\.+-)([>ox]?)/;
+
+const HEADS: Record<string, TLArrowShapeArrowheadStyle> = {
+  "": "none",
+  "<": "arrow",
+  ">": "arrow",
+  o: "dot",
+  x: "bar",
+};
+
+/** Reads a link like `-->`, `-.->|label|`, `== label ==>` or `<-->`. */
+function readLink(text: string): { link: ParsedLink; rest: string } | null {
+  let start: string;
+  let line: string;
+  let end: string;
+  let label: string | undefined;
+  let rest: string;
+
+  const withText = text.match(LINK_WITH_TEXT);
+  const plain = withText ? null : text.match(LINK);
+  if (withText) {
+    [, start, line, label, , end] = withText;
+    line += withText[4];
+    rest = text.slice(withText[0].length);
+  } else if (plain) {
+    [, start, line, end] = plain;
+    rest = text.slice(plain[0].length);
+  } else {
+    return null;
+  }
+
+  const pipe = rest.match(/^\s*\|([^|]*)\|/);
+  if (pipe) {
+    label = pipe[1];
+    rest = rest.slice(pipe[0].length);
+  }
+
+  return {
+    link: {
+      label: label ? decodeLabel(label) : undefined,
+      dash: line.includes(".") ? "dashed" : "solid",
+      thick: line.includes("="),
+      arrowheadStart: HEADS[start],
+      arrowheadEnd: HEADS[end],
+    },
+    rest,
+  };
+}
+
+function parseFlowchart(
+  lines: string[],
+  direction: LayoutDirection,
+): ParsedDiagram {
+  const nodes = new Map<string, FlowNode>();
+  const edges: FlowEdge[] = [];
+  const groups: FlowGroup[] = [];
+  const openGroups: FlowGroup[] = [];
+  const skipped: string[] = [];
+
+  const addNode = (parsed: ParsedNode) => {
+    const existing = nodes.get(parsed.id);
+    if (existing) {
+      // Later definitions with brackets restyle the node, as in Mermaid.
+      if (parsed.geo) Object.assign(existing, parsed);
+      return;
+    }
+    nodes.set(parsed.id, { ...parsed, geo: parsed.geo ?? "rectangle" });
+    openGroups.at(-1)?.nodeIds.push(parsed.id);
+  };
+
+  for (const line of lines) {
+    for (const statement of splitStatements(line)) {
+      if (IGNORED_FLOWCHART.test(statement)) continue;
+
+      const subgraph = statement.match(/^subgraph\s+(.+)$/);
+      if (subgraph) {
+        const title = subgraph[1].trim();
+        const withId = title.match(/^([\p{L}\p{N}_]+)\s*\[(.*)\]$/u);
+        const group: FlowGroup = withId
+          ? {
+              id: withId[1],
+              label: decodeLabel(withId[2]),
+              nodeIds: [],
+              groupIds: [],
+            }
+          : ID.test(title) && title.match(ID)?.[0] === title
+            ? { id: title, label: title, nodeIds: [], groupIds: [] }
+            : {
+                id: `subgraph${groups.length + openGroups.length + 1}`,
+                label: decodeLabel(title),
+                nodeIds: [],
+                groupIds: [],
+              };
+        openGroups.at(-1)?.groupIds.push(group.id);
+        openGroups.push(group);
+        continue;
+      }
+      if (statement === "end") {
+        const group = openGroups.pop();
+        if (group) groups.push(group);
+        else skipped.push(statement);
+        continue;
+      }
+
+      // A statement is a chain of node groups joined by links; nothing is
+      // added unless the whole chain reads cleanly.
+      const first = readNodeGroup(statement);
+      if (!first) {
+        skipped.push(statement);
+        continue;
+      }
+      const chain: { nodes: ParsedNode[]; link?: ParsedLink }[] = [
+        { nodes: first.nodes },
+      ];
+      let rest = first.rest;
+      let ok = true;
+      while (rest.trim()) {
+        const link = readLink(rest);
+        const next = link && readNodeGroup(link.rest);
+        if (!link || !next) {
+          ok = false;
+          break;
+        }
+        chain.push({ nodes: next.nodes, link: link.link });
+        rest = next.rest;
+      }
+      if (!ok) {
+        skipped.push(statement);
+        continue;
+      }
+
+      for (const { nodes: group } of chain) group.forEach(addNode);
+      for (let i = 1; i < chain.length; i++) {
+        const { nodes: targets, link } = chain[i];
+        if (!link) continue;
+        for (const from of chain[i - 1].nodes) {
+          for (const to of targets) {
+            edges.push({ from: from.id, to: to.id, ...link });
+          }
+        }
+      }
+    }
+  }
+  // Unclosed subgraphs still hold their nodes.
+  while (openGroups.length) groups.push(openGroups.pop() as FlowGroup);
+
+  return {
+    format: "mermaid",
+    diagram: {
+      kind: "flowchart",
+      direction,
+      nodes: [...nodes.values()],
+      edges,
+      groups,
+    },
+    skipped,
+  };
+}
+
+const MESSAGE =
+  /^(.+?)\s*(<<-->>|<<->>|-->>|->>|-->|->|--x|-x|--\)|-\))\s*[+-]?\s*(.+?)\s*(?::\s*(.*))?$/;
+
+const MESSAGE_HEADS: Record<string, TLArrowShapeArrowheadStyle> = {
+  ">>": "arrow",
+  ">": "none",
+  x: "bar",
+  ")": "arrow",
+};
+
+function parseSequence(lines: string[]): ParsedDiagram {
+  const participants = new Map<string, SequenceDiagram["participants"][0]>();
+  const steps: SequenceStep[] = [];
+  const skipped: string[] = [];
+
+  const ensureParticipant = (id: string) => {
+    if (!participants.has(id)) {
+      participants.set(id, { id, label: id, isActor: false });
+    }
+    return id;
+  };
+
+  for (const line of lines) {
+    const participant = line.match(
+      /^(participant|actor)\s+(.+?)(?:\s+as\s+(.+))?$/i,
+    );
+    if (participant) {
+      const [, keyword, id, alias] = participant;
+      participants.set(id, {
+        id,
+        label: decodeLabel(alias ?? id),
+        isActor: keyword.toLowerCase() === "actor",
+      });
+      continue;
+    }
+
+    const note = line.match(
+      /^note\s+(left of|right of|over)\s+([^:]+?)\s*:\s*(.*)$/i,
+    );
+    if (note) {
+      const [, placement, over, text] = note;
+      steps.push({
+        type: "note",
+        over: over.split(",").map((id) => ensureParticipant(id.trim())),
+        placement: placement.toLowerCase().split(" ")[0] as
+          | "left"
+          | "right"
+          | "over",
+        text: decodeLabel(text),
+      });
+      continue;
+    }
+
+    if (IGNORED_SEQUENCE.test(line)) continue;
+
+    const message = line.match(MESSAGE);
+    if (message) {
+      const [, from, arrow, to, label] = message;
+      const head = arrow.replace(/^<*-+/, "");
+      steps.push({
+        type: "message",
+        from: ensureParticipant(from),
+        to: ensureParticipant(to),
+        label: label ? decodeLabel(label) : undefined,
+        dashed: /--/.test(arrow),
+        arrowhead: MESSAGE_HEADS[head] ?? "arrow",
+      });
+      continue;
+    }
+
+    skipped.push(line);
+  }
+
+  return {
+    format: "mermaid",
+    diagram: {
+      kind: "sequence",
+      participants: [...participants.values()],
+      steps,
+    },
+    skipped,
+  };
+}
+
+/**
+ * Parses a Mermaid flowchart (`flowchart`/`graph`) or sequence diagram,
+ * optionally inside a ```mermaid fence. Returns `undefined` for anything
+ * else, including Mermaid diagram types that aren't supported.
+ */
+export function parseMermaid(text: string): ParsedDiagram | undefined {
+  const [header, ...lines] = getDiagramLines(text);
+  if (!header) return undefined;
+
+  const flowchart = header.match(
+    /^(?:flowchart|graph)(?:\s+(TD|TB|BT|LR|RL))?\s*;?$/i,
+  );
+  if (flowchart) {
+    return parseFlowchart(
+      lines,
+      DIRECTIONS[flowchart[1]?.toUpperCase() ?? "TD"],
+    );
+  }
+  if (/^sequenceDiagram\s*$/i.test(header)) return parseSequence(lines);
+  return undefined;
+}
+
+function writeNode(node: FlowNode): string {
+  const label = node.label ?? node.id;
+  const brackets = GEO_BRACKETS[node.geo];
+  if (!brackets && label === node.id) return node.id;
+  const [open, close] = brackets ?? ["[", "]"];
+  return `${node.id}${open}"${encodeLabel(label) || " "}"${close}`;
+}
+
+const HEAD_CODES: Partial<Record<TLArrowShapeArrowheadStyle, string>> = {
+  none: "",
+  dot: "o",
+  bar: "x",
+};
+
+function writeLink(edge: FlowEdge): string {
+  const end = HEAD_CODES[edge.arrowheadEnd] ?? ">";
+  const start =
+    edge.arrowheadStart === "none"
+      ? ""
+      : (HEAD_CODES[edge.arrowheadStart] ?? "<");
+  const line =
+    edge.dash === "dashed"
+      ? `-.-${end}`
+      : edge.thick
+        ? `==${end || "="}`
+        : `--${end || "-"}`;
+  const label = edge.label ? `|${encodeLabel(edge.label)}|` : "";
+  return `${start}${line}${label}`;
+}
+
+/** Writes a flowchart as Mermaid; groups become (nested) subgraphs. */
+export function toMermaid(diagram: FlowDiagram): string {
+  const lines = [`flowchart ${DIRECTION_CODES[diagram.direction]}`];
+  const nodes = new Map(diagram.nodes.map((n) => [n.id, n]));
+  const groups = new Map(diagram.groups.map((g) => [g.id, g]));
+  const nested = new Set(diagram.groups.flatMap((g) => g.groupIds));
+  const grouped = new Set(diagram.groups.flatMap((g) => g.nodeIds));
+
+  const writeGroup = (group: FlowGroup, indent: string) => {
+    const label = group.label ? `["${encodeLabel(group.label)}"]` : "";
+    lines.push(`${indent}subgraph ${group.id}${label}`);
+    for (const id of group.groupIds) {
+      const child = groups.get(id);
+      if (child) writeGroup(child, `${indent}    `);
+    }
+    for (const id of group.nodeIds) {
+      const node = nodes.get(id);
+      if (node) lines.push(`${indent}    ${writeNode(node)}`);
+    }
+    lines.push(`${indent}end`);
+  };
+
+  for (const group of diagram.groups) {
+    if (!nested.has(group.id)) writeGroup(group, "    ");
+  }
+  for (const node of diagram.nodes) {
+    if (!grouped.has(node.id)) lines.push(`    ${writeNode(node)}`);
+  }
+  for (const edge of diagram.edges) {
+    lines.push(`    ${edge.from} ${writeLink(edge)} ${edge.to}`);
+  }
+  return `${lines.join("\n")}\n`;
+}
@@ -0,0 +1,66 @@
+import { expect, test } from "bun:test";
+import { parsePlantUml } from "./plantuml";
+
+test("only @startuml blocks with participants are parsed", () => {
+  expect(parsePlantUml("flowchart TD\n A --> B")).toBeUndefined();
+  expect(parsePlantUml("@startuml\n@enduml")).toBeUndefined();
+});
+
+test("sequence diagrams read participants, messages and notes", () => {
+  const parsed = parsePlantUml(`@startuml
+title Checkout
+actor "Web user" as U
+participant Shop as "The shop"
+' a comment
+U -> Shop : buy
+Shop -[#red]-> U : receipt
+U <- Shop : ack
+note left of U : happy
+note over U, Shop
+  two lines
+  of text
+end note
+U ->
+@enduml`);
+  expect(parsed?.diagram).toEqual({
+    kind: "sequence",
+    participants: [
+      { id: "U", label: "Web user", isActor: true },
+      { id: "Shop", label: "The shop", isActor: false },
+    ],
+    steps: [
+      {
+        type: "message",
+        from: "U",
+        to: "Shop",
+        label: "buy",
+        dashed: false,
+        arrowhead: "arrow",
+      },
+      {
+        type: "message",
+        from: "Shop",
+        to: "U",
+        label: "receipt",
+        dashed: true,
+        arrowhead: "arrow",
+      },
+      {
+        type: "message",
+        from: "Shop",
+        to: "U",
+        label: "ack",
+        dashed: false,
+        arrowhead: "arrow",
+      },
+      { type: "note", over: ["U"], placement: "left", text: "happy" },
+      {
+        type: "note",
+        over: ["U", "Shop"],
+        placement: "over",
+        text: "two lines\nof text",
+      },
+    ],
+  });
+  expect(parsed?.skipped).toEqual(["U ->"]);
+});
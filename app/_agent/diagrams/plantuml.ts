@@ -0,0 +1,167 @@
+import type { TLArrowShapeArrowheadStyle } from "tldraw";
+import type { ParsedDiagram, SequenceDiagram, SequenceStep } from "./types";
+
+const PARTICIPANT =
+  /^(participant|actor|boundary|control|entity|database|collections|queue)\s+("[^"]+"|\S+)(?:\s+as\s+("[^"]+"|\S+))?/i;
+
+const MESSAGE =
+  /^("[^"]+"|[^\s<>-]+)\s*(<<?)?(-{1,2})(>x|>>?|x|o|\\\\?|\/\/?)?\s*("[^"]+"|[^\s:<>-]+)\s*(?::\s*(.*))?$/;
+
+const NOTE =
+  /^[rh]?note\s+(left of|right of|left|right|over)\s*([^:]*?)\s*(?::\s*(.*))?$/i;
+
+/** Commands that only affect PlantUML's own rendering, and block keywords. */
+const IGNORED =
+  /^(?:title\b|skinparam\b|autonumber\b|hide\b|show\b|activate\b|deactivate\b|destroy\b|create\b|return\b|alt\b|else\b|opt\b|loop\b|par\b|break\b|critical\b|group\b|end\b|ref\b|box\b|newpage\b|header\b|footer\b|legend\b|endlegend\b|center\b|==|\.\.\.|\|\|\||!|@)/i;
+
+function unquote(text: string): string {
+  return text.startsWith('"') && text.endsWith('"') && text.length > 1
+    ? text.slice(1, -1)
+    : text;
+}
+
+function decodeText(text: string): string {
+  return unquote(text.trim()).replace(/\\n/g, "\n");
+}
+
+/** `-[#red]->` and friends: drop the colour, keep the arrow. */
+function stripArrowColors(line: string): string {
+  return line.replace(/(-+)\[[^\]]*\](-*)/g, (_, before, after) =>
+    "-".repeat(Math.max(1, before.length + after.length)),
+  );
+}
+
+function getArrowhead(head: string | undefined): TLArrowShapeArrowheadStyle {
+  if (!head) return "none";
+  if (head.includes("x")) return "bar";
+  if (head.startsWith("o")) return "dot";
+  return "arrow";
+}
+
+/**
+ * Parses a PlantUML sequence diagram (`@startuml` ... `@enduml`). Other
+ * PlantUML diagram types return `undefined`.
+ */
+export function parsePlantUml(text: string): ParsedDiagram | undefined {
+  const body = text.match(/@startuml[^\n]*\n([\s\S]*?)(?:@enduml|$)/i)?.[1];
+  if (body === undefined) return undefined;
+
+  const participants = new Map<string, SequenceDiagram["participants"][0]>();
+  const steps: SequenceStep[] = [];
+  const skipped: string[] = [];
+  let openNote: Extract<SequenceStep, { type: "note" }> | null = null;
+  let inComment = false;
+
+  const ensureParticipant = (name: string) => {
+    const id = unquote(name);
+    if (!participants.has(id)) {
+      participants.set(id, { id, label: id, isActor: false });
+    }
+    return id;
+  };
+  const lastMessage = () =>
+    steps.findLast(
+      (step): step is Extract<SequenceStep, { type: "message" }> =>
+        step.type === "message",
+    );
+
+  for (const raw of body.split("\n")) {
+    const line = raw.trim();
+    if (inComment) {
+      if (line.endsWith("'/")) inComment = false;
+      continue;
+    }
+    if (line.startsWith("/'")) {
+      inComment = !line.endsWith("'/");
+      continue;
+    }
+    if (!line || line.startsWith("'")) continue;
+
+    if (openNote) {
+      if (/^end\s*[rh]?note$/i.test(line)) {
+        steps.push(openNote);
+        openNote = null;
+      } else {
+        openNote.text += `${openNote.text ? "\n" : ""}${line}`;
+      }
+      continue;
+    }
+
+    const participant = line.match(PARTICIPANT);
+    if (participant) {
+      const [, keyword, name, alias] = participant;
+      // `participant "Long name" as L` and `participant L as "Long name"`.
+      const [id, label] =
+        alias === undefined
+          ? [name, name]
+          : name.startsWith('"')
+            ? [alias, name]
+            : alias.startsWith('"')
+              ? [name, alias]
+              : [alias, name];
+      participants.set(unquote(id), {
+        id: unquote(id),
+        label: decodeText(label),
+        isActor: keyword.toLowerCase() === "actor",
+      });
+      continue;
+    }
+
+    const note = line.match(NOTE);
+    if (note) {
+      const [, where, target, text] = note;
+      const placement = where.toLowerCase().split(" ")[0] as
+        | "left"
+        | "right"
+        | "over";
+      // `note left: ...` without a participant sits next to the last message.
+      const over = target
+        ? target.split(",").map((name) => ensureParticipant(name.trim()))
+        : [lastMessage()?.from].filter((id) => id !== undefined);
+      if (over.length === 0) {
+        skipped.push(line);
+        continue;
+      }
+      const step: Extract<SequenceStep, { type: "note" }> = {
+        type: "note",
+        over,
+        placement,
+        text: text === undefined ? "" : decodeText(text),
+      };
+      if (text === undefined) openNote = step;
+      else steps.push(step);
+      continue;
+    }
+
+    if (IGNORED.test(line)) continue;
+
+    const message = stripArrowColors(line).match(MESSAGE);
+    if (message && (message[2] || message[4])) {
+      const [, left, reversed, dashes, head, right, label] = message;
+      // `A <- B` is a message from B to A.
+      const [from, to] = reversed && !head ? [right, left] : [left, right];
+      steps.push({
+        type: "message",
+        from: ensureParticipant(from),
+        to: ensureParticipant(to),
+        label: label ? decodeText(label) : undefined,
+        dashed: dashes.length > 1,
+        arrowhead: getArrowhead(head ?? (reversed ? ">" : undefined)),
+      });
+      continue;
+    }
+
+    skipped.push(line);
+  }
+
+  if (participants.size === 0) return undefined;
+  return {
+    format: "plantuml",
+    diagram: {
+      kind: "sequence",
+      participants: [...participants.values()],
+      steps,
+    },
+    skipped,
+  };
+}
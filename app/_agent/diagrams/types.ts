@@ -0,0 +1,80 @@
+import type {
+  TLArrowShapeArrowheadStyle,
+  TLDefaultDashStyle,
+  TLGeoShapeGeoStyle,
+} from "tldraw";
+import type { LayoutDirection } from "../layout";
+
+export type DiagramFormat = "mermaid" | "plantuml";
+
+export type FlowNode = {
+  id: string;
+  label?: string;
+  geo: TLGeoShapeGeoStyle;
+};
+
+export type FlowEdge = {
+  from: string;
+  to: string;
+  label?: string;
+  dash: Extract<TLDefaultDashStyle, "solid" | "dashed">;
+  thick: boolean;
+  arrowheadStart: TLArrowShapeArrowheadStyle;
+  arrowheadEnd: TLArrowShapeArrowheadStyle;
+};
+
+/** A Mermaid `subgraph`: its own nodes plus any nested subgraphs. */
+export type FlowGroup = {
+  id: string;
+  label?: string;
+  nodeIds: string[];
+  groupIds: string[];
+};
+
+export type FlowDiagram = {
+  kind: "flowchart";
+  direction: LayoutDirection;
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+  /** Innermost first, so nested groups exist before the groups holding them. */
+  groups: FlowGroup[];
+};
+
+export type SequenceParticipant = {
+  id: string;
+  label: string;
+  isActor: boolean;
+};
+
+export type SequenceStep =
+  | {
+      type: "message";
+      from: string;
+      to: string;
+      label?: string;
+      /** Replies and other dotted messages. */
+      dashed: boolean;
+      arrowhead: TLArrowShapeArrowheadStyle;
+    }
+  | {
+      type: "note";
+      /** One participant, or the first and last of a range for `over A,B`. */
+      over: string[];
+      placement: "left" | "right" | "over";
+      text: string;
+    };
+
+export type SequenceDiagram = {
+  kind: "sequence";
+  participants: SequenceParticipant[];
+  steps: SequenceStep[];
+};
+
+export type Diagram = FlowDiagram | SequenceDiagram;
+
+export type ParsedDiagram = {
+  format: DiagramFormat;
+  diagram: Diagram;
+  /** Lines that were not understood and left out, as written. */
+  skipped: string[];
+};
@@ -0,0 +1,111 @@
+import { MAX_PLAN_REPAIR_ATTEMPTS } from "@/app/_constants/agent";
+import type { AgentAction } from "@/app/_tldraw/agent/agentActions";
+import type { AgentBackend, AgentBackendRequest } from "./backends";
+import {
+  type AgentPlan,
+  checkPlan,
+  extractJsonObject,
+  PlanValidationError,
+  validateAction,
+} from "./plan";
+import { buildRepairPrompt } from "./prompt";
+import type { PlanIssue, PlanValidationContext } from "./schema";
+import { createPlanStreamParser } from "./stream";
+
+export type GeneratePlanOptions = {
+  context: PlanValidationContext;
+  /** Called with each valid action as soon as the model has written it. */
+  onAction?: (action: AgentAction) => void;
+  /** Called with the number of characters received in the current attempt. */
+  onProgress?: (chars: number) => void;
+  /** Called before each repair attempt with the issues being sent back. */
+  onRepair?: (attempt: number, issues: PlanIssue[]) => void;
+  /** Called after each model call with what was sent and received. */
+  onAttempt?: (attempt: {
+    prompt: string;
+    output: string;
+    issues: PlanIssue[];
+  }) => void;
+  maxRepairAttempts?: number;
+};
+
+/**
+ * Runs `backend` and validates its plan, sending validation errors back to
+ * the model for up to `maxRepairAttempts` corrected plans. Valid actions are
+ * accepted (and reported via `onAction`) as they stream in; repair attempts
+ * only ask for the rejected ones. Throws a `PlanValidationError` carrying the
+ * last output once the attempts are used up, or the abort reason once
+ * `request.signal` aborts.
+ */
+export async function generatePlan(
+  backend: AgentBackend,
+  request: AgentBackendRequest,
+  opts: GeneratePlanOptions,
+): Promise<AgentPlan> {
+  const maxRepairAttempts = opts.maxRepairAttempts ?? MAX_PLAN_REPAIR_ATTEMPTS;
+  const accepted: AgentAction[] = [];
+  const notes: string[] = [];
+
+  const accept = (action: AgentAction) => {
+    accepted.push(action);
+    opts.onAction?.(action);
+  };
+
+  let attemptRequest = request;
+  for (let attempt = 0; ; attempt++) {
+    request.signal?.throwIfAborted();
+    const parser = createPlanStreamParser();
+    let streamed = 0;
+
+    for await (const chunk of backend.stream(attemptRequest)) {
+      for (const action of parser.push(chunk)) {
+        try {
+          validateAction(action, opts.context);
+        } catch {
+          // Reported by the full plan check below.
+          continue;
+        }
+        accept(action);
+        streamed++;
+      }
+      opts.onProgress?.(parser.getText().length);
+    }
+
+    const output = parser.getText();
+    let issues: PlanIssue[];
+    try {
+      const checked = checkPlan(extractJsonObject(output), opts.context);
+      // The incremental parser can miss actions in unusually formatted
+      // output; accept whatever the full parse found beyond what streamed.
+      for (const action of checked.actions.slice(streamed)) accept(action);
+      if (checked.notes) notes.push(checked.notes);
+      issues = checked.issues;
+    } catch (e) {
+      issues = [
+        {
+          path: "plan",
+          message: e instanceof Error ? e.message : String(e),
+        },
+      ];
+    }
+
+    opts.onAttempt?.({ prompt: attemptRequest.prompt, output, issues });
+    if (issues.length === 0) {
+      return { actions: accepted, notes: notes.join("\n\n") };
+    }
+    if (attempt >= maxRepairAttempts) {
+      throw new PlanValidationError(issues, output);
+    }
+
+    opts.onRepair?.(attempt + 1, issues);
+    attemptRequest = {
+      ...request,
+      prompt: buildRepairPrompt({
+        prompt: request.prompt,
+        output,
+        issues,
+        accepted,
+      }),
+    };
+  }
+}
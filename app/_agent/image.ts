@@ -0,0 +1,50 @@
+import { MAX_AGENT_IMAGE_BYTES } from "@/app/_constants/agent";
+
+export const AGENT_IMAGE_MIME_TYPES = ["image/png", "image/jpeg"] as const;
+
+export type AgentImageMimeType = (typeof AGENT_IMAGE_MIME_TYPES)[number];
+
+/** An image attached to a backend request, as base64 without the data-URL prefix. */
+export type AgentImage = {
+  mimeType: AgentImageMimeType;
+  data: string;
+};
+
+/** Thrown by `parseImageDataUrl` for anything that isn't an acceptable image. */
+export class AgentImageError extends Error {
+  readonly status: 400 | 413;
+
+  constructor(message: string, status: 400 | 413 = 400) {
+    super(message);
+    this.name = "AgentImageError";
+    this.status = status;
+  }
+}
+
+/** Parses a `data:image/png;base64,...` URL as sent by the prompt shape. */
+export function parseImageDataUrl(dataUrl: string): AgentImage {
+  const match = /^data:([^;,]+);base64,([A-Za-z0-9+/=\s]*)$/.exec(dataUrl);
+  if (!match) throw new AgentImageError("image must be a base64 data URL");
+
+  const mimeType = match[1] as AgentImageMimeType;
+  if (!AGENT_IMAGE_MIME_TYPES.includes(mimeType)) {
+    throw new AgentImageError(
+      `image must be one of ${AGENT_IMAGE_MIME_TYPES.join(", ")}`,
+    );
+  }
+
+  const data = match[2].replace(/\s/g, "");
+  // Every 4 base64 characters encode 3 bytes.
+  if ((data.length * 3) / 4 > MAX_AGENT_IMAGE_BYTES) {
+    throw new AgentImageError("image too large", 413);
+  }
+  return { mimeType, data };
+}
+
+export function toImageDataUrl(image: AgentImage): string {
+  return `data:${image.mimeType};base64,${image.data}`;
+}
+
+export function getImageExtension(image: AgentImage): string {
+  return image.mimeType === "image/jpeg" ? "jpg" : "png";
+}
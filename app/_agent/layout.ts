@@ -0,0 +1,319 @@
+export const LAYOUT_DIRECTIONS = ["down", "right", "up", "left"] as const;
+
+/** Which way edges point: `down` puts sources at the top. */
+export type LayoutDirection = (typeof LAYOUT_DIRECTIONS)[number];
+
+export type LayoutNode = { id: string; w: number; h: number };
+
+export type LayoutEdge = { from: string; to: string };
+
+export type LayoutOptions = {
+  direction?: LayoutDirection;
+  /** Space between consecutive ranks (along the edge direction). */
+  rankGap?: number;
+  /** Space between neighbouring nodes in the same rank. */
+  nodeGap?: number;
+};
+
+export type GraphLayout = {
+  /** Top-left corner of each node, with the layout's top-left at 0,0. */
+  positions: Map<string, { x: number; y: number }>;
+  w: number;
+  h: number;
+};
+
+/** Passes of barycenter ordering; more rarely helps on diagram-sized graphs. */
+const ORDERING_PASSES = 8;
+
+/** Passes pulling nodes towards their neighbours when assigning positions. */
+const POSITIONING_PASSES = 4;
+
+/** A node in the layered graph; dummies route edges that skip ranks. */
+type Vertex = {
+  id: string;
+  /** Size across the rank (e.g. width when laying out `down`). */
+  cross: number;
+  /** Size along the edge direction. */
+  main: number;
+  rank: number;
+  order: number;
+  /** Position across the rank, left/top edge. */
+  pos: number;
+  isDummy: boolean;
+  up: Vertex[];
+  down: Vertex[];
+};
+
+/** Reverses edges that close a cycle, so the graph can be ranked. */
+function removeCycles(ids: string[], edges: LayoutEdge[]): [string, string][] {
+  const outgoing = new Map(ids.map((id) => [id, [] as string[]]));
+  for (const edge of edges) outgoing.get(edge.from)?.push(edge.to);
+
+  const state = new Map<string, "visiting" | "done">();
+  const result: [string, string][] = [];
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    for (const to of outgoing.get(id) ?? []) {
+      if (state.get(to) === "visiting") {
+        result.push([to, id]);
+        continue;
+      }
+      result.push([id, to]);
+      if (!state.has(to)) visit(to);
+    }
+    state.set(id, "done");
+  };
+  for (const id of ids) if (!state.has(id)) visit(id);
+  return result;
+}
+
+/** Longest-path ranking: every node sits one rank below its lowest parent. */
+function assignRanks(
+  ids: string[],
+  edges: [string, string][],
+): Map<string, number> {
+  const incoming = new Map(ids.map((id) => [id, 0]));
+  const outgoing = new Map(ids.map((id) => [id, [] as string[]]));
+  for (const [from, to] of edges) {
+    outgoing.get(from)?.push(to);
+    incoming.set(to, (incoming.get(to) ?? 0) + 1);
+  }
+
+  const ranks = new Map(ids.map((id) => [id, 0]));
+  const queue = ids.filter((id) => incoming.get(id) === 0);
+  while (queue.length) {
+    const id = queue.shift() as string;
+    for (const to of outgoing.get(id) ?? []) {
+      ranks.set(to, Math.max(ranks.get(to) ?? 0, (ranks.get(id) ?? 0) + 1));
+      incoming.set(to, (incoming.get(to) ?? 0) - 1);
+      if (incoming.get(to) === 0) queue.push(to);
+    }
+  }
+  return ranks;
+}
+
+function countCrossings(layers: Vertex[][]): number {
+  let crossings = 0;
+  for (const layer of layers) {
+    const links = layer.flatMap((v) => v.down.map((d) => [v.order, d.order]));
+    for (let i = 0; i < links.length; i++) {
+      for (let j = i + 1; j < links.length; j++) {
+        const [a1, b1] = links[i];
+        const [a2, b2] = links[j];
+        if ((a1 - a2) * (b1 - b2) < 0) crossings++;
+      }
+    }
+  }
+  return crossings;
+}
+
+function barycenter(v: Vertex, neighbours: Vertex[]): number {
+  if (neighbours.length === 0) return v.order;
+  return neighbours.reduce((sum, n) => sum + n.order, 0) / neighbours.length;
+}
+
+/** Orders each rank to reduce edge crossings (barycenter heuristic). */
+function orderLayers(layers: Vertex[][]) {
+  const setOrder = (layer: Vertex[]) => {
+    layer.forEach((v, i) => {
+      v.order = i;
+    });
+  };
+  layers.forEach(setOrder);
+
+  let best = layers.map((layer) => [...layer]);
+  let bestCrossings = countCrossings(layers);
+
+  for (let pass = 0; pass < ORDERING_PASSES && bestCrossings > 0; pass++) {
+    const downward = pass % 2 === 0;
+    const sequence = downward ? layers.slice(1) : layers.slice(0, -1).reverse();
+    for (const layer of sequence) {
+      const keys = new Map(
+        layer.map((v) => [v, barycenter(v, downward ? v.up : v.down)]),
+      );
+      layer.sort((a, b) => (keys.get(a) ?? 0) - (keys.get(b) ?? 0));
+      setOrder(layer);
+    }
+
+    const crossings = countCrossings(layers);
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = layers.map((layer) => [...layer]);
+    }
+  }
+
+  best.forEach((layer, i) => {
+    layers[i] = layer;
+    setOrder(layer);
+  });
+}
+
+/**
+ * Places each rank's vertices in order, as close as possible to where they'd
+ * like to be. Packing from the left and from the right both respect the
+ * order and gaps, and so does their average.
+ */
+function packLayer(layer: Vertex[], desired: number[], gap: number) {
+  const n = layer.length;
+  const fromLeft: number[] = [];
+  for (let i = 0; i < n; i++) {
+    fromLeft[i] =
+      i === 0
+        ? desired[i]
+        : Math.max(desired[i], fromLeft[i - 1] + layer[i - 1].cross + gap);
+  }
+  const fromRight: number[] = [];
+  for (let i = n - 1; i >= 0; i--) {
+    fromRight[i] =
+      i === n - 1
+        ? desired[i]
+        : Math.min(desired[i], fromRight[i + 1] - layer[i].cross - gap);
+  }
+  layer.forEach((v, i) => {
+    v.pos = (fromLeft[i] + fromRight[i]) / 2;
+  });
+}
+
+function center(v: Vertex): number {
+  return v.pos + v.cross / 2;
+}
+
+function assignPositions(layers: Vertex[][], gap: number) {
+  // Start with every rank packed and centred on 0.
+  for (const layer of layers) {
+    const total =
+      layer.reduce((sum, v) => sum + v.cross, 0) + gap * (layer.length - 1);
+    let pos = -total / 2;
+    for (const v of layer) {
+      v.pos = pos;
+      pos += v.cross + gap;
+    }
+  }
+
+  for (let pass = 0; pass < POSITIONING_PASSES; pass++) {
+    const downward = pass % 2 === 0;
+    const sequence = downward ? layers.slice(1) : layers.slice(0, -1).reverse();
+    for (const layer of sequence) {
+      const desired = layer.map((v) => {
+        const neighbours = downward ? v.up : v.down;
+        if (neighbours.length === 0) return v.pos;
+        const mean =
+          neighbours.reduce((sum, n) => sum + center(n), 0) / neighbours.length;
+        return mean - v.cross / 2;
+      });
+      packLayer(layer, desired, gap);
+    }
+  }
+}
+
+/**
+ * Lays out a directed graph in layers (Sugiyama style): cycles are broken,
+ * nodes ranked by longest path, ranks ordered to reduce crossings, and
+ * nodes pulled towards their neighbours. Edges that skip ranks get a lane
+ * of their own so they don't run through nodes.
+ */
+export function layoutGraph(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  opts: LayoutOptions = {},
+): GraphLayout {
+  const direction = opts.direction ?? "down";
+  const rankGap = opts.rankGap ?? 100;
+  const nodeGap = opts.nodeGap ?? 60;
+  const isVertical = direction === "down" || direction === "up";
+
+  const ids = nodes.map((n) => n.id);
+  const known = new Set(ids);
+  const uniqueEdges = [
+    ...new Map(
+      edges
+        .filter((e) => e.from !== e.to && known.has(e.from) && known.has(e.to))
+        .map((e) => [`${e.from}\u0000${e.to}`, e]),
+    ).values(),
+  ];
+  const acyclic = removeCycles(ids, uniqueEdges);
+  const ranks = assignRanks(ids, acyclic);
+
+  const vertices = new Map<string, Vertex>();
+  for (const node of nodes) {
+    vertices.set(node.id, {
+      id: node.id,
+      cross: isVertical ? node.w : node.h,
+      main: isVertical ? node.h : node.w,
+      rank: ranks.get(node.id) ?? 0,
+      order: 0,
+      pos: 0,
+      isDummy: false,
+      up: [],
+      down: [],
+    });
+  }
+
+  // Split edges that span several ranks into chains of dummy vertices.
+  let dummyCount = 0;
+  for (const [from, to] of acyclic) {
+    let prev = vertices.get(from) as Vertex;
+    const target = vertices.get(to) as Vertex;
+    for (let rank = prev.rank + 1; rank < target.rank; rank++) {
+      const dummy: Vertex = {
+        id: `\u0000dummy${dummyCount++}`,
+        cross: 0,
+        main: 0,
+        rank,
+        order: 0,
+        pos: 0,
+        isDummy: true,
+        up: [prev],
+        down: [],
+      };
+      prev.down.push(dummy);
+      vertices.set(dummy.id, dummy);
+      prev = dummy;
+    }
+    prev.down.push(target);
+    target.up.push(prev);
+  }
+
+  const rankCount = Math.max(0, ...ranks.values()) + 1;
+  const layers: Vertex[][] = Array.from({ length: rankCount }, () => []);
+  for (const v of vertices.values()) layers[v.rank].push(v);
+
+  orderLayers(layers);
+  assignPositions(layers, nodeGap);
+
+  // Ranks are as thick as their biggest node; nodes are centred within them.
+  const thickness = layers.map((layer) =>
+    Math.max(0, ...layer.map((v) => v.main)),
+  );
+  const rankStart: number[] = [];
+  let main = 0;
+  for (let i = 0; i < layers.length; i++) {
+    rankStart[i] = main;
+    main += thickness[i] + rankGap;
+  }
+  const totalMain = Math.max(0, main - rankGap);
+
+  const real = [...vertices.values()].filter((v) => !v.isDummy);
+  const minCross = Math.min(...real.map((v) => v.pos));
+  const maxCross = Math.max(...real.map((v) => v.pos + v.cross));
+
+  const positions = new Map<string, { x: number; y: number }>();
+  for (const v of real) {
+    const cross = v.pos - minCross;
+    let along = rankStart[v.rank] + (thickness[v.rank] - v.main) / 2;
+    if (direction === "up" || direction === "left") {
+      along = totalMain - along - v.main;
+    }
+    positions.set(
+      v.id,
+      isVertical ? { x: cross, y: along } : { x: along, y: cross },
+    );
+  }
+
+  const totalCross = real.length ? maxCross - minCross : 0;
+  return {
+    positions,
+    w: isVertical ? totalCross : totalMain,
+    h: isVertical ? totalMain : totalCross,
+  };
+}
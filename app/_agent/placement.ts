@@ -0,0 +1,222 @@
+/** A page-space rectangle. */
+export type PlacementRect = { x: number; y: number; w: number; h: number };
+
+export type AgentFreeSpaceSide = "right" | "below" | "left" | "above";
+
+/** Empty page area on one side of the prompt shape. */
+export type AgentFreeSpace = PlacementRect & { side: AgentFreeSpaceSide };
+
+/** Where the prompt shape is and the empty space around it, for PROMPT_AREA. */
+export type AgentPromptArea = {
+  bounds: PlacementRect;
+  free: AgentFreeSpace[];
+};
+
+/**
+ * The `anchor` that stands for the prompt shape a run came from. The editor
+ * maps it to the shape's id along with the CANVAS_STATE aliases.
+ */
+export const PROMPT_ANCHOR = "prompt";
+
+/** Space kept between placed content and the shapes around it. */
+export const PLACEMENT_GAP = 60;
+
+/** How far free space is looked for on each side of the prompt shape. */
+const MAX_FREE_SIZE = 1600;
+
+/** Free space is offered at least this deep and this wide (or tall). */
+const MIN_FREE_SIZE = 240;
+const MIN_FREE_BAND = 800;
+
+/** Obstacles, nearest first, whose edges are tried as new positions. */
+const MAX_PLACEMENT_CANDIDATES = 100;
+
+function isRect(value: unknown): value is PlacementRect {
+  if (!value || typeof value !== "object") return false;
+  const { x, y, w, h } = value as Record<string, unknown>;
+  return [x, y, w, h].every((n) => typeof n === "number" && Number.isFinite(n));
+}
+
+export function isAgentPromptArea(value: unknown): value is AgentPromptArea {
+  if (!value || typeof value !== "object") return false;
+  const { bounds, free } = value as Record<string, unknown>;
+  return isRect(bounds) && Array.isArray(free) && free.every(isRect);
+}
+
+/** Whether `a` and `b` overlap, or come closer than `gap` to each other. */
+export function rectsOverlap(
+  a: PlacementRect,
+  b: PlacementRect,
+  gap = 0,
+): boolean {
+  return (
+    a.x < b.x + b.w + gap &&
+    b.x < a.x + a.w + gap &&
+    a.y < b.y + b.h + gap &&
+    b.y < a.y + a.h + gap
+  );
+}
+
+/** The smallest rectangle around all of `rects`. */
+export function getCommonRect(rects: PlacementRect[]): PlacementRect {
+  const minX = Math.min(...rects.map((r) => r.x));
+  const minY = Math.min(...rects.map((r) => r.y));
+  const maxX = Math.max(...rects.map((r) => r.x + r.w));
+  const maxY = Math.max(...rects.map((r) => r.y + r.h));
+  return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+}
+
+function getFreeRect(
+  side: AgentFreeSpaceSide,
+  anchor: PlacementRect,
+  obstacles: PlacementRect[],
+): PlacementRect | undefined {
+  const bandW = Math.max(anchor.w, MIN_FREE_BAND);
+  const bandH = Math.max(anchor.h, MIN_FREE_BAND);
+  // The largest area on that side, then cut back to the nearest obstacle.
+  let rect: PlacementRect;
+  switch (side) {
+    case "right":
+      rect = {
+        x: anchor.x + anchor.w + PLACEMENT_GAP,
+        y: anchor.y,
+        w: MAX_FREE_SIZE,
+        h: bandH,
+      };
+      break;
+    case "below":
+      rect = {
+        x: anchor.x,
+        y: anchor.y + anchor.h + PLACEMENT_GAP,
+        w: bandW,
+        h: MAX_FREE_SIZE,
+      };
+      break;
+    case "left":
+      rect = {
+        x: anchor.x - PLACEMENT_GAP - MAX_FREE_SIZE,
+        y: anchor.y,
+        w: MAX_FREE_SIZE,
+        h: bandH,
+      };
+      break;
+    case "above":
+      rect = {
+        x: anchor.x,
+        y: anchor.y - PLACEMENT_GAP - MAX_FREE_SIZE,
+        w: bandW,
+        h: MAX_FREE_SIZE,
+      };
+      break;
+  }
+
+  const full = { ...rect };
+  const right = rect.x + rect.w;
+  const bottom = rect.y + rect.h;
+  for (const o of obstacles) {
+    if (!rectsOverlap(full, o)) continue;
+    switch (side) {
+      case "right":
+        rect.w = Math.min(rect.w, o.x - PLACEMENT_GAP - rect.x);
+        break;
+      case "below":
+        rect.h = Math.min(rect.h, o.y - PLACEMENT_GAP - rect.y);
+        break;
+      case "left":
+        rect.x = Math.max(rect.x, o.x + o.w + PLACEMENT_GAP);
+        rect.w = right - rect.x;
+        break;
+      case "above":
+        rect.y = Math.max(rect.y, o.y + o.h + PLACEMENT_GAP);
+        rect.h = bottom - rect.y;
+        break;
+    }
+  }
+  return rect.w >= MIN_FREE_SIZE && rect.h >= MIN_FREE_SIZE ? rect : undefined;
+}
+
+/** The empty areas right of, below, left of and above `anchor`, where there are any. */
+export function getFreeSpace(
+  anchor: PlacementRect,
+  obstacles: PlacementRect[],
+): AgentFreeSpace[] {
+  return (["right", "below", "left", "above"] as const).flatMap((side) => {
+    const rect = getFreeRect(side, anchor, obstacles);
+    return rect ? [{ side, ...rect }] : [];
+  });
+}
+
+/**
+ * The position nearest to where `rect` is now at which it keeps
+ * `PLACEMENT_GAP` from every obstacle (and stays inside `within`, when
+ * given). Candidates line `rect` up against the edges of nearby obstacles.
+ * Returns `undefined` when there is no such position.
+ */
+export function findFreePosition(
+  rect: PlacementRect,
+  obstacles: PlacementRect[],
+  within?: PlacementRect,
+): { x: number; y: number } | undefined {
+  const distance = (o: PlacementRect) =>
+    Math.hypot(o.x + o.w / 2 - rect.x, o.y + o.h / 2 - rect.y);
+  const nearest = obstacles
+    .toSorted((a, b) => distance(a) - distance(b))
+    .slice(0, MAX_PLACEMENT_CANDIDATES);
+
+  const xs = [
+    rect.x,
+    ...nearest.flatMap((o) => [
+      o.x + o.w + PLACEMENT_GAP,
+      o.x - PLACEMENT_GAP - rect.w,
+    ]),
+  ];
+  const ys = [
+    rect.y,
+    ...nearest.flatMap((o) => [
+      o.y + o.h + PLACEMENT_GAP,
+      o.y - PLACEMENT_GAP - rect.h,
+    ]),
+  ];
+  const candidates = xs
+    .flatMap((x) => ys.map((y) => ({ x, y })))
+    .sort(
+      (a, b) =>
+        Math.hypot(a.x - rect.x, a.y - rect.y) -
+        Math.hypot(b.x - rect.x, b.y - rect.y),
+    );
+
+  return candidates.find(({ x, y }) => {
+    const moved = { ...rect, x, y };
+    if (
+      within &&
+      (x < within.x ||
+        y < within.y ||
+        x + rect.w > within.x + within.w ||
+        y + rect.h > within.y + within.h)
+    ) {
+      return false;
+    }
+    return !obstacles.some((o) => rectsOverlap(moved, o, PLACEMENT_GAP));
+  });
+}
+
+const SIDE_NAMES: Record<AgentFreeSpaceSide, string> = {
+  right: "right of it",
+  below: "below it",
+  left: "left of it",
+  above: "above it",
+};
+
+/** PROMPT_AREA for the prompt. */
+export function describePromptArea(area: AgentPromptArea): string {
+  const describe = ({ x, y, w, h }: PlacementRect) =>
+    `x=${Math.round(x)}..${Math.round(x + w)}, y=${Math.round(y)}..${Math.round(y + h)}`;
+  const free = area.free.length
+    ? area.free
+        .map((space) => `- ${SIDE_NAMES[space.side]}: ${describe(space)}`)
+        .join("\n")
+    : "- none nearby; put new content just right of the existing content";
+  return `USER_INSTRUCTIONS come from a prompt shape on the canvas at ${describe(area.bounds)}; never put shapes on top of it. Empty space next to it:
+${free}
+Put new drawings in one of these areas, nearest first, or use "anchor":"prompt" to place shapes relative to the prompt shape.`;
+}
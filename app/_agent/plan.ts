@@ -0,0 +1,111 @@
+import type { AgentAction } from "@/app/_tldraw/agent/agentActions";
+import {
+  createPlanValidationContext,
+  getActionIssues,
+  type PlanIssue,
+  type PlanValidationContext,
+} from "./schema";
+
+export type AgentPlan = {
+  actions: AgentAction[];
+  notes: string;
+};
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+export function extractJsonObject(text: string): unknown {
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // fall through
+  }
+
+  const start = trimmed.indexOf("{");
+  const end = trimmed.lastIndexOf("}");
+  if (start >= 0 && end > start) {
+    const slice = trimmed.slice(start, end + 1);
+    return JSON.parse(slice);
+  }
+
+  throw new Error("Could not parse JSON from output");
+}
+
+/** Thrown when a plan fails validation; `issues` lists every problem found. */
+export class PlanValidationError extends Error {
+  readonly issues: PlanIssue[];
+  /** The raw model output that failed validation, when known. */
+  readonly output?: string;
+
+  constructor(issues: PlanIssue[], output?: string) {
+    super(issues.map((i) => `${i.path}: ${i.message}`).join("\n"));
+    this.name = "PlanValidationError";
+    this.issues = issues;
+    this.output = output;
+  }
+}
+
+/**
+ * Checks a single action against the strict action schema. Exported
+ * separately from `validatePlan` so streamed actions can be checked as they
+ * arrive.
+ */
+export function validateAction(
+  action: unknown,
+  context?: PlanValidationContext,
+  path = "action",
+): asserts action is AgentAction {
+  const issues = getActionIssues(action, path, context);
+  if (issues.length > 0) throw new PlanValidationError(issues);
+}
+
+/**
+ * Splits a parsed plan into its valid actions and the issues found in the
+ * rest, instead of failing on the first problem. Used by the repair loop.
+ */
+export function checkPlan(
+  plan: unknown,
+  context: PlanValidationContext = createPlanValidationContext(),
+): { actions: AgentAction[]; notes: string; issues: PlanIssue[] } {
+  if (!isObject(plan)) {
+    return {
+      actions: [],
+      notes: "",
+      issues: [{ path: "plan", message: "Plan is not an object" }],
+    };
+  }
+
+  const issues: PlanIssue[] = [];
+  const actions: AgentAction[] = [];
+
+  if (typeof plan.notes !== "string") {
+    issues.push({ path: "notes", message: "Plan.notes must be a string" });
+  }
+  if (!Array.isArray(plan.actions)) {
+    issues.push({ path: "actions", message: "Plan.actions must be an array" });
+  } else {
+    plan.actions.forEach((action: unknown, i) => {
+      const actionIssues = getActionIssues(action, `actions[${i}]`, context);
+      if (actionIssues.length > 0) issues.push(...actionIssues);
+      else actions.push(action as AgentAction);
+    });
+  }
+
+  return {
+    actions,
+    notes: typeof plan.notes === "string" ? plan.notes : "",
+    issues,
+  };
+}
+
+export function validatePlan(
+  plan: unknown,
+  context?: PlanValidationContext,
+): AgentPlan {
+  const { actions, notes, issues } = checkPlan(plan, context);
+  if (issues.length > 0) throw new PlanValidationError(issues);
+  return { actions, notes };
+}
@@ -0,0 +1,123 @@
+import {
+  DEFAULT_AGENT_CONFIRM_DELETIONS,
+  DEFAULT_AGENT_MAX_DELETIONS,
+} from "@/app/_constants/agent";
+import type { AgentAction } from "@/app/_tldraw/agent/agentActions";
+
+/** A board's limits on what agent runs may do, kept in its document meta. */
+export type AgentPolicy = {
+  /** Most shapes one run may delete, frame contents included. */
+  maxDeletions: number;
+  /** A run that deletes more shapes than this asks before deleting them. */
+  confirmDeletionsAbove: number;
+};
+
+/** The page area one run is limited to: the selection or frame it was given. */
+export type AgentScope = { x: number; y: number; w: number; h: number };
+
+export const DEFAULT_AGENT_POLICY: AgentPolicy = {
+  maxDeletions: DEFAULT_AGENT_MAX_DELETIONS,
+  confirmDeletionsAbove: DEFAULT_AGENT_CONFIRM_DELETIONS,
+};
+
+/** Shapes may stick out of the scope by this much, e.g. for stroke widths. */
+const SCOPE_TOLERANCE = 1;
+
+/**
+ * Reads a policy from untrusted input, e.g. a board's metadata or a request
+ * body. Missing or invalid limits fall back to the defaults.
+ */
+export function parseAgentPolicy(value: unknown): AgentPolicy {
+  const source = (value && typeof value === "object" ? value : {}) as Record<
+    string,
+    unknown
+  >;
+  const limit = (key: keyof AgentPolicy) => {
+    const n = source[key];
+    return typeof n === "number" && Number.isInteger(n) && n >= 0
+      ? n
+      : DEFAULT_AGENT_POLICY[key];
+  };
+  return {
+    maxDeletions: limit("maxDeletions"),
+    confirmDeletionsAbove: limit("confirmDeletionsAbove"),
+  };
+}
+
+export function isAgentScope(value: unknown): value is AgentScope {
+  if (!value || typeof value !== "object") return false;
+  const { x, y, w, h } = value as Record<string, unknown>;
+  return [x, y, w, h].every((n) => typeof n === "number" && Number.isFinite(n));
+}
+
+/** Whether the page box `[x, y, w, h]` (a point when `w` and `h` are 0) lies inside `scope`. */
+export function isInScope(
+  scope: AgentScope,
+  [x, y, w, h]: [number, number, number, number],
+): boolean {
+  return (
+    x >= scope.x - SCOPE_TOLERANCE &&
+    y >= scope.y - SCOPE_TOLERANCE &&
+    x + w <= scope.x + scope.w + SCOPE_TOLERANCE &&
+    y + h <= scope.y + scope.h + SCOPE_TOLERANCE
+  );
+}
+
+/**
+ * Existing shapes an action changes, moves or deletes, and the frame or
+ * group `reparent` moves shapes into. Shapes it only connects to, selects
+ * or copies are not included.
+ */
+export function getChangedShapeIds(action: AgentAction): string[] {
+  switch (action._type) {
+    case "create_shape":
+      return action.shape.kind === "frame" ? (action.shape.children ?? []) : [];
+    case "update_shape":
+    case "delete_shape":
+      return [action.id];
+    case "reparent":
+      return action.parentId ? [...action.ids, action.parentId] : action.ids;
+    case "layout":
+    case "group":
+    case "ungroup":
+    case "align":
+    case "distribute":
+    case "stack":
+    case "reorder":
+      return action.ids;
+    case "select":
+    case "connect":
+    case "duplicate":
+    case "create_graph":
+      return [];
+  }
+}
+
+/**
+ * Page points where an action puts new shapes, as far as the plan says
+ * (relative to the shape's `anchor`, when it has one). `create_graph`
+ * without an `origin` is placed next to the existing content, so it has none.
+ */
+export function getPlacedPoints(
+  action: AgentAction,
+): { x: number; y: number }[] {
+  if (action._type === "create_graph") {
+    return action.origin ? [action.origin] : [];
+  }
+  if (action._type !== "create_shape") return [];
+  const { shape } = action;
+  switch (shape.kind) {
+    case "arrow":
+      return [shape.start, shape.end];
+    case "line":
+    case "highlight":
+      return shape.points;
+    default:
+      return [{ x: shape.x, y: shape.y }];
+  }
+}
+
+/** SCOPE for the prompt, e.g. "x=0..400, y=100..300". */
+export function describeScope(scope: AgentScope): string {
+  return `x=${Math.round(scope.x)}..${Math.round(scope.x + scope.w)}, y=${Math.round(scope.y)}..${Math.round(scope.y + scope.h)}`;
+}
@@ -0,0 +1,67 @@
+import {
+  AGENT_CONTEXT_MODES,
+  type AgentContextMode,
+  MAX_AGENT_EXTRA_INSTRUCTIONS_LENGTH,
+} from "@/app/_constants/agent";
+import { isObject } from "./plan";
+
+/**
+ * A named set of conventions for a kind of diagram. Its `instructions` are
+ * sent as the prompt's EXTRA_INSTRUCTIONS; the other fields are the prompt
+ * shape settings it switches to when picked.
+ */
+export type AgentPreset = {
+  id: string;
+  name: string;
+  instructions: string;
+  contextMode?: AgentContextMode;
+  sendImage?: boolean;
+};
+
+export const BUILT_IN_AGENT_PRESETS: readonly AgentPreset[] = [
+  {
+    id: "flowchart",
+    name: "Flowchart",
+    instructions:
+      "Draw a flowchart with create_graph, direction down. Use ellipses for start and end, rectangles for steps and diamonds for decisions. Label decision edges (e.g. yes/no). Keep labels under five words.",
+  },
+  {
+    id: "mind-map",
+    name: "Mind map",
+    instructions:
+      "Draw a mind map: one central ellipse for the topic, main branches as rectangles around it, sub-ideas as smaller rectangles attached to their branch. Use create_graph with direction right and give each main branch its own color, shared by its sub-ideas.",
+  },
+  {
+    id: "wireframe",
+    name: "UI wireframe",
+    instructions:
+      "Draw a low-fidelity UI wireframe: a frame per screen (1280x800 for desktop, 390x844 for mobile), grey rectangles for images, rectangles with short labels for buttons and inputs, and text for headings and copy. No colors except black and grey; align elements to a grid.",
+  },
+  {
+    id: "org-chart",
+    name: "Org chart",
+    instructions:
+      "Draw an org chart with create_graph, direction down. One rectangle per person with their name on the first line and role on the second, edges from manager to report. Put people with the same manager in the same row.",
+  },
+  {
+    id: "retro",
+    name: "Retro board",
+    instructions:
+      'Lay out a retrospective board: three frames side by side titled "Went well", "To improve" and "Action items", each 400 wide. Put each point on its own note (green, orange and blue respectively), stacked in a column inside its frame.',
+    contextMode: "nearby",
+  },
+];
+
+/** Checks a preset read from untrusted storage, e.g. a board's metadata. */
+export function isAgentPreset(value: unknown): value is AgentPreset {
+  return (
+    isObject(value) &&
+    typeof value.id === "string" &&
+    typeof value.name === "string" &&
+    typeof value.instructions === "string" &&
+    value.instructions.length <= MAX_AGENT_EXTRA_INSTRUCTIONS_LENGTH &&
+    (value.contextMode === undefined ||
+      AGENT_CONTEXT_MODES.includes(value.contextMode as AgentContextMode)) &&
+    (value.sendImage === undefined || typeof value.sendImage === "boolean")
+  );
+}
@@ -0,0 +1,217 @@
+import type {
+  AgentAction,
+  AgentArrowBinding,
+} from "@/app/_tldraw/agent/agentActions";
+import { type AgentPromptArea, describePromptArea } from "./placement";
+import {
+  type AgentPolicy,
+  type AgentScope,
+  DEFAULT_AGENT_POLICY,
+  describeScope,
+} from "./policy";
+import type { AgentRunUser } from "./runLocks";
+import type { PlanIssue } from "./schema";
+
+/** One shape in CANVAS_STATE, in the compact format `createAgentSerializer` produces. */
+export type CanvasShapeSummary = {
+  /** A short alias (`s1`, `s2`, ...) mapped back to the real id by the route. */
+  id: string;
+  type: string;
+  /** Position relative to the parent (the page, or the frame/group it's in). */
+  x?: number;
+  y?: number;
+  /** Page bounds as `[x, y, w, h]`. */
+  bounds?: [number, number, number, number];
+  /** Alias of the nearest enclosing frame. */
+  frame?: string;
+  /** Alias of the nearest enclosing group. */
+  group?: string;
+  rotation?: number;
+  isLocked?: boolean;
+  /** Marked "protected from agent" by a collaborator. */
+  isProtected?: boolean;
+  /** Props that differ from the defaults; rich text is flattened to `text`. */
+  props?: Record<string, unknown>;
+  bindings?: AgentArrowBinding[];
+};
+
+/** Describes the shapes the client left out of CANVAS_STATE to stay in budget. */
+export type AgentContextOmitted = {
+  count: number;
+  /** Count per shape type, e.g. `{ geo: 12, arrow: 3 }`. */
+  types: Record<string, number>;
+  /** Page bounds enclosing all omitted shapes. */
+  bounds?: { x: number; y: number; w: number; h: number };
+};
+
+/** A rendered PNG/JPEG of part of the canvas, for vision-capable models. */
+export type AgentCanvasImage = {
+  /** `data:image/png;base64,...` */
+  dataUrl: string;
+  /** The page area the image covers, edge to edge. */
+  bounds: { x: number; y: number; w: number; h: number };
+  /** What was rendered, for the prompt. */
+  source: "selection" | "viewport";
+};
+
+/** A previous turn of the conversation on a prompt shape. */
+export type AgentHistoryTurn = {
+  role: "user" | "agent";
+  text: string;
+};
+
+export type AgentRequestBody = {
+  message: string;
+  /** Earlier turns on the same prompt shape, oldest first. */
+  history?: AgentHistoryTurn[];
+  shapes?: CanvasShapeSummary[];
+  /** What didn't fit in `shapes`, so the model knows the canvas isn't empty there. */
+  omitted?: AgentContextOmitted;
+  image?: AgentCanvasImage;
+  /** Maps the aliases used in `shapes` back to real shape ids. */
+  aliases?: Record<string, string>;
+  extraInstructions?: string;
+  /** Optional backend override; falls back to the server's configured default. */
+  backend?: string;
+  /** The prompt shape being run. Sent with `user`, it is locked for the run. */
+  promptId?: string;
+  /** Who started the run. */
+  user?: AgentRunUser;
+  /** The board the run is for, so the run log can be browsed per board. */
+  boardId?: string;
+  /** The board's limits on agent runs; defaults apply when omitted. */
+  policy?: AgentPolicy;
+  /** When set, the run may only change shapes inside this page area. */
+  scope?: AgentScope;
+  /** Where the prompt shape is, and the free space around it. */
+  promptArea?: AgentPromptArea;
+};
+
+function describeOmitted(omitted: AgentContextOmitted): string {
+  const types = Object.entries(omitted.types)
+    .map(([type, count]) => `${count} ${type}`)
+    .join(", ");
+  const where = omitted.bounds
+    ? ` within x=${Math.round(omitted.bounds.x)}..${Math.round(omitted.bounds.x + omitted.bounds.w)}, y=${Math.round(omitted.bounds.y)}..${Math.round(omitted.bounds.y + omitted.bounds.h)}`
+    : "";
+  return `${omitted.count} less relevant shapes (${types})${where} were left out of CANVAS_STATE. They exist but you cannot see or reference them; avoid placing new shapes on top of that area, and say so in notes if the request needs them.`;
+}
+
+function describeImage(image: AgentCanvasImage): string {
+  const { x, y, w, h } = image.bounds;
+  return `An image of the ${image.source} is attached. It shows the page area x=${Math.round(x)}..${Math.round(x + w)}, y=${Math.round(y)}..${Math.round(y + h)} (its left edge is x=${Math.round(x)}, its top edge y=${Math.round(y)}). Use it to understand drawings, images and layout that CANVAS_STATE can't describe (e.g. freehand "draw" shapes); convert positions in it to page coordinates with those bounds.`;
+}
+
+function describeScopeSection(scope: AgentScope): string {
+  return `Only change shapes that lie entirely inside the page area ${describeScope(scope)}; the others are read-only. Put every new shape inside it, and give create_graph an "origin" there.`;
+}
+
+export function buildPrompt(body: AgentRequestBody): string {
+  const shapes = body.shapes ?? [];
+  const policy = body.policy ?? DEFAULT_AGENT_POLICY;
+  // One shape per line: readable, but without pretty-printing's token cost.
+  const shapesText = shapes.length
+    ? `[\n${shapes.map((s) => JSON.stringify(s)).join(",\n")}\n]`
+    : "[]";
+  const omittedText = body.omitted?.count ? describeOmitted(body.omitted) : "";
+
+  const history = body.history ?? [];
+  const historyText = history
+    .map((turn) => `${turn.role === "user" ? "USER" : "AGENT"}: ${turn.text}`)
+    .join("\n\n");
+
+  return `You are an assistant that plans edits to a tldraw canvas.
+
+Return ONLY valid JSON (no markdown, no commentary).
+
+Schema (strict):
+{
+  "actions": [
+    {"_type":"create_shape","shape":{"kind":"geo","id"?:string,"geo":"rectangle"|"ellipse"|"triangle"|"diamond"|"pentagon"|"hexagon"|"octagon"|"star"|"rhombus"|"rhombus-2"|"oval"|"trapezoid"|"arrow-right"|"arrow-left"|"arrow-up"|"arrow-down"|"x-box"|"check-box"|"heart"|"cloud","x":number,"y":number,"w"?:number,"h"?:number,"label"?:string, ...Style}},
+    {"_type":"create_shape","shape":{"kind":"text","id"?:string,"x":number,"y":number,"w"?:number,"text":string, ...Style}},
+    {"_type":"create_shape","shape":{"kind":"note","id"?:string,"x":number,"y":number,"text"?:string, ...Style}},
+    {"_type":"create_shape","shape":{"kind":"frame","id"?:string,"x":number,"y":number,"w":number,"h":number,"name"?:string,"children"?:string[], ...Style}},
+    {"_type":"create_shape","shape":{"kind":"arrow","id"?:string,"start":{"x":number,"y":number},"end":{"x":number,"y":number},"label"?:string,
+      "bindings"?: [{"terminal":"start"|"end","toId":string,"normalizedAnchor"?:{"x":number,"y":number},"isExact"?:boolean,"isPrecise"?:boolean}], ...Style }},
+    {"_type":"create_shape","shape":{"kind":"line","id"?:string,"points":[{"x":number,"y":number}, ...],"spline"?:"line"|"cubic", ...Style}},
+    {"_type":"create_shape","shape":{"kind":"highlight","id"?:string,"points":[{"x":number,"y":number}, ...], ...Style}},
+    {"_type":"create_shape","shape":{"kind":"embed"|"bookmark","id"?:string,"url":string,"x":number,"y":number,"w"?:number,"h"?:number, ...Style}},
+    {"_type":"connect","fromId":string,"toId":string,"id"?:string,"label"?:string,"fromSide"?:"top"|"right"|"bottom"|"left","toSide"?:"top"|"right"|"bottom"|"left", ...Style},
+    {"_type":"update_shape","id":string,"patch":{"x"?:number,"y"?:number,"props"?:object}},
+    {"_type":"delete_shape","id":string},
+    {"_type":"select","ids":string[]},
+    {"_type":"group","ids":string[],"id"?:string},
+    {"_type":"ungroup","ids":string[]},
+    {"_type":"reparent","ids":string[],"parentId"?:string},
+    {"_type":"align","ids":string[],"alignment":"left"|"center-horizontal"|"right"|"top"|"center-vertical"|"bottom"},
+    {"_type":"distribute","ids":string[],"direction":"horizontal"|"vertical"},
+    {"_type":"stack","ids":string[],"direction":"horizontal"|"vertical","gap"?:number},
+    {"_type":"reorder","ids":string[],"order":"front"|"forward"|"backward"|"back"},
+    {"_type":"duplicate","ids":string[],"offset"?:{"x":number,"y":number}},
+    {"_type":"create_graph","nodes":[{"id":string,"label"?:string,"geo"?:string,"w"?:number,"h"?:number, ...Style}, ...],
+      "edges"?:[{"id"?:string,"from":string,"to":string,"label"?:string, ...Style}, ...],"direction"?:"down"|"right"|"up"|"left","origin"?:{"x":number,"y":number}},
+    {"_type":"layout","ids":string[],"direction"?:"down"|"right"|"up"|"left"}
+  ],
+  "notes": string
+}
+
+Style (all optional; each applies only to shapes that support it):
+{"color":"black"|"grey"|"light-violet"|"violet"|"blue"|"light-blue"|"yellow"|"orange"|"green"|"light-green"|"light-red"|"red"|"white",
+ "fill":"none"|"semi"|"solid"|"pattern"|"fill"|"lined-fill", "dash":"draw"|"solid"|"dashed"|"dotted", "size":"s"|"m"|"l"|"xl",
+ "font":"draw"|"sans"|"serif"|"mono", "align":"start"|"middle"|"end", "verticalAlign":"start"|"middle"|"end",
+ "arrowheadStart"|"arrowheadEnd":"none"|"arrow"|"triangle"|"square"|"dot"|"pipe"|"diamond"|"inverted"|"bar"}
+
+Rules:
+- Use existing shape ids from CANVAS_STATE when updating/deleting/selecting. Existing shapes have short ids like "s1"; give new shapes descriptive ids (e.g. "api-box"), never the "s<number>" form.
+- In CANVAS_STATE, x/y are relative to the shape's frame or group (if any) and are what update_shape's patch.x/patch.y set; "bounds" is [x, y, w, h] in page coordinates. Only non-default props are listed.
+- To change a shape's label or text, set patch.props.text to a plain string.
+- line and highlight points are in page coordinates; a line needs at least two. Use "embed" for URLs that can be embedded (YouTube, Figma, Google Maps, CodePen, ...) and "bookmark" for other web pages.
+- A frame's "children" moves existing shapes or shapes created earlier in the plan into it, keeping their page position; create the children before the frame.
+- To line shapes up, space them evenly, put them in a frame or change their stacking order, use align/distribute/stack/reparent/reorder instead of computing coordinates with update_shape. "reparent" without parentId moves shapes back onto the page. group and align need at least 2 shapes, distribute at least 3. Duplicates get new ids you cannot refer to.
+- For diagrams, flowcharts, trees and other node-and-arrow drawings use create_graph: give only the nodes and the edges between them (by node id) and they are laid out, sized and connected for you. "direction" is the way edges point (default "down"); "origin" is the top-left of the diagram and defaults to the right of the existing content. Use "layout" to tidy up existing boxes and the arrows between them.
+- To draw an arrow between two shapes (existing or created earlier in the plan), use connect rather than an arrow with coordinates: the arrow's ends are placed for you and stay attached when the shapes move. Only give fromSide/toSide when the arrow must leave or enter by a particular side.
+- Any create_shape "shape" may also have an "anchor": the id of a shape (existing, or created earlier in the plan) or "prompt" for the prompt shape when PROMPT_AREA is given. Its x/y (or start/end, or points) are then relative to that shape's top-left corner, e.g. {"kind":"note","anchor":"s3","x":0,"y":200,...} goes 200 below the top of s3.
+- If you create multiple shapes that reference each other (e.g. boxes you then connect), provide stable ids via shape.id so later actions can refer to them.
+- Prefer small numbers of actions.
+- Shapes marked "isLocked" or "isProtected" in CANVAS_STATE must not be updated, moved, deleted, grouped, reparented or have shapes put into them (arrows may still connect to them). Delete at most ${policy.maxDeletions} shapes, frame contents included; if the request needs more, say so in notes.
+- If the request is ambiguous, return an empty actions array and explain in notes.
+- CONVERSATION_HISTORY (if present) holds earlier turns; the canvas already reflects the actions taken in them. Treat USER_INSTRUCTIONS as a follow-up.
+
+${historyText ? `CONVERSATION_HISTORY:\n${historyText}\n\n` : ""}USER_INSTRUCTIONS:
+${body.message}
+
+CANVAS_STATE (array of shapes, most relevant first):
+${shapesText}
+${omittedText ? `\nCANVAS_OMITTED:\n${omittedText}\n` : ""}${body.promptArea ? `\nPROMPT_AREA:\n${describePromptArea(body.promptArea)}\n` : ""}${body.scope ? `\nSCOPE:\n${describeScopeSection(body.scope)}\n` : ""}${body.image ? `\nCANVAS_IMAGE:\n${describeImage(body.image)}\n` : ""}
+${body.extraInstructions ? `EXTRA_INSTRUCTIONS:\n${body.extraInstructions}\n` : ""}`;
+}
+
+/**
+ * Follow-up prompt sent when a plan fails validation. Actions that were
+ * already accepted (and, when streaming, already applied) are listed so the
+ * model only resends the ones that need fixing.
+ */
+export function buildRepairPrompt(opts: {
+  prompt: string;
+  output: string;
+  issues: PlanIssue[];
+  accepted: AgentAction[];
+}): string {
+  const issuesText = opts.issues
+    .map((issue) => `- ${issue.path}: ${issue.message}`)
+    .join("\n");
+
+  return `${opts.prompt}
+PREVIOUS_OUTPUT:
+${opts.output}
+
+VALIDATION_ERRORS:
+${issuesText}
+
+Your previous output did not match the schema. The actions in ACCEPTED_ACTIONS were valid and have already been applied.
+Return a corrected plan in the same JSON format containing ONLY the actions that were rejected (fixed) and any actions you had not finished. Do not repeat accepted actions.
+
+ACCEPTED_ACTIONS:
+${JSON.stringify(opts.accepted)}
+`;
+}
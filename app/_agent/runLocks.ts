@@ -0,0 +1,41 @@
+import { AGENT_RUN_LOCK_TTL_MS } from "@/app/_constants/agent";
+import { isObject } from "./plan";
+
+/** The collaborator a run is attributed to. */
+export type AgentRunUser = { id: string; name: string };
+
+type AgentRunLock = { user: AgentRunUser; startedAt: number };
+
+const locks = new Map<string, AgentRunLock>();
+
+export function isAgentRunUser(value: unknown): value is AgentRunUser {
+  return (
+    isObject(value) &&
+    typeof value.id === "string" &&
+    value.id.length > 0 &&
+    typeof value.name === "string"
+  );
+}
+
+/**
+ * Claims a prompt shape so only one run of it happens at a time, whoever
+ * starts it. Returns a release function, or the user already running it.
+ */
+export function acquireAgentRunLock(
+  promptId: string,
+  user: AgentRunUser,
+  now = Date.now(),
+): { ok: true; release: () => void } | { ok: false; holder: AgentRunUser } {
+  const held = locks.get(promptId);
+  if (held && now - held.startedAt < AGENT_RUN_LOCK_TTL_MS) {
+    return { ok: false, holder: held.user };
+  }
+  const lock: AgentRunLock = { user, startedAt: now };
+  locks.set(promptId, lock);
+  return {
+    ok: true,
+    release: () => {
+      if (locks.get(promptId) === lock) locks.delete(promptId);
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type AgentRunEntry, createAgentRunLog } from "./runLog";
+
+let dir: string;
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "run-log-"));
+});
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function run(id: string): Omit<AgentRunEntry, "results"> {
+  return {
+    id,
+    source: "board-api",
+    backend: "scripted",
+    message: `run ${id}`,
+    status: "ok",
+    createdAt: 0,
+    finishedAt: 0,
+    attempts: [],
+  };
+}
+
+test("runs and results are readable once added", async () => {
+  const path = join(dir, "runs.ndjson");
+  const log = createAgentRunLog(path);
+  await log.add(run("a"));
+  await log.addResult("a", { at: 1, applied: 2, summary: "Created 2 shapes" });
+
+  expect((await log.get("a"))?.results).toEqual([
+    { at: 1, applied: 2, summary: "Created 2 shapes" },
+  ]);
+  // A new log over the same file finds the same runs.
+  expect((await createAgentRunLog(path).list()).map((r) => r.id)).toEqual([
+    "a",
+  ]);
+});
+
+test("later writes to the file are not re-read", async () => {
+  const path = join(dir, "runs.ndjson");
+  const log = createAgentRunLog(path);
+  await log.add(run("a"));
+  await writeFile(path, "");
+
+  expect(await log.get("a")).toBeDefined();
+});
+
+test("rotated files are kept and only memory is capped", async () => {
+  const path = join(dir, "runs.ndjson");
+  const log = createAgentRunLog(path, 2);
+  for (const id of ["a", "b", "c"]) await log.add(run(id));
+  // A result for a run in a rotated file lands in the current one.
+  await log.addResult("b", { at: 1, applied: 1, summary: "late" });
+  for (const id of ["d", "e"]) await log.add(run(id));
+
+  expect((await log.list()).map((r) => r.id)).toEqual(["e", "d"]);
+  expect(await readFile(`${path}.1`, "utf8")).toContain('"id":"a"');
+  expect(await readFile(`${path}.2`, "utf8")).toContain('"runId":"b"');
+  expect(await readFile(path, "utf8")).toContain('"id":"e"');
+
+  // Reloading reads back far enough for the newest runs and their results.
+  const reloaded = createAgentRunLog(path, 3);
+  expect((await reloaded.list()).map((r) => r.id)).toEqual(["e", "d", "c"]);
+  // Rotation picks the next free number after a restart.
+  await createAgentRunLog(path, 1).add(run("f"));
+  expect(await readFile(`${path}.3`, "utf8")).toContain('"id":"e"');
+  expect(await readFile(`${path}.1`, "utf8")).toContain('"id":"a"');
+
+  const everything = createAgentRunLog(path, 10);
+  expect((await everything.get("b"))?.results).toEqual([
+    { at: 1, applied: 1, summary: "late" },
+  ]);
+});
@@ -0,0 +1,318 @@
+import { randomUUID } from "node:crypto";
+import { appendFile, mkdir, readdir, readFile, rename } from "node:fs/promises";
+import { basename, dirname, resolve } from "node:path";
+import {
+  DEFAULT_AGENT_RUN_LOG,
+  MAX_AGENT_RUN_LOG_LIST,
+  MAX_AGENT_RUN_LOG_RUNS,
+} from "@/app/_constants/agent";
+import type { AgentAction } from "@/app/_tldraw/agent/agentActions";
+import { isObject, PlanValidationError } from "./plan";
+import type { AgentRunUser } from "./runLocks";
+import { isRunTimeout } from "./runQueue";
+import type { PlanIssue } from "./schema";
+
+export type AgentRunStatus =
+  | "ok"
+  | "invalid"
+  | "error"
+  | "cancelled"
+  | "timeout";
+
+/** One call to the model: the prompt sent and what came back. */
+export type AgentRunAttempt = {
+  prompt: string;
+  output: string;
+  /** Validation problems found in `output`; empty if it was accepted. */
+  issues: PlanIssue[];
+  durationMs: number;
+};
+
+/** What happened when a run's plan was applied to a board. */
+export type AgentRunResult = {
+  at: number;
+  /** Actions applied, or staged when `preview` is set. */
+  applied: number;
+  summary: string;
+  preview?: boolean;
+  /** Set when the plan was applied again from the inspector. */
+  reapplied?: boolean;
+  userName?: string;
+  error?: string;
+  /** Actions that were skipped or failed, one line each. */
+  problems?: string[];
+};
+
+export type AgentRunEntry = {
+  id: string;
+  /** Where the run came from: a prompt shape or the board API. */
+  source: "editor" | "board-api";
+  backend: string;
+  message: string;
+  boardId?: string;
+  promptId?: string;
+  user?: AgentRunUser;
+  status: AgentRunStatus;
+  /** Request received, left the queue, finished. */
+  createdAt: number;
+  startedAt?: number;
+  finishedAt: number;
+  attempts: AgentRunAttempt[];
+  plan?: { actions: AgentAction[]; notes: string };
+  error?: string;
+  /** Results reported after the run, oldest first. */
+  results: AgentRunResult[];
+};
+
+export type AgentRunSummary = Omit<AgentRunEntry, "attempts" | "plan"> & {
+  attemptCount: number;
+  actionCount: number;
+};
+
+/** One line of the log file. Results are separate lines, since it's append-only. */
+type AgentRunLogLine =
+  | ({ type: "run" } & Omit<AgentRunEntry, "results">)
+  | ({ type: "result"; runId: string } & AgentRunResult);
+
+export type AgentRunFilter = {
+  boardId?: string;
+  promptId?: string;
+  limit?: number;
+};
+
+export function summarizeAgentRunEntry(run: AgentRunEntry): AgentRunSummary {
+  const { attempts, plan, ...summary } = run;
+  return {
+    ...summary,
+    attemptCount: attempts.length,
+    actionCount: plan?.actions.length ?? 0,
+  };
+}
+
+/** The log lines in `file`, skipping torn writes; none if it doesn't exist. */
+async function readLogLines(file: string): Promise<AgentRunLogLine[]> {
+  let text: string;
+  try {
+    text = await readFile(file, "utf8");
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw e;
+  }
+  return text.split("\n").flatMap((raw) => {
+    try {
+      const line: unknown = raw ? JSON.parse(raw) : undefined;
+      return isObject(line) ? [line as AgentRunLogLine] : [];
+    } catch {
+      return []; // A torn write; the rest of the log is still good.
+    }
+  });
+}
+
+/** The numbers of the rotated files next to `path` (`<path>.1`, ...), ascending. */
+async function getRotations(path: string): Promise<number[]> {
+  let names: string[];
+  try {
+    names = await readdir(dirname(path));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw e;
+  }
+  const prefix = `${basename(path)}.`;
+  return names
+    .filter((name) => name.startsWith(prefix))
+    .map((name) => name.slice(prefix.length))
+    .filter((suffix) => /^\d+$/.test(suffix))
+    .map(Number)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Every agent run as one line of JSON in `path`, with the results clients
+ * report added as further lines. Nothing is ever rewritten or deleted, so
+ * the files can be tailed, grepped and shipped elsewhere as is. Once `path`
+ * holds `maxRuns` runs it's renamed to the next free `<path>.<n>` and a new
+ * file started. The newest `maxRuns` runs are read once and then kept in
+ * memory, so listing and looking up runs never re-reads the files.
+ */
+export function createAgentRunLog(
+  path: string,
+  maxRuns = MAX_AGENT_RUN_LOG_RUNS,
+) {
+  let queue = Promise.resolve();
+  /** Runs by id, oldest first; loaded by the first call. */
+  let runs: Map<string, AgentRunEntry> | undefined;
+  /** Run lines in `path`, to know when to rotate it. */
+  let fileRuns = 0;
+  /** The number the next rotated file gets. */
+  let nextRotation = 1;
+
+  // Reads and writes take turns, so a run is readable once it has been added.
+  const enqueue = <T>(fn: () => Promise<T>): Promise<T> => {
+    const next = queue.then(fn);
+    queue = next.then(
+      () => {},
+      () => {},
+    );
+    return next;
+  };
+
+  const addLine = (
+    target: Map<string, AgentRunEntry>,
+    line: AgentRunLogLine,
+  ) => {
+    if (line.type === "run") {
+      const { type: _type, ...run } = line;
+      target.set(run.id, { ...run, results: [] });
+      const [oldest] = target.keys();
+      if (target.size > maxRuns) target.delete(oldest);
+    } else if (line.type === "result") {
+      const { type: _type, runId, ...result } = line;
+      target.get(runId)?.results.push(result);
+    }
+  };
+
+  const load = async () => {
+    if (runs) return runs;
+    const countRuns = (lines: AgentRunLogLine[]) =>
+      lines.filter((line) => line.type === "run").length;
+    const current = await readLogLines(path);
+    const rotations = await getRotations(path);
+    fileRuns = countRuns(current);
+    nextRotation = (rotations.at(-1) ?? 0) + 1;
+
+    // Results are logged after their run, so reading newest files first
+    // until there are enough runs finds every result of those runs.
+    const files = [current];
+    let count = fileRuns;
+    for (const n of rotations.toReversed()) {
+      if (count >= maxRuns) break;
+      const lines = await readLogLines(`${path}.${n}`);
+      files.unshift(lines);
+      count += countRuns(lines);
+    }
+    const loaded = new Map<string, AgentRunEntry>();
+    for (const line of files.flat()) addLine(loaded, line);
+    runs = loaded;
+    return runs;
+  };
+
+  const append = (line: AgentRunLogLine) =>
+    enqueue(async () => {
+      const loaded = await load();
+      if (line.type === "run" && fileRuns >= maxRuns) {
+        await rename(path, `${path}.${nextRotation++}`);
+        fileRuns = 0;
+      }
+      await mkdir(dirname(path), { recursive: true });
+      await appendFile(path, `${JSON.stringify(line)}\n`);
+      if (line.type === "run") fileRuns++;
+      addLine(loaded, line);
+    });
+
+  return {
+    add(run: Omit<AgentRunEntry, "results">) {
+      return append({ type: "run", ...run });
+    },
+    addResult(runId: string, result: AgentRunResult) {
+      return append({ type: "result", runId, ...result });
+    },
+    /** Matching runs, newest first. */
+    async list(filter: AgentRunFilter = {}): Promise<AgentRunSummary[]> {
+      const limit = Math.min(
+        filter.limit ?? MAX_AGENT_RUN_LOG_LIST,
+        MAX_AGENT_RUN_LOG_LIST,
+      );
+      const loaded = await enqueue(load);
+      return [...loaded.values()]
+        .filter(
+          (run) =>
+            (!filter.boardId || run.boardId === filter.boardId) &&
+            (!filter.promptId || run.promptId === filter.promptId),
+        )
+        .toReversed()
+        .slice(0, limit)
+        .map(summarizeAgentRunEntry);
+    },
+    async get(id: string): Promise<AgentRunEntry | undefined> {
+      return (await enqueue(load)).get(id);
+    },
+  };
+}
+
+export type AgentRunLog = ReturnType<typeof createAgentRunLog>;
+
+let runLog: AgentRunLog | undefined;
+
+/** The log at `AGENT_RUN_LOG` (default `.data/agent-runs.ndjson`). */
+export function getAgentRunLog(): AgentRunLog {
+  runLog ??= createAgentRunLog(
+    resolve(process.env.AGENT_RUN_LOG ?? DEFAULT_AGENT_RUN_LOG),
+  );
+  return runLog;
+}
+
+function getRunStatus(e: unknown, signal?: AbortSignal): AgentRunStatus {
+  if (isRunTimeout(e)) return "timeout";
+  if (signal?.aborted) return "cancelled";
+  return e instanceof PlanValidationError ? "invalid" : "error";
+}
+
+/**
+ * Collects one run's timings and model attempts as it goes and logs it once
+ * it finishes. Logging failures are reported but never fail the run.
+ */
+export function createAgentRunTrace(
+  run: Pick<
+    AgentRunEntry,
+    "source" | "backend" | "message" | "boardId" | "promptId" | "user"
+  >,
+  log: AgentRunLog = getAgentRunLog(),
+) {
+  const id = randomUUID();
+  const createdAt = Date.now();
+  let startedAt: number | undefined;
+  let attemptStartedAt = createdAt;
+  const attempts: AgentRunAttempt[] = [];
+
+  const finish = (
+    outcome: Pick<AgentRunEntry, "status" | "plan" | "error">,
+  ) => {
+    log
+      .add({
+        id,
+        ...run,
+        ...outcome,
+        createdAt,
+        startedAt,
+        finishedAt: Date.now(),
+        attempts,
+      })
+      .catch((e) => console.error(`Failed to log agent run ${id}:`, e));
+  };
+
+  return {
+    id,
+    /** The run has left the queue. */
+    started() {
+      startedAt = attemptStartedAt = Date.now();
+    },
+    /** For `generatePlan`'s `onAttempt`. */
+    attempt(attempt: Omit<AgentRunAttempt, "durationMs">) {
+      const now = Date.now();
+      attempts.push({ ...attempt, durationMs: now - attemptStartedAt });
+      attemptStartedAt = now;
+    },
+    succeeded(plan: { actions: AgentAction[]; notes: string }) {
+      finish({ status: "ok", plan });
+    },
+    /** `signal` tells a cancelled run apart from a failed one. */
+    failed(e: unknown, signal?: AbortSignal) {
+      finish({
+        status: getRunStatus(e, signal),
+        error: e instanceof Error ? e.message : String(e),
+      });
+    },
+  };
+}
+
+export type AgentRunTrace = ReturnType<typeof createAgentRunTrace>;
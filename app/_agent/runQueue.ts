@@ -0,0 +1,118 @@
+import {
+  DEFAULT_AGENT_RUN_TIMEOUT_MS,
+  DEFAULT_MAX_CONCURRENT_AGENT_RUNS,
+  MAX_QUEUED_AGENT_RUNS,
+} from "@/app/_constants/agent";
+
+/** Thrown when the queue is full; the client should try again later. */
+export class AgentQueueFullError extends Error {
+  readonly status = 503;
+
+  constructor() {
+    super("Too many agent runs are waiting; try again in a moment");
+    this.name = "AgentQueueFullError";
+  }
+}
+
+type Waiter = {
+  start: () => void;
+  onPosition?: (position: number) => void;
+  /** Last position reported, so unchanged ones aren't sent again. */
+  position?: number;
+};
+
+const waiting: Waiter[] = [];
+let running = 0;
+
+function readPositiveInt(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+function getConcurrencyLimit(): number {
+  return readPositiveInt(
+    "AGENT_MAX_CONCURRENT_RUNS",
+    DEFAULT_MAX_CONCURRENT_AGENT_RUNS,
+  );
+}
+
+/** `AGENT_RUN_TIMEOUT_MS`, or the default. */
+export function getAgentRunTimeoutMs(): number {
+  return readPositiveInt("AGENT_RUN_TIMEOUT_MS", DEFAULT_AGENT_RUN_TIMEOUT_MS);
+}
+
+function reportPositions() {
+  waiting.forEach((waiter, i) => {
+    if (waiter.position === i + 1) return;
+    waiter.position = i + 1;
+    waiter.onPosition?.(i + 1);
+  });
+}
+
+function startNext() {
+  while (running < getConcurrencyLimit() && waiting.length > 0) {
+    const next = waiting.shift();
+    running++;
+    next?.start();
+  }
+  reportPositions();
+}
+
+/**
+ * Waits for one of the server's agent run slots. `onPosition` is called with
+ * the run's 1-based place in line whenever it changes, and not at all when a
+ * slot is free right away. Resolves to the slot's release function; rejects
+ * with the signal's reason if `signal` aborts first.
+ */
+export function acquireAgentRunSlot(
+  signal?: AbortSignal,
+  onPosition?: (position: number) => void,
+): Promise<() => void> {
+  signal?.throwIfAborted();
+  if (waiting.length >= MAX_QUEUED_AGENT_RUNS) {
+    throw new AgentQueueFullError();
+  }
+
+  return new Promise((resolve, reject) => {
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      running--;
+      startNext();
+    };
+    const waiter: Waiter = {
+      start: () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(release);
+      },
+      onPosition,
+    };
+    const onAbort = () => {
+      const index = waiting.indexOf(waiter);
+      if (index < 0) return;
+      waiting.splice(index, 1);
+      reportPositions();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+    waiting.push(waiter);
+    startNext();
+  });
+}
+
+/**
+ * Aborts when `signal` does or once `timeoutMs` has passed, with a
+ * `TimeoutError` reason in the latter case.
+ */
+export function withRunTimeout(
+  signal: AbortSignal,
+  timeoutMs = getAgentRunTimeoutMs(),
+): AbortSignal {
+  return AbortSignal.any([signal, AbortSignal.timeout(timeoutMs)]);
+}
+
+/** Whether `e` is the abort reason of a run that hit its timeout. */
+export function isRunTimeout(e: unknown): boolean {
+  return e instanceof DOMException && e.name === "TimeoutError";
+}
@@ -0,0 +1,177 @@
+import { expect, test } from "bun:test";
+import { resolveActionAliases } from "./aliases";
+import { checkPlan } from "./plan";
+import { createPlanValidationContext, getActionIssues } from "./schema";
+
+const rect = (id: string, x = 0, y = 0) => ({
+  _type: "create_shape",
+  shape: { kind: "geo", id, geo: "rectangle", x, y },
+});
+
+test("valid actions have no issues", () => {
+  expect(getActionIssues(rect("a"), "actions[0]")).toEqual([]);
+  expect(
+    getActionIssues(
+      { _type: "connect", fromId: "a", toId: "b", label: "uses" },
+      "actions[1]",
+    ),
+  ).toEqual([]);
+});
+
+test("invalid actions point at the offending field", () => {
+  expect(
+    getActionIssues(
+      {
+        _type: "create_shape",
+        shape: { kind: "geo", geo: "blob", x: 0, y: 0 },
+      },
+      "actions[0]",
+    ).map((issue) => issue.path),
+  ).toEqual(["actions[0].shape.geo"]);
+  expect(
+    getActionIssues({ _type: "teleport" }, "actions[1]")[0].path,
+  ).toStartWith("actions[1]");
+  expect(
+    getActionIssues({ _type: "connect", fromId: "a", toId: "a" }, "a")[0]
+      .message,
+  ).toContain("itself");
+});
+
+test("update_shape props are checked against the shape's type", () => {
+  const context = createPlanValidationContext([
+    { id: "shape:n", type: "note" },
+  ]);
+  expect(
+    getActionIssues(
+      {
+        _type: "update_shape",
+        id: "shape:n",
+        patch: { props: { color: "red" } },
+      },
+      "a",
+      context,
+    ),
+  ).toEqual([]);
+  // Shapes created earlier in the plan count too.
+  getActionIssues(rect("r"), "a", context);
+  expect(
+    getActionIssues(
+      { _type: "update_shape", id: "r", patch: { props: { wings: 2 } } },
+      "b",
+      context,
+    )[0].path,
+  ).toBe("b.patch.props.wings");
+});
+
+test("locked, protected and out-of-scope shapes are left alone", () => {
+  const context = createPlanValidationContext(
+    [
+      { id: "shape:l", type: "geo", isLocked: true },
+      { id: "shape:p", type: "geo", isProtected: true },
+      { id: "shape:far", type: "geo", bounds: [900, 900, 10, 10] },
+    ],
+    { scope: { x: 0, y: 0, w: 500, h: 500 } },
+  );
+  const messages = ["l", "p", "far"].map(
+    (id) =>
+      getActionIssues(
+        { _type: "delete_shape", id: `shape:${id}` },
+        "a",
+        context,
+      )[0]?.message,
+  );
+  expect(messages).toEqual([
+    '"shape:l" is locked; leave it as it is',
+    '"shape:p" is protected from agent edits; leave it as it is',
+    '"shape:far" is outside SCOPE; leave it as it is',
+  ]);
+  expect(getActionIssues(rect("new", 600, 0), "b", context)[0].message).toBe(
+    "New shapes must go inside SCOPE (x=0..500, y=0..500)",
+  );
+});
+
+test("shapes may not be put into a locked frame", () => {
+  const context = createPlanValidationContext([
+    { id: "shape:f", type: "frame", isLocked: true },
+    { id: "shape:a", type: "geo" },
+  ]);
+  expect(
+    getActionIssues(
+      { _type: "reparent", ids: ["shape:a"], parentId: "shape:f" },
+      "a",
+      context,
+    ).map((issue) => issue.message),
+  ).toEqual(['"shape:f" is locked; leave it as it is']);
+});
+
+test("a plan may not delete more shapes than the policy allows", () => {
+  const shapes = ["a", "b", "c"].map((id) => ({
+    id: `shape:${id}`,
+    type: "geo",
+  }));
+  const { actions, issues } = checkPlan(
+    {
+      notes: "",
+      actions: ["shape:a", "shape:b", "shape:a", "shape:c"].map((id) => ({
+        _type: "delete_shape",
+        id,
+      })),
+    },
+    createPlanValidationContext(shapes, {
+      policy: { maxDeletions: 2, confirmDeletionsAbove: 2 },
+    }),
+  );
+  // Deleting a shape twice counts once.
+  expect(actions).toHaveLength(3);
+  expect(issues).toEqual([
+    {
+      path: "actions[3]",
+      message: 'A plan may delete at most 2 shapes; keep "shape:c"',
+    },
+  ]);
+});
+
+test("anchors resolve to the prompt shape and known shapes", () => {
+  const anchored = (anchor: string) => ({
+    _type: "create_shape",
+    shape: { kind: "note", x: 20, y: 20, anchor },
+  });
+  const scope = { x: 0, y: 0, w: 500, h: 500 };
+  const noPrompt = createPlanValidationContext([], { scope });
+  expect(getActionIssues(anchored("prompt"), "a", noPrompt)[0].path).toBe(
+    "a.shape.anchor",
+  );
+
+  const context = createPlanValidationContext(
+    [{ id: "shape:edge", type: "geo", bounds: [490, 0, 10, 10] }],
+    { scope, promptArea: { bounds: { x: 0, y: 0, w: 100, h: 100 }, free: [] } },
+  );
+  expect(getActionIssues(anchored("prompt"), "a", context)).toEqual([]);
+  // 20 right of a shape at x=490 is outside the scope.
+  expect(getActionIssues(anchored("shape:edge"), "b", context)).toHaveLength(1);
+});
+
+test("aliases from CANVAS_STATE resolve to shape ids", () => {
+  const aliases = { s1: "shape:abc", s2: "shape:def" };
+  expect(
+    resolveActionAliases(
+      {
+        _type: "create_shape",
+        shape: { kind: "note", x: 0, y: 0, anchor: "s1" },
+      },
+      aliases,
+    ),
+  ).toMatchObject({ shape: { anchor: "shape:abc" } });
+  expect(
+    resolveActionAliases(
+      { _type: "connect", fromId: "s1", toId: "new" },
+      aliases,
+    ),
+  ).toMatchObject({ fromId: "shape:abc", toId: "new" });
+  expect(
+    resolveActionAliases(
+      { _type: "reparent", ids: ["s2"], parentId: "s1" },
+      aliases,
+    ),
+  ).toEqual({ _type: "reparent", ids: ["shape:def"], parentId: "shape:abc" });
+});
@@ -0,0 +1,618 @@
+import {
+  ArrowShapeArrowheadEndStyle,
+  ArrowShapeArrowheadStartStyle,
+  DefaultColorStyle,
+  DefaultDashStyle,
+  DefaultFillStyle,
+  DefaultFontStyle,
+  DefaultSizeStyle,
+  DefaultTextAlignStyle,
+  DefaultVerticalAlignStyle,
+  defaultShapeSchemas,
+  GeoShapeGeoStyle,
+  LineShapeSplineStyle,
+} from "@tldraw/tlschema";
+import { T } from "@tldraw/validate";
+import type {
+  AgentAction,
+  AgentArrowBinding,
+  AgentGraphEdge,
+  AgentGraphNode,
+  AgentShape,
+} from "@/app/_tldraw/agent/agentActions";
+import { LAYOUT_DIRECTIONS } from "./layout";
+import { type AgentPromptArea, PROMPT_ANCHOR } from "./placement";
+import {
+  type AgentPolicy,
+  type AgentScope,
+  describeScope,
+  getChangedShapeIds,
+  getPlacedPoints,
+  isInScope,
+} from "./policy";
+
+/** A single problem found while validating a plan, e.g. for the repair prompt. */
+export type PlanIssue = {
+  /** Where the problem is, e.g. `actions[2].shape.geo`. */
+  path: string;
+  message: string;
+};
+
+const point = T.object({ x: T.number, y: T.number });
+
+const agentArrowBinding: T.Validatable<AgentArrowBinding> = T.object({
+  terminal: T.literalEnum("start", "end"),
+  toId: T.string,
+  normalizedAnchor: point.optional(),
+  isExact: T.boolean.optional(),
+  isPrecise: T.boolean.optional(),
+});
+
+/** `AgentShapeStyle`, spread into every `create_shape` kind. */
+const style = {
+  color: T.optional(DefaultColorStyle),
+  fill: T.optional(DefaultFillStyle),
+  dash: T.optional(DefaultDashStyle),
+  size: T.optional(DefaultSizeStyle),
+  font: T.optional(DefaultFontStyle),
+  align: T.optional(DefaultTextAlignStyle),
+  verticalAlign: T.optional(DefaultVerticalAlignStyle),
+  arrowheadStart: T.optional(ArrowShapeArrowheadStartStyle),
+  arrowheadEnd: T.optional(ArrowShapeArrowheadEndStyle),
+};
+
+/** `AgentShape.anchor`, also spread into every `create_shape` kind. */
+const anchor = { anchor: T.string.optional() };
+
+const direction = T.literalEnum("horizontal", "vertical");
+
+const url = T.httpUrl.check((value) => {
+  if (!value) throw new T.ValidationError("Expected a URL");
+});
+
+const agentShape: T.Validatable<AgentShape> = T.union("kind", {
+  geo: T.object({
+    kind: T.literal("geo"),
+    id: T.string.optional(),
+    geo: GeoShapeGeoStyle,
+    x: T.number,
+    y: T.number,
+    w: T.positiveNumber.optional(),
+    h: T.positiveNumber.optional(),
+    label: T.string.optional(),
+    ...anchor,
+    ...style,
+  }),
+  text: T.object({
+    kind: T.literal("text"),
+    id: T.string.optional(),
+    x: T.number,
+    y: T.number,
+    w: T.positiveNumber.optional(),
+    text: T.string,
+    ...anchor,
+    ...style,
+  }),
+  arrow: T.object({
+    kind: T.literal("arrow"),
+    id: T.string.optional(),
+    start: point,
+    end: point,
+    label: T.string.optional(),
+    bindings: T.arrayOf(agentArrowBinding).optional(),
+    ...anchor,
+    ...style,
+  }),
+  note: T.object({
+    kind: T.literal("note"),
+    id: T.string.optional(),
+    x: T.number,
+    y: T.number,
+    text: T.string.optional(),
+    ...anchor,
+    ...style,
+  }),
+  frame: T.object({
+    kind: T.literal("frame"),
+    id: T.string.optional(),
+    x: T.number,
+    y: T.number,
+    w: T.positiveNumber,
+    h: T.positiveNumber,
+    name: T.string.optional(),
+    children: T.arrayOf(T.string).optional(),
+    ...anchor,
+    ...style,
+  }),
+  line: T.object({
+    kind: T.literal("line"),
+    id: T.string.optional(),
+    points: T.arrayOf(point).lengthGreaterThan1(),
+    spline: T.optional(LineShapeSplineStyle),
+    ...anchor,
+    ...style,
+  }),
+  highlight: T.object({
+    kind: T.literal("highlight"),
+    id: T.string.optional(),
+    points: T.arrayOf(point).nonEmpty(),
+    ...anchor,
+    ...style,
+  }),
+  embed: T.object({
+    kind: T.literal("embed"),
+    id: T.string.optional(),
+    url,
+    x: T.number,
+    y: T.number,
+    w: T.positiveNumber.optional(),
+    h: T.positiveNumber.optional(),
+    ...anchor,
+    ...style,
+  }),
+  bookmark: T.object({
+    kind: T.literal("bookmark"),
+    id: T.string.optional(),
+    url,
+    x: T.number,
+    y: T.number,
+    w: T.positiveNumber.optional(),
+    ...anchor,
+    ...style,
+  }),
+});
+
+const layoutDirection = T.literalEnum(...LAYOUT_DIRECTIONS);
+
+const connectSide = T.literalEnum("top", "right", "bottom", "left");
+
+const agentGraphNode: T.Validatable<AgentGraphNode> = T.object({
+  id: T.string,
+  label: T.string.optional(),
+  geo: T.optional(GeoShapeGeoStyle),
+  w: T.positiveNumber.optional(),
+  h: T.positiveNumber.optional(),
+  ...style,
+});
+
+const agentGraphEdge: T.Validatable<AgentGraphEdge> = T.object({
+  id: T.string.optional(),
+  from: T.string,
+  to: T.string,
+  label: T.string.optional(),
+  ...style,
+});
+
+/** Runtime counterpart of the `AgentAction` type. */
+export const agentActionValidator: T.Validatable<AgentAction> = T.union(
+  "_type",
+  {
+    create_shape: T.object({
+      _type: T.literal("create_shape"),
+      shape: agentShape,
+    }),
+    connect: T.object({
+      _type: T.literal("connect"),
+      id: T.string.optional(),
+      fromId: T.string,
+      toId: T.string,
+      label: T.string.optional(),
+      fromSide: connectSide.optional(),
+      toSide: connectSide.optional(),
+      ...style,
+    }),
+    create_graph: T.object({
+      _type: T.literal("create_graph"),
+      nodes: T.arrayOf(agentGraphNode).nonEmpty(),
+      edges: T.arrayOf(agentGraphEdge).optional(),
+      direction: layoutDirection.optional(),
+      origin: point.optional(),
+    }),
+    layout: T.object({
+      _type: T.literal("layout"),
+      ids: T.arrayOf(T.string).lengthGreaterThan1(),
+      direction: layoutDirection.optional(),
+    }),
+    update_shape: T.object({
+      _type: T.literal("update_shape"),
+      id: T.string,
+      patch: T.object({
+        x: T.number.optional(),
+        y: T.number.optional(),
+        props: T.unknownObject.optional(),
+      }),
+    }),
+    delete_shape: T.object({
+      _type: T.literal("delete_shape"),
+      id: T.string,
+    }),
+    select: T.object({
+      _type: T.literal("select"),
+      ids: T.arrayOf(T.string),
+    }),
+    group: T.object({
+      _type: T.literal("group"),
+      ids: T.arrayOf(T.string).lengthGreaterThan1(),
+      id: T.string.optional(),
+    }),
+    ungroup: T.object({
+      _type: T.literal("ungroup"),
+      ids: T.arrayOf(T.string).nonEmpty(),
+    }),
+    reparent: T.object({
+      _type: T.literal("reparent"),
+      ids: T.arrayOf(T.string).nonEmpty(),
+      parentId: T.string.optional(),
+    }),
+    align: T.object({
+      _type: T.literal("align"),
+      ids: T.arrayOf(T.string).lengthGreaterThan1(),
+      alignment: T.literalEnum(
+        "left",
+        "center-horizontal",
+        "right",
+        "top",
+        "center-vertical",
+        "bottom",
+      ),
+    }),
+    distribute: T.object({
+      _type: T.literal("distribute"),
+      ids: T.arrayOf(T.string).check((ids) => {
+        if (ids.length < 3) {
+          throw new T.ValidationError("Expected at least 3 shapes");
+        }
+      }),
+      direction,
+    }),
+    stack: T.object({
+      _type: T.literal("stack"),
+      ids: T.arrayOf(T.string).lengthGreaterThan1(),
+      direction,
+      gap: T.positiveNumber.optional(),
+    }),
+    reorder: T.object({
+      _type: T.literal("reorder"),
+      ids: T.arrayOf(T.string).nonEmpty(),
+      order: T.literalEnum("front", "forward", "backward", "back"),
+    }),
+    duplicate: T.object({
+      _type: T.literal("duplicate"),
+      ids: T.arrayOf(T.string).nonEmpty(),
+      offset: point.optional(),
+    }),
+  },
+);
+
+/**
+ * The tldraw shape type each `create_shape` kind produces. (Embeds of URLs
+ * tldraw can't embed end up as bookmarks.)
+ */
+const shapeTypeByKind: Record<AgentShape["kind"], string> = {
+  geo: "geo",
+  text: "text",
+  arrow: "arrow",
+  note: "note",
+  frame: "frame",
+  line: "line",
+  highlight: "highlight",
+  embed: "embed",
+  bookmark: "bookmark",
+};
+
+function formatPath(path: ReadonlyArray<number | string>): string {
+  let formatted = "";
+  for (const item of path) {
+    if (typeof item === "number") formatted += `[${item}]`;
+    // Union validators add "(kind = geo)" markers; they aren't real keys.
+    else if (!item.startsWith("(")) formatted += `.${item}`;
+  }
+  return formatted;
+}
+
+function toIssues(error: unknown, basePath: string): PlanIssue[] {
+  if (error instanceof T.ValidationError) {
+    return [
+      {
+        path: `${basePath}${formatPath(error.path)}`,
+        message: error.rawMessage,
+      },
+    ];
+  }
+  return [
+    {
+      path: basePath,
+      message: error instanceof Error ? error.message : String(error),
+    },
+  ];
+}
+
+/**
+ * Validates `update_shape.patch.props` against tldraw's own prop validators
+ * for the target shape's type, one key at a time (patches are partial).
+ */
+function validatePropsPatch(
+  shapeType: string,
+  props: Record<string, unknown>,
+  basePath: string,
+): PlanIssue[] {
+  const schema =
+    defaultShapeSchemas[shapeType as keyof typeof defaultShapeSchemas];
+  if (!schema?.props) return [];
+
+  const validators = schema.props as Record<string, T.Validatable<unknown>>;
+  const issues: PlanIssue[] = [];
+  for (const [key, value] of Object.entries(props)) {
+    // Rich text is edited as plain text (see `getPropsPatch`).
+    const validator =
+      key === "text" && validators.richText ? T.string : validators[key];
+    if (!validator) {
+      issues.push({
+        path: `${basePath}.${key}`,
+        message: Object.keys(validators).length
+          ? `Unknown ${shapeType} prop (expected one of: ${Object.keys(validators).join(", ")})`
+          : `${shapeType} shapes have no props`,
+      });
+      continue;
+    }
+    try {
+      validator.validate(value);
+    } catch (e) {
+      issues.push(...toIssues(e, `${basePath}.${key}`));
+    }
+  }
+  return issues;
+}
+
+/**
+ * Tracks the shape types a plan can refer to, so `update_shape` props can be
+ * checked against the right schema: shapes already on the canvas plus shapes
+ * created by earlier actions in the same plan. Also holds what the board's
+ * agent policy forbids, so violations go back to the model like any issue.
+ */
+export type PlanValidationContext = {
+  shapeTypes: Map<string, string>;
+  /** Why the plan may not change a shape, e.g. "is locked", by id. */
+  restrictions: Map<string, string>;
+  /** Shapes the plan deletes; a set, as streamed actions are checked twice. */
+  deletedIds: Set<string>;
+  maxDeletions: number;
+  scope?: AgentScope;
+  /**
+   * Top-left page corner of each shape a `create_shape` may be anchored to,
+   * by id, including `prompt` when the run has a prompt shape.
+   */
+  anchors: Map<string, { x: number; y: number }>;
+};
+
+/** A shape on the canvas as validation needs it; `CanvasShapeSummary` fits. */
+export type PlanContextShape = {
+  id: string;
+  type: string;
+  isLocked?: boolean;
+  isProtected?: boolean;
+  /** Page bounds as `[x, y, w, h]`, for `scope`. */
+  bounds?: [number, number, number, number];
+};
+
+export function createPlanValidationContext(
+  shapes: PlanContextShape[] = [],
+  opts: {
+    policy?: AgentPolicy;
+    scope?: AgentScope;
+    promptArea?: AgentPromptArea;
+  } = {},
+): PlanValidationContext {
+  const { policy, scope, promptArea } = opts;
+  const restrictions = new Map<string, string>();
+  const anchors = new Map<string, { x: number; y: number }>();
+  if (promptArea) anchors.set(PROMPT_ANCHOR, promptArea.bounds);
+  for (const shape of shapes) {
+    const reason = shape.isLocked
+      ? "is locked"
+      : shape.isProtected
+        ? "is protected from agent edits"
+        : scope && shape.bounds && !isInScope(scope, shape.bounds)
+          ? "is outside SCOPE"
+          : undefined;
+    if (reason) restrictions.set(shape.id, reason);
+    if (shape.bounds) {
+      anchors.set(shape.id, { x: shape.bounds[0], y: shape.bounds[1] });
+    }
+  }
+  return {
+    shapeTypes: new Map(shapes.map((s) => [s.id, s.type])),
+    restrictions,
+    deletedIds: new Set(),
+    maxDeletions: policy?.maxDeletions ?? Number.POSITIVE_INFINITY,
+    scope,
+    anchors,
+  };
+}
+
+/** Records a shape created by the plan, under both its plain and `shape:` id. */
+function registerShape(
+  context: PlanValidationContext,
+  id: string,
+  type: string,
+) {
+  context.shapeTypes.set(id, type);
+  context.shapeTypes.set(`shape:${id}`, type);
+}
+
+/**
+ * What the board's agent policy says about a valid action: shapes it may not
+ * change, deletions past the limit and new shapes outside the scope.
+ */
+function getPolicyIssues(
+  action: AgentAction,
+  basePath: string,
+  context: PlanValidationContext,
+): PlanIssue[] {
+  const issues: PlanIssue[] = [];
+  for (const id of getChangedShapeIds(action)) {
+    const reason =
+      context.restrictions.get(id) ??
+      context.restrictions.get(id.replace(/^shape:/, ""));
+    if (reason) {
+      issues.push({
+        path: basePath,
+        message: `"${id}" ${reason}; leave it as it is`,
+      });
+    }
+  }
+
+  if (
+    action._type === "delete_shape" &&
+    issues.length === 0 &&
+    !context.deletedIds.has(action.id)
+  ) {
+    if (context.deletedIds.size >= context.maxDeletions) {
+      issues.push({
+        path: basePath,
+        message: `A plan may delete at most ${context.maxDeletions} shapes; keep "${action.id}"`,
+      });
+    } else {
+      context.deletedIds.add(action.id);
+    }
+  }
+
+  const { scope } = context;
+  // Shapes anchored to ones created by the plan are checked as they're made.
+  const origin =
+    action._type === "create_shape" && action.shape.anchor
+      ? context.anchors.get(action.shape.anchor)
+      : { x: 0, y: 0 };
+  if (scope && origin) {
+    const outside = getPlacedPoints(action).some(
+      (point) =>
+        !isInScope(scope, [point.x + origin.x, point.y + origin.y, 0, 0]),
+    );
+    if (outside) {
+      issues.push({
+        path: basePath,
+        message: `New shapes must go inside SCOPE (${describeScope(scope)})`,
+      });
+    } else if (action._type === "create_graph" && !action.origin) {
+      issues.push({
+        path: `${basePath}.origin`,
+        message: `Give an origin inside SCOPE (${describeScope(scope)})`,
+      });
+    }
+  }
+  return issues;
+}
+
+/** Graph edges may only connect nodes of the same graph. */
+function getGraphIssues(
+  action: Extract<AgentAction, { _type: "create_graph" }>,
+  basePath: string,
+): PlanIssue[] {
+  const issues: PlanIssue[] = [];
+  const nodeIds = new Set<string>();
+  action.nodes.forEach((node, i) => {
+    if (nodeIds.has(node.id)) {
+      issues.push({
+        path: `${basePath}.nodes[${i}].id`,
+        message: `Duplicate node id "${node.id}"`,
+      });
+    }
+    nodeIds.add(node.id);
+  });
+  action.edges?.forEach((edge, i) => {
+    for (const end of ["from", "to"] as const) {
+      if (!nodeIds.has(edge[end])) {
+        issues.push({
+          path: `${basePath}.edges[${i}].${end}`,
+          message: `Unknown node id "${edge[end]}" (edges can only connect nodes of this graph)`,
+        });
+      }
+    }
+  });
+  return issues;
+}
+
+/**
+ * Validates one action and returns every problem found (empty when valid).
+ * Valid `create_shape` actions register their id in `context`.
+ */
+export function getActionIssues(
+  action: unknown,
+  basePath: string,
+  context?: PlanValidationContext,
+): PlanIssue[] {
+  let valid: AgentAction;
+  try {
+    valid = agentActionValidator.validate(action);
+  } catch (e) {
+    return toIssues(e, basePath);
+  }
+
+  if (context) {
+    const issues = getPolicyIssues(valid, basePath, context);
+    if (issues.length) return issues;
+  }
+
+  if (valid._type === "create_graph") {
+    const issues = getGraphIssues(valid, basePath);
+    if (issues.length || !context) return issues;
+    for (const node of valid.nodes) registerShape(context, node.id, "geo");
+    for (const edge of valid.edges ?? []) {
+      if (edge.id) registerShape(context, edge.id, "arrow");
+    }
+    return [];
+  }
+
+  if (
+    valid._type === "create_shape" &&
+    valid.shape.anchor === PROMPT_ANCHOR &&
+    context &&
+    !context.anchors.has(PROMPT_ANCHOR)
+  ) {
+    return [
+      {
+        path: `${basePath}.shape.anchor`,
+        message:
+          "There is no prompt shape to anchor to; use a shape id or page coordinates",
+      },
+    ];
+  }
+
+  if (valid._type === "connect" && valid.fromId === valid.toId) {
+    return [
+      {
+        path: `${basePath}.toId`,
+        message: "An arrow can't connect a shape to itself",
+      },
+    ];
+  }
+
+  if (!context) return [];
+
+  if (valid._type === "create_shape" && valid.shape.id) {
+    registerShape(context, valid.shape.id, shapeTypeByKind[valid.shape.kind]);
+    return [];
+  }
+
+  if (valid._type === "connect" && valid.id) {
+    registerShape(context, valid.id, "arrow");
+    return [];
+  }
+
+  if (valid._type === "group" && valid.id) {
+    registerShape(context, valid.id, "group");
+    return [];
+  }
+
+  if (valid._type === "update_shape" && valid.patch.props) {
+    const shapeType = context.shapeTypes.get(valid.id);
+    if (!shapeType) return [];
+    return validatePropsPatch(
+      shapeType,
+      valid.patch.props as Record<string, unknown>,
+      `${basePath}.patch.props`,
+    );
+  }
+
+  return [];
+}
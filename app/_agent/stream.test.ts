@@ -0,0 +1,38 @@
+import { expect, test } from "bun:test";
+import { createPlanStreamParser } from "./stream";
+
+const output =
+  'Here you go:\n```json\n{"notes":"a {brace} in \\"text\\"","actions":[{"_type":"delete_shape","id":"a"},{"_type":"create_shape","shape":{"kind":"text","x":0,"y":0,"text":"} ]"}}]}\n```';
+
+test("actions arrive whole, however the output is split", () => {
+  const whole = createPlanStreamParser().push(output);
+  expect(whole).toEqual([
+    { _type: "delete_shape", id: "a" },
+    {
+      _type: "create_shape",
+      shape: { kind: "text", x: 0, y: 0, text: "} ]" },
+    },
+  ]);
+
+  const parser = createPlanStreamParser();
+  const chunks = [...output].map((char) => parser.push(char));
+  expect(chunks.flat()).toEqual(whole);
+  // Each action comes out with the chunk holding its closing brace.
+  expect(chunks.filter((completed) => completed.length)).toHaveLength(2);
+  expect(parser.getText()).toBe(output);
+});
+
+test("objects outside the actions array are ignored", () => {
+  const parser = createPlanStreamParser();
+  expect(
+    parser.push('{"meta":{"x":1},"list":[{"_type":"select","ids":[]}]}'),
+  ).toEqual([]);
+});
+
+test("a torn action is skipped and the next one still parses", () => {
+  const parser = createPlanStreamParser();
+  expect(parser.push('{"actions":[{"_type":"delete_shape","id":}')).toEqual([]);
+  expect(parser.push(',{"_type":"delete_shape","id":"b"}]}')).toEqual([
+    { _type: "delete_shape", id: "b" },
+  ]);
+});
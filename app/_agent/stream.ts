@@ -0,0 +1,106 @@
+import type { AgentAction } from "@/app/_tldraw/agent/agentActions";
+import type { PlanIssue } from "./schema";
+
+/** One line of the NDJSON stream `/api/agent` sends to the browser. */
+export type AgentStreamEvent =
+  /** The server is busy; the run is `position`th in line (1 = next). */
+  | { type: "queued"; position: number }
+  /**
+   * The run has left the queue and the model is working on it. `runId`
+   * finds it in the run log (`/api/agent/runs/:id`).
+   */
+  | { type: "started"; runId: string }
+  | { type: "progress"; chars: number }
+  | { type: "action"; action: AgentAction }
+  | { type: "repair"; attempt: number; issues: PlanIssue[] }
+  | { type: "done"; notes: string; actionCount: number }
+  | {
+      type: "error";
+      error: string;
+      detail?: unknown;
+      issues?: PlanIssue[];
+      agentStdout?: string;
+    };
+
+export const AGENT_STREAM_CONTENT_TYPE = "application/x-ndjson";
+
+/**
+ * Incrementally scans model output for the top-level `"actions"` array and
+ * returns each element as soon as its closing brace arrives. Anything before
+ * the first `{` (markdown fences, chatter) is ignored. The parsed objects are
+ * not validated; callers still run them through `validateAction`.
+ */
+export function createPlanStreamParser() {
+  let text = "";
+  let index = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastKeyAtDepth1 = "";
+  let actionsDepth = -1;
+  let actionStart = -1;
+
+  return {
+    /** Feeds the next chunk and returns any action objects it completed. */
+    push(chunk: string): unknown[] {
+      text += chunk;
+      const completed: unknown[] = [];
+
+      for (; index < text.length; index++) {
+        const char = text[index];
+
+        if (inString) {
+          if (escaped) {
+            escaped = false;
+          } else if (char === "\\") {
+            escaped = true;
+          } else if (char === '"') {
+            inString = false;
+            if (depth === 1) {
+              lastKeyAtDepth1 = text.slice(stringStart + 1, index);
+            }
+          }
+          continue;
+        }
+
+        if (char === '"') {
+          if (depth === 0) continue;
+          inString = true;
+          stringStart = index;
+          continue;
+        }
+
+        if (char === "{" || char === "[") {
+          depth++;
+          if (char === "[" && depth === 2 && lastKeyAtDepth1 === "actions") {
+            actionsDepth = depth;
+          } else if (char === "{" && depth === actionsDepth + 1) {
+            actionStart = index;
+          }
+          continue;
+        }
+
+        if (char === "}" || char === "]") {
+          if (char === "}" && depth === actionsDepth + 1 && actionStart >= 0) {
+            try {
+              completed.push(JSON.parse(text.slice(actionStart, index + 1)));
+            } catch {
+              // Leave malformed actions for the final plan validation to report.
+            }
+            actionStart = -1;
+          } else if (char === "]" && depth === actionsDepth) {
+            actionsDepth = -1;
+          }
+          depth = Math.max(0, depth - 1);
+        }
+      }
+
+      return completed;
+    },
+    /** Everything fed so far. */
+    getText() {
+      return text;
+    },
+  };
+}
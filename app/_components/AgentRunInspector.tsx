@@ -0,0 +1,439 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { type TLShapeId, useEditor, useValue } from "tldraw";
+import type {
+  AgentRunEntry,
+  AgentRunStatus,
+  AgentRunSummary,
+} from "../_agent/runLog";
+import {
+  formatAgentApplyReport,
+  summarizeAgentActions,
+} from "../_tldraw/agent/agentActions";
+import {
+  closeAgentInspector,
+  getAgentInspector,
+  openAgentInspector,
+  reportAgentRunResult,
+} from "../_tldraw/agent/agentInspector";
+import type { AgentPromptShape } from "../_tldraw/agent/agentPromptSchema";
+import {
+  appendAgentRun,
+  createAgentRunRecorder,
+  getAgentRunUser,
+} from "../_tldraw/agent/agentRuns";
+import { stopEvent } from "../_tldraw/agent/stopEvent";
+import { useBoard } from "../_tldraw/boards/useBoardStore";
+import { cn } from "../_utils/cn";
+import { diffLines } from "../_utils/lineDiff";
+
+const STATUS_CLASSES: Record<AgentRunStatus, string> = {
+  ok: "text-emerald-700 dark:text-emerald-300",
+  invalid: "text-amber-700 dark:text-amber-300",
+  error: "text-red-700 dark:text-red-300",
+  cancelled: "text-zinc-500",
+  timeout: "text-red-700 dark:text-red-300",
+};
+
+const buttonClassName =
+  "rounded-md border border-black/10 bg-white px-2 py-1 font-semibold hover:bg-zinc-100 disabled:opacity-50 dark:border-white/10 dark:bg-zinc-800 dark:hover:bg-zinc-700";
+
+function formatDuration(ms: number | undefined) {
+  if (ms === undefined) return "–";
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** What two runs are compared by: the plan if there is one, else the last output. */
+function getComparableText(run: AgentRunEntry) {
+  if (run.plan) return JSON.stringify(run.plan, null, 2);
+  return run.attempts.at(-1)?.output ?? "";
+}
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url} responded ${res.status}`);
+  return (await res.json()) as T;
+}
+
+function Section({
+  title,
+  children,
+  open,
+}: {
+  title: string;
+  children: React.ReactNode;
+  open?: boolean;
+}) {
+  return (
+    <details
+      open={open}
+      className="rounded border border-black/10 dark:border-white/10"
+    >
+      <summary className="cursor-pointer px-2 py-1 font-semibold">
+        {title}
+      </summary>
+      <div className="border-t border-black/10 p-2 dark:border-white/10">
+        {children}
+      </div>
+    </details>
+  );
+}
+
+function Pre({ children }: { children: React.ReactNode }) {
+  return (
+    <pre className="max-h-72 select-text overflow-auto whitespace-pre-wrap break-words font-mono text-[11px]">
+      {children}
+    </pre>
+  );
+}
+
+function RunDiff({ before, after }: { before: string; after: string }) {
+  const lines = diffLines(before, after);
+  if (lines.every((line) => line.op === "same")) {
+    return <p className="opacity-70">No differences.</p>;
+  }
+  return (
+    <Pre>
+      {lines.map((line, i) => (
+        <div
+          // biome-ignore lint/suspicious/noArrayIndexKey: lines have no identity of their own
+          key={i}
+          className={cn(
+            line.op === "add" &&
+              "bg-emerald-100 text-emerald-900 dark:bg-emerald-900/40 dark:text-emerald-100",
+            line.op === "remove" &&
+              "bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-100",
+          )}
+        >
+          {line.op === "add" ? "+ " : line.op === "remove" ? "- " : "  "}
+          {line.text}
+        </div>
+      ))}
+    </Pre>
+  );
+}
+
+function RunDetail({
+  run,
+  others,
+}: {
+  run: AgentRunEntry;
+  others: AgentRunSummary[];
+}) {
+  const editor = useEditor();
+  const [compareId, setCompareId] = useState("");
+  const [compared, setCompared] = useState<AgentRunEntry | null>(null);
+  const [reapplied, setReapplied] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCompared(null);
+    if (!compareId) return;
+    let cancelled = false;
+    fetchJson<AgentRunEntry>(`/api/agent/runs/${encodeURIComponent(compareId)}`)
+      .then((other) => {
+        if (!cancelled) setCompared(other);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [compareId]);
+
+  const reapply = () => {
+    if (!run.plan) return;
+    const user = getAgentRunUser(editor);
+    // Re-applying a plan shown in full is the confirmation the policy asks for.
+    const recorder = createAgentRunRecorder(editor, run.message, user, {
+      confirmed: true,
+    });
+    let error: string | undefined;
+    const promptId = run.promptId as TLShapeId | undefined;
+    const prompt = promptId
+      ? editor.getShape<AgentPromptShape>(promptId)
+      : undefined;
+    try {
+      recorder.apply(run.plan.actions);
+      recorder.place(prompt?.props.placement ?? "free-space");
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+    const record = recorder.getRecord();
+    if (record && promptId && prompt) {
+      appendAgentRun(editor, promptId, { ...record, logId: run.id });
+    }
+    const summary = summarizeAgentActions(run.plan.actions);
+    const report = recorder.getReport();
+    const problems = formatAgentApplyReport(report);
+    reportAgentRunResult(run.id, {
+      applied: report.applied,
+      summary,
+      reapplied: true,
+      userName: user.name,
+      error,
+      problems: problems.length ? problems : undefined,
+    });
+    setReapplied(
+      error ??
+        `Applied: ${summary}${problems.length ? ` · ${problems.length} problem(s)` : ""}`,
+    );
+  };
+
+  const queuedMs = run.startedAt && run.startedAt - run.createdAt;
+  const runMs = run.startedAt && run.finishedAt - run.startedAt;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-col gap-0.5">
+        <p className="select-text whitespace-pre-wrap font-semibold">
+          {run.message}
+        </p>
+        <p className="opacity-70">
+          <span className={cn("font-semibold", STATUS_CLASSES[run.status])}>
+            {run.status}
+          </span>{" "}
+          · {run.backend} · {run.source} · {run.user?.name ?? "anonymous"} ·{" "}
+          {new Date(run.createdAt).toLocaleString()}
+        </p>
+        <p className="opacity-70">
+          Queued {formatDuration(queuedMs)} · ran {formatDuration(runMs)} ·{" "}
+          {run.attempts.length} attempt{run.attempts.length === 1 ? "" : "s"}
+        </p>
+        {run.error ? (
+          <p className="select-text text-red-700 dark:text-red-300">
+            {run.error}
+          </p>
+        ) : null}
+      </div>
+
+      {run.results.length > 0 ? (
+        <ul className="flex flex-col gap-0.5">
+          {run.results.map((result) => (
+            <li key={result.at} className="opacity-80">
+              {new Date(result.at).toLocaleTimeString()}{" "}
+              {result.reapplied
+                ? "Re-applied"
+                : result.preview
+                  ? "Previewed"
+                  : "Applied"}
+              {result.userName ? ` by ${result.userName}` : ""}:{" "}
+              {result.error ?? result.summary}
+              {result.problems?.map((problem) => (
+                <p
+                  key={problem}
+                  className="pl-3 text-amber-700 dark:text-amber-300"
+                >
+                  {problem}
+                </p>
+              ))}
+            </li>
+          ))}
+        </ul>
+      ) : null}
+
+      {run.plan ? (
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={reapply}
+            className={buttonClassName}
+            title="Apply this run's plan to the board again, as its own undo step"
+          >
+            Re-apply plan
+          </button>
+          {reapplied ? <span className="opacity-70">{reapplied}</span> : null}
+        </div>
+      ) : null}
+
+      {run.plan ? (
+        <Section title={`Plan (${run.plan.actions.length} actions)`} open>
+          <Pre>{JSON.stringify(run.plan, null, 2)}</Pre>
+        </Section>
+      ) : null}
+
+      {run.attempts.map((attempt, i) => (
+        <Section
+          // biome-ignore lint/suspicious/noArrayIndexKey: attempts are append-only
+          key={i}
+          title={`Attempt ${i + 1} · ${formatDuration(attempt.durationMs)}${
+            attempt.issues.length > 0
+              ? ` · ${attempt.issues.length} issue${attempt.issues.length === 1 ? "" : "s"}`
+              : ""
+          }`}
+        >
+          <div className="flex flex-col gap-2">
+            {attempt.issues.length > 0 ? (
+              <ul className="list-disc pl-4 text-amber-800 dark:text-amber-200">
+                {attempt.issues.map((issue) => (
+                  <li key={`${issue.path}:${issue.message}`}>
+                    {issue.path ? `${issue.path}: ` : ""}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+            <p className="font-semibold">Prompt</p>
+            <Pre>{attempt.prompt}</Pre>
+            <p className="font-semibold">Output</p>
+            <Pre>{attempt.output}</Pre>
+          </div>
+        </Section>
+      ))}
+
+      {others.length > 0 ? (
+        <Section title="Compare with another run">
+          <div className="flex flex-col gap-2">
+            <select
+              value={compareId}
+              onChange={(e) => setCompareId(e.target.value)}
+              className="rounded border border-black/10 bg-white px-1 py-0.5 dark:border-white/10 dark:bg-zinc-800"
+            >
+              <option value="">Pick a run…</option>
+              {others.map((other) => (
+                <option key={other.id} value={other.id}>
+                  {new Date(other.createdAt).toLocaleTimeString()} ·{" "}
+                  {other.message.slice(0, 60)}
+                </option>
+              ))}
+            </select>
+            {compared ? (
+              <RunDiff
+                before={getComparableText(compared)}
+                after={getComparableText(run)}
+              />
+            ) : null}
+          </div>
+        </Section>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * Browses the server's agent run log for this board: what each run was sent,
+ * what the model answered, the validated plan and how it was applied. Runs
+ * can be compared and their plan applied again.
+ */
+export function AgentRunInspector() {
+  const inspector = useValue("agent inspector", getAgentInspector, []);
+  const boardId = useBoard()?.board.id;
+  const [runs, setRuns] = useState<AgentRunSummary[]>([]);
+  const [run, setRun] = useState<AgentRunEntry | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isOpen = inspector !== null;
+  const runId = inspector?.runId;
+
+  const refresh = useCallback(() => {
+    const query = new URLSearchParams({ limit: "100" });
+    if (boardId) query.set("boardId", boardId);
+    fetchJson<{ runs: AgentRunSummary[] }>(`/api/agent/runs?${query}`)
+      .then(({ runs }) => {
+        setRuns(runs);
+        setError(null);
+      })
+      .catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  }, [boardId]);
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, refresh]);
+
+  useEffect(() => {
+    setRun(null);
+    if (!runId) return;
+    let cancelled = false;
+    fetchJson<AgentRunEntry>(`/api/agent/runs/${encodeURIComponent(runId)}`)
+      .then((entry) => {
+        if (!cancelled) setRun(entry);
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e.message : String(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [runId]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      onPointerDown={stopEvent}
+      onWheel={stopEvent}
+      className="[pointer-events:all] absolute top-12 right-2 bottom-16 z-[300] flex w-[28rem] flex-col rounded-lg border border-black/10 bg-white/95 text-xs text-zinc-800 shadow-lg dark:border-white/10 dark:bg-zinc-900/95 dark:text-zinc-200"
+    >
+      <div className="flex items-center gap-2 border-b border-black/10 px-3 py-2 dark:border-white/10">
+        {runId ? (
+          <button
+            type="button"
+            onClick={() => openAgentInspector()}
+            className="text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100"
+          >
+            ← Runs
+          </button>
+        ) : (
+          <span className="font-semibold">Agent runs</span>
+        )}
+        <div className="flex-1" />
+        {runId ? null : (
+          <button type="button" onClick={refresh} className={buttonClassName}>
+            Refresh
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={closeAgentInspector}
+          className={buttonClassName}
+          aria-label="Close run inspector"
+        >
+          ✕
+        </button>
+      </div>
+      <div className="flex min-h-0 flex-1 flex-col gap-2 overflow-auto p-3">
+        {error ? (
+          <p className="text-red-700 dark:text-red-300">{error}</p>
+        ) : null}
+        {runId ? (
+          run ? (
+            <RunDetail
+              run={run}
+              others={runs.filter((other) => other.id !== run.id)}
+            />
+          ) : error ? null : (
+            <p className="opacity-70">Loading…</p>
+          )
+        ) : runs.length === 0 ? (
+          <p className="opacity-70">No agent runs on this board yet.</p>
+        ) : (
+          <ul className="flex flex-col gap-1">
+            {runs.map((summary) => (
+              <li key={summary.id}>
+                <button
+                  type="button"
+                  onClick={() => openAgentInspector(summary.id)}
+                  className="flex w-full flex-col gap-0.5 rounded border border-black/10 px-2 py-1 text-left hover:bg-zinc-100 dark:border-white/10 dark:hover:bg-zinc-800"
+                >
+                  <span className="truncate font-semibold">
+                    {summary.message}
+                  </span>
+                  <span className="opacity-70">
+                    <span className={STATUS_CLASSES[summary.status]}>
+                      {summary.status}
+                    </span>{" "}
+                    · {new Date(summary.createdAt).toLocaleString()} ·{" "}
+                    {summary.actionCount} action
+                    {summary.actionCount === 1 ? "" : "s"}
+                    {summary.attemptCount > 1
+                      ? ` · ${summary.attemptCount} attempts`
+                      : ""}
+                    {summary.user ? ` · ${summary.user.name}` : ""}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { openAgentInspector } from "../_tldraw/agent/agentInspector";
+import { type BoardStatus, useBoard } from "../_tldraw/boards/useBoardStore";
+import { cn } from "../_utils/cn";
+
+const STATUS_LABELS: Record<BoardStatus, string> = {
+  saved: "Saved",
+  unsaved: "Unsaved changes",
+  saving: "Saving…",
+  error: "Save failed, retrying",
+  live: "Live",
+  offline: "Reconnecting…",
+};
+
+/** Board name (click to rename), save or sync status, the agent run log and a way back to the picker. */
+export function BoardMenu() {
+  const boardState = useBoard();
+  const [draft, setDraft] = useState<string | null>(null);
+  const [renameError, setRenameError] = useState<string | null>(null);
+  const name = boardState?.board.name ?? "";
+
+  useEffect(() => {
+    if (!renameError) return;
+    const timeout = setTimeout(() => setRenameError(null), 3000);
+    return () => clearTimeout(timeout);
+  }, [renameError]);
+
+  if (!boardState) return null;
+  const { status, rename } = boardState;
+
+  const commit = async () => {
+    const next = draft?.trim();
+    setDraft(null);
+    if (!next || next === name) return;
+    try {
+      await rename(next);
+    } catch (e) {
+      setRenameError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <div className="[pointer-events:all] m-2 flex items-center gap-2 rounded-lg border border-black/10 bg-white/90 px-2 py-1 text-xs text-zinc-700 shadow-sm dark:border-white/10 dark:bg-zinc-900/85 dark:text-zinc-200">
+      <Link
+        href="/"
+        className="text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100"
+        title="All boards"
+      >
+        ← Boards
+      </Link>
+      {draft === null ? (
+        <button
+          type="button"
+          className="max-w-56 truncate font-semibold hover:underline"
+          title="Rename board"
+          onClick={() => setDraft(name)}
+        >
+          {name}
+        </button>
+      ) : (
+        <input
+          // biome-ignore lint/a11y/noAutofocus: only shown after clicking the name
+          autoFocus
+          className="w-48 rounded border border-black/10 bg-white px-1 py-0.5 font-semibold dark:border-white/10 dark:bg-zinc-800"
+          value={draft}
+          maxLength={100}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            e.stopPropagation();
+            if (e.key === "Enter") e.currentTarget.blur();
+            if (e.key === "Escape") setDraft(null);
+          }}
+        />
+      )}
+      <span
+        className={cn(
+          "tabular-nums",
+          status === "error" || status === "offline" || renameError
+            ? "text-red-600 dark:text-red-400"
+            : "text-zinc-500 dark:text-zinc-400",
+        )}
+        title={renameError ?? undefined}
+      >
+        {renameError ? "Rename failed" : STATUS_LABELS[status]}
+      </span>
+      <button
+        type="button"
+        className="text-zinc-500 hover:text-zinc-900 dark:text-zinc-400 dark:hover:text-zinc-100"
+        title="Agent runs on this board"
+        onClick={() => openAgentInspector()}
+      >
+        Runs
+      </button>
+    </div>
+  );
+}
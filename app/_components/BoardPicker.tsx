@@ -0,0 +1,108 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+import type { BoardSummary } from "../_documents/types";
+
+const dateFormat = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+async function readError(res: Response): Promise<string> {
+  const body = (await res.json().catch(() => null)) as {
+    error?: string;
+  } | null;
+  return body?.error ?? `Request failed: ${res.status}`;
+}
+
+/** Lists saved boards and creates or deletes them via `/api/documents`. */
+export function BoardPicker({ boards }: { boards: BoardSummary[] }) {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const createBoard = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/documents", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(name.trim() ? { name: name.trim() } : {}),
+      });
+      if (!res.ok) throw new Error(await readError(res));
+      const board = (await res.json()) as BoardSummary;
+      router.push(`/boards/${board.id}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+      setIsBusy(false);
+    }
+  };
+
+  const deleteBoard = async (board: BoardSummary) => {
+    if (!confirm(`Delete “${board.name}”? This can't be undone.`)) return;
+    setError(null);
+    const res = await fetch(`/api/documents/${board.id}`, {
+      method: "DELETE",
+    });
+    if (!res.ok && res.status !== 404) setError(await readError(res));
+    router.refresh();
+  };
+
+  return (
+    <div className="mx-auto flex w-full max-w-2xl flex-col gap-6 px-6 py-16 text-zinc-900 dark:text-zinc-100">
+      <h1 className="text-2xl font-bold">Boards</h1>
+      <form onSubmit={createBoard} className="flex gap-2">
+        <input
+          className="flex-1 rounded-md border border-black/10 bg-white px-3 py-2 text-sm dark:border-white/10 dark:bg-zinc-900"
+          placeholder="Untitled board"
+          value={name}
+          maxLength={100}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <button
+          type="submit"
+          disabled={isBusy}
+          className="rounded-md bg-zinc-900 px-4 py-2 text-sm font-semibold text-white hover:bg-zinc-700 disabled:opacity-50 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-300"
+        >
+          New board
+        </button>
+      </form>
+      {error && (
+        <div className="text-sm text-red-600 dark:text-red-400">{error}</div>
+      )}
+      {boards.length === 0 ? (
+        <div className="text-sm text-zinc-500 dark:text-zinc-400">
+          No boards yet.
+        </div>
+      ) : (
+        <ul className="flex flex-col divide-y divide-black/10 rounded-lg border border-black/10 bg-white dark:divide-white/10 dark:border-white/10 dark:bg-zinc-900">
+          {boards.map((board) => (
+            <li key={board.id} className="flex items-center gap-3 px-4 py-3">
+              <Link
+                href={`/boards/${board.id}`}
+                className="min-w-0 flex-1 hover:underline"
+              >
+                <div className="truncate font-semibold">{board.name}</div>
+                <div className="text-xs text-zinc-500 tabular-nums dark:text-zinc-400">
+                  Updated {dateFormat.format(board.updatedAt)}
+                </div>
+              </Link>
+              <button
+                type="button"
+                onClick={() => deleteBoard(board)}
+                className="text-xs text-zinc-500 hover:text-red-600 dark:text-zinc-400 dark:hover:text-red-400"
+              >
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,23 +1,63 @@
 "use client";
 
-import { Tldraw } from "tldraw";
+import { type TLStoreWithStatus, Tldraw } from "tldraw";
 import "tldraw/tldraw.css";
+import type { BoardSummary } from "../_documents/types";
 import { AgentPromptShapeUtil } from "../_tldraw/agent/AgentPromptShapeUtil";
 import { AgentPromptTool } from "../_tldraw/agent/AgentPromptTool";
+import { registerDiagramPaste } from "../_tldraw/agent/agentDiagram";
+import {
+  BoardContext,
+  type BoardState,
+  useBoardStore,
+  useSyncedBoardStore,
+} from "../_tldraw/boards/useBoardStore";
 import { tldrawComponents, tldrawOverrides } from "./tldrawUi";
 
 const tools = [AgentPromptTool] as const;
 const shapeUtils = [AgentPromptShapeUtil] as const;
 
-export function Tldr() {
+/** When set, boards are edited together through the sync server (`bun run sync`). */
+const SYNC_URL = process.env.NEXT_PUBLIC_SYNC_URL;
+
+function BoardEditor({
+  store,
+  ...boardState
+}: { store: TLStoreWithStatus } & BoardState) {
   return (
     <div className="fixed inset-0 [&_.tl-watermark\_SEE-LICENSE]:hidden!">
-      <Tldraw
-        tools={tools}
-        shapeUtils={shapeUtils}
-        overrides={tldrawOverrides}
-        components={tldrawComponents}
-      />
+      <BoardContext value={boardState}>
+        <Tldraw
+          store={store}
+          tools={tools}
+          shapeUtils={shapeUtils}
+          overrides={tldrawOverrides}
+          components={tldrawComponents}
+          onMount={registerDiagramPaste}
+        />
+      </BoardContext>
     </div>
   );
 }
+
+function LocalBoard({ board }: { board: BoardSummary }) {
+  return <BoardEditor {...useBoardStore(board, shapeUtils)} />;
+}
+
+function SyncedBoard({
+  board,
+  syncUrl,
+}: {
+  board: BoardSummary;
+  syncUrl: string;
+}) {
+  return <BoardEditor {...useSyncedBoardStore(board, shapeUtils, syncUrl)} />;
+}
+
+export function Tldr({ board }: { board: BoardSummary }) {
+  return SYNC_URL ? (
+    <SyncedBoard board={board} syncUrl={SYNC_URL} />
+  ) : (
+    <LocalBoard board={board} />
+  );
+}
@@ -1,13 +1,27 @@
 "use client";
 
 import {
+  DefaultContextMenu,
+  DefaultContextMenuContent,
+  DefaultSharePanel,
   DefaultToolbar,
   DefaultToolbarContent,
   type TLComponents,
+  type TLUiContextMenuProps,
   type TLUiIconJsx,
   type TLUiOverrides,
+  TldrawUiMenuActionItem,
+  TldrawUiMenuGroup,
   ToolbarItem,
+  useEditor,
+  useValue,
 } from "tldraw";
+import { AgentPreviewOverlay } from "../_tldraw/agent/AgentPreviewOverlay";
+import { exportMermaid } from "../_tldraw/agent/agentDiagram";
+import { autoLayoutShapes } from "../_tldraw/agent/agentLayout";
+import { setAgentProtected } from "../_tldraw/agent/agentPolicy";
+import { AgentRunInspector } from "./AgentRunInspector";
+import { BoardMenu } from "./BoardMenu";
 
 const agentToolIcon: TLUiIconJsx = (
   <svg viewBox="0 0 24 24" fill="none" strokeLinecap="round">
@@ -39,8 +53,47 @@ function CustomToolbar() {
   );
 }
 
+function CustomContextMenu(props: TLUiContextMenuProps) {
+  const editor = useEditor();
+  const selectedCount = useValue(
+    "selected count",
+    () => editor.getSelectedShapeIds().length,
+    [editor],
+  );
+  const allProtected = useValue(
+    "selection protected",
+    () =>
+      editor
+        .getSelectedShapes()
+        .every((shape) => shape.meta.agentProtected === true),
+    [editor],
+  );
+  return (
+    <DefaultContextMenu {...props}>
+      {selectedCount > 0 && (
+        <TldrawUiMenuGroup id="agent-diagram">
+          {selectedCount > 1 && (
+            <TldrawUiMenuActionItem actionId="agent-auto-layout" />
+          )}
+          <TldrawUiMenuActionItem actionId="agent-copy-mermaid" />
+          <TldrawUiMenuActionItem
+            actionId={allProtected ? "agent-unprotect" : "agent-protect"}
+          />
+        </TldrawUiMenuGroup>
+      )}
+      <DefaultContextMenuContent />
+    </DefaultContextMenu>
+  );
+}
+
 export const tldrawComponents: TLComponents = {
   Toolbar: CustomToolbar,
+  ContextMenu: CustomContextMenu,
+  Overlays: AgentPreviewOverlay,
+  TopPanel: BoardMenu,
+  InFrontOfTheCanvas: AgentRunInspector,
+  // Collaborators, and where to set the name agent runs are attributed to.
+  SharePanel: DefaultSharePanel,
 };
 
 export const tldrawOverrides: TLUiOverrides = {
@@ -58,4 +111,48 @@ export const tldrawOverrides: TLUiOverrides = {
       },
     };
   },
+  actions: (editor, actions, { addToast }) => {
+    return {
+      ...actions,
+      "agent-copy-mermaid": {
+        id: "agent-copy-mermaid",
+        label: "Copy as Mermaid",
+        async onSelect(_source) {
+          const text = exportMermaid(editor, editor.getSelectedShapeIds());
+          if (!text) {
+            addToast({
+              title: "Nothing to export",
+              description: "Select boxes and the arrows between them.",
+              severity: "warning",
+            });
+            return;
+          }
+          await navigator.clipboard.writeText(text);
+          addToast({ title: "Copied as Mermaid", severity: "success" });
+        },
+      },
+      "agent-auto-layout": {
+        id: "agent-auto-layout",
+        label: "Auto layout",
+        kbd: "alt+shift+l",
+        onSelect(_source) {
+          autoLayoutShapes(editor, editor.getSelectedShapeIds());
+        },
+      },
+      "agent-protect": {
+        id: "agent-protect",
+        label: "Protect from agent",
+        onSelect(_source) {
+          setAgentProtected(editor, editor.getSelectedShapeIds(), true);
+        },
+      },
+      "agent-unprotect": {
+        id: "agent-unprotect",
+        label: "Allow agent edits",
+        onSelect(_source) {
+          setAgentProtected(editor, editor.getSelectedShapeIds(), false);
+        },
+      },
+    };
+  },
 };
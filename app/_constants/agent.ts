@@ -3,3 +3,130 @@
  * Keeps context size manageable for the LLM.
  */
 export const MAX_SHAPES_FOR_AGENT = 300;
+
+/**
+ * Model backends `/api/agent` can run a prompt through.
+ * Pick one with `AGENT_BACKEND` or per request via `body.backend`.
+ */
+export const AGENT_BACKEND_IDS = [
+  "cursor-agent",
+  "openai",
+  "scripted",
+] as const;
+
+export type AgentBackendId = (typeof AGENT_BACKEND_IDS)[number];
+
+export const DEFAULT_AGENT_BACKEND: AgentBackendId = "cursor-agent";
+
+/**
+ * How many times `/api/agent` sends validation errors back to the model for
+ * a corrected plan before giving up with a 502.
+ */
+export const MAX_PLAN_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Maximum number of earlier conversation turns from a prompt shape's thread
+ * to include in the prompt (most recent first to be kept).
+ */
+export const MAX_AGENT_HISTORY_TURNS = 20;
+
+/** Run records kept on each agent-prompt shape for "revert this run". */
+export const MAX_AGENT_RUNS_PER_SHAPE = 20;
+
+/**
+ * Approximate token budget for CANVAS_STATE. The context selector adds shapes
+ * in order of relevance until the next one would exceed it.
+ */
+export const AGENT_CONTEXT_TOKEN_BUDGET = 8_000;
+
+/**
+ * Which shapes a prompt shape shows the agent. `auto` ranks the whole page
+ * (selection, then connections, viewport and proximity) and fills the token
+ * budget; the other modes only include their own shapes plus shapes connected
+ * to them through arrow bindings.
+ */
+export const AGENT_CONTEXT_MODES = [
+  "auto",
+  "selection",
+  "viewport",
+  "nearby",
+] as const;
+
+export type AgentContextMode = (typeof AGENT_CONTEXT_MODES)[number];
+
+/** Shapes within this many page units of the prompt shape count as "nearby". */
+export const AGENT_CONTEXT_NEARBY_DISTANCE = 800;
+
+/** Largest canvas image (decoded bytes) `/api/agent` accepts. */
+export const MAX_AGENT_IMAGE_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Longest side, in pixels, of the canvas image the prompt shape exports.
+ * Vision models downscale larger images anyway.
+ */
+export const AGENT_IMAGE_MAX_SIDE = 1568;
+
+/**
+ * A prompt shape's run lock is treated as abandoned after this long, e.g.
+ * when the collaborator who started the run closed their tab mid-run.
+ */
+export const AGENT_RUN_LOCK_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * How long one agent run may take once it has left the queue, repairs
+ * included. Override with `AGENT_RUN_TIMEOUT_MS`.
+ */
+export const DEFAULT_AGENT_RUN_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Agent runs (model subprocesses or requests) the server works on at once;
+ * the rest wait in a queue. Override with `AGENT_MAX_CONCURRENT_RUNS`.
+ */
+export const DEFAULT_MAX_CONCURRENT_AGENT_RUNS = 2;
+
+/** Runs allowed to wait in the queue before new ones are turned away. */
+export const MAX_QUEUED_AGENT_RUNS = 20;
+
+/** Longest `extraInstructions` (e.g. a preset's) `/api/agent` accepts. */
+export const MAX_AGENT_EXTRA_INSTRUCTIONS_LENGTH = 4_000;
+
+/**
+ * Where every agent run is logged (one JSON object per line) when
+ * `AGENT_RUN_LOG` isn't set, relative to the working directory.
+ */
+export const DEFAULT_AGENT_RUN_LOG = ".data/agent-runs.ndjson";
+
+/** Most runs `/api/agent/runs` lists at once. */
+export const MAX_AGENT_RUN_LOG_LIST = 200;
+
+/**
+ * Runs the run log file holds before it's rotated to `<file>.<n>`. The newest
+ * this many are also kept in memory for `/api/agent/runs`.
+ */
+export const MAX_AGENT_RUN_LOG_RUNS = 1_000;
+
+/**
+ * Most shapes one agent run may delete, frame contents included, unless the
+ * board sets its own limit.
+ */
+export const DEFAULT_AGENT_MAX_DELETIONS = 20;
+
+/**
+ * Runs that delete more shapes than this ask before deleting them, unless
+ * the board sets its own threshold.
+ */
+export const DEFAULT_AGENT_CONFIRM_DELETIONS = 5;
+
+/**
+ * What happens to the shapes an agent run creates. `free-space` moves them,
+ * as one unit, to the nearest spot where they don't cover other shapes (or
+ * the prompt shape); `frame` does the same and wraps them in a frame named
+ * after the prompt; `as-planned` leaves them where the model put them.
+ */
+export const AGENT_PLACEMENT_MODES = [
+  "free-space",
+  "frame",
+  "as-planned",
+] as const;
+
+export type AgentPlacementMode = (typeof AGENT_PLACEMENT_MODES)[number];
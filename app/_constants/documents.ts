@@ -0,0 +1,19 @@
+/**
+ * Where `/api/documents` keeps boards when `DOCUMENTS_DIR` isn't set,
+ * relative to the working directory.
+ */
+export const DEFAULT_DOCUMENTS_DIR = ".data/documents";
+
+/** Largest board snapshot (serialized JSON) the server accepts. */
+export const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024;
+
+export const MAX_BOARD_NAME_LENGTH = 100;
+
+/** How long the editor waits after the last change before saving. */
+export const DOCUMENT_AUTOSAVE_DELAY_MS = 1000;
+
+/**
+ * How long the headless executor may take to inspect a board or apply a
+ * plan before `/api/boards/:id/agent` gives up on it.
+ */
+export const HEADLESS_EXECUTOR_TIMEOUT_MS = 30_000;
@@ -0,0 +1,2 @@
+/** Port the board sync server (`bun run sync`) listens on unless `SYNC_PORT` is set. */
+export const DEFAULT_SYNC_PORT = 5858;
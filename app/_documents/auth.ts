@@ -0,0 +1,25 @@
+import { createHash, timingSafeEqual } from "node:crypto";
+
+export type BoardsApiAuth = "ok" | "disabled" | "unauthorized";
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Checks `Authorization: Bearer <BOARDS_API_TOKEN>` for the board APIs meant
+ * for scripts and bots. They stay disabled while the variable is unset.
+ */
+export function authorizeBoardsApi(req: Request): BoardsApiAuth {
+  const token = process.env.BOARDS_API_TOKEN;
+  if (!token) return "disabled";
+  const header = req.headers.get("Authorization") ?? "";
+  const given = header.match(/^Bearer\s+(.+)$/i)?.[1] ?? "";
+  return timingSafeEqual(digest(given), digest(token)) ? "ok" : "unauthorized";
+}
+
+/** Headers that authorize a server-to-server call to the board APIs. */
+export function getBoardsApiHeaders(): Record<string, string> {
+  const token = process.env.BOARDS_API_TOKEN;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
@@ -0,0 +1,209 @@
+import { randomBytes } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import { join, resolve } from "node:path";
+import type { TLStoreSnapshot } from "tldraw";
+import { isObject } from "@/app/_agent/plan";
+import {
+  DEFAULT_DOCUMENTS_DIR,
+  MAX_BOARD_NAME_LENGTH,
+  MAX_DOCUMENT_BYTES,
+} from "@/app/_constants/documents";
+import type { BoardDocument, BoardSummary } from "./types";
+
+/** Thrown for requests the store can't satisfy, with the HTTP status to answer. */
+export class DocumentStoreError extends Error {
+  readonly status: 400 | 404 | 413;
+
+  constructor(message: string, status: 400 | 404 | 413 = 400) {
+    super(message);
+    this.name = "DocumentStoreError";
+    this.status = status;
+  }
+}
+
+export type DocumentStore = {
+  /** Every board, most recently updated first. */
+  list(): Promise<BoardSummary[]>;
+  getSummary(id: string): Promise<BoardSummary | undefined>;
+  get(id: string): Promise<BoardDocument | undefined>;
+  create(opts: {
+    name?: string;
+    snapshot?: TLStoreSnapshot;
+  }): Promise<BoardSummary>;
+  /** Replaces the snapshot and/or renames the board. */
+  save(
+    id: string,
+    patch: { name?: string; snapshot?: TLStoreSnapshot },
+  ): Promise<BoardSummary>;
+  delete(id: string): Promise<boolean>;
+};
+
+const BOARD_ID = /^[a-z0-9][a-z0-9-]{0,63}$/;
+
+export function isBoardId(value: unknown): value is string {
+  return typeof value === "string" && BOARD_ID.test(value);
+}
+
+export function isStoreSnapshot(value: unknown): value is TLStoreSnapshot {
+  return isObject(value) && isObject(value.store) && isObject(value.schema);
+}
+
+/** Trims a board name and checks its length; `undefined` stays `undefined`. */
+export function parseBoardName(value: unknown): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string" || !value.trim()) {
+    throw new DocumentStoreError("name must be a non-empty string");
+  }
+  const name = value.trim();
+  if (name.length > MAX_BOARD_NAME_LENGTH) {
+    throw new DocumentStoreError(
+      `name must be at most ${MAX_BOARD_NAME_LENGTH} characters`,
+    );
+  }
+  return name;
+}
+
+function createBoardId(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 40);
+  const suffix = randomBytes(4).toString("hex");
+  return slug ? `${slug}-${suffix}` : suffix;
+}
+
+/**
+ * Boards as two JSON files each in `dir`: `<id>.meta.json` (the summary, so
+ * listing stays cheap) and `<id>.snapshot.json`. Writes go through a temp
+ * file and a rename so a crash never leaves half a board, and are queued per
+ * board so concurrent saves land in order.
+ */
+export function createFileDocumentStore(dir: string): DocumentStore {
+  const queues = new Map<string, Promise<unknown>>();
+  const metaPath = (id: string) => join(dir, `${id}.meta.json`);
+  const snapshotPath = (id: string) => join(dir, `${id}.snapshot.json`);
+
+  const enqueue = <T>(id: string, task: () => Promise<T>): Promise<T> => {
+    const previous = queues.get(id) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(task);
+    queues.set(id, next);
+    const cleanup = () => {
+      if (queues.get(id) === next) queues.delete(id);
+    };
+    next.then(cleanup, cleanup);
+    return next;
+  };
+
+  const writeJson = async (path: string, value: unknown) => {
+    const json = JSON.stringify(value);
+    if (json.length > MAX_DOCUMENT_BYTES) {
+      throw new DocumentStoreError("document too large", 413);
+    }
+    await mkdir(dir, { recursive: true });
+    const tmp = `${path}.${randomBytes(4).toString("hex")}.tmp`;
+    await writeFile(tmp, json);
+    await rename(tmp, path);
+  };
+
+  const readJson = async <T>(path: string): Promise<T | undefined> => {
+    try {
+      return JSON.parse(await readFile(path, "utf8")) as T;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw e;
+    }
+  };
+
+  const getSummary = (id: string) =>
+    isBoardId(id)
+      ? readJson<BoardSummary>(metaPath(id))
+      : Promise.resolve(undefined);
+
+  return {
+    async list() {
+      let files: string[];
+      try {
+        files = await readdir(dir);
+      } catch (e) {
+        if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+        throw e;
+      }
+      const summaries = await Promise.all(
+        files
+          .filter((file) => file.endsWith(".meta.json"))
+          .map((file) => readJson<BoardSummary>(join(dir, file))),
+      );
+      return summaries
+        .filter((s): s is BoardSummary => !!s)
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+    },
+
+    getSummary,
+
+    async get(id) {
+      const summary = await getSummary(id);
+      if (!summary) return undefined;
+      const snapshot = await readJson<TLStoreSnapshot>(snapshotPath(id));
+      return { ...summary, snapshot };
+    },
+
+    async create({ name = "Untitled board", snapshot }) {
+      const now = Date.now();
+      const summary: BoardSummary = {
+        id: createBoardId(name),
+        name,
+        createdAt: now,
+        updatedAt: now,
+      };
+      return enqueue(summary.id, async () => {
+        if (snapshot) await writeJson(snapshotPath(summary.id), snapshot);
+        await writeJson(metaPath(summary.id), summary);
+        return summary;
+      });
+    },
+
+    save(id, patch) {
+      return enqueue(id, async () => {
+        const summary = await getSummary(id);
+        if (!summary) throw new DocumentStoreError("board not found", 404);
+        if (patch.snapshot) {
+          await writeJson(snapshotPath(id), patch.snapshot);
+        }
+        const updated: BoardSummary = {
+          ...summary,
+          name: patch.name ?? summary.name,
+          updatedAt: Date.now(),
+        };
+        await writeJson(metaPath(id), updated);
+        return updated;
+      });
+    },
+
+    delete(id) {
+      return enqueue(id, async () => {
+        if (!(await getSummary(id))) return false;
+        await rm(metaPath(id), { force: true });
+        await rm(snapshotPath(id), { force: true });
+        return true;
+      });
+    },
+  };
+}
+
+let documentStore: DocumentStore | undefined;
+
+/** The store for `DOCUMENTS_DIR` (default `.data/documents`). */
+export function getDocumentStore(): DocumentStore {
+  documentStore ??= createFileDocumentStore(
+    resolve(process.env.DOCUMENTS_DIR ?? DEFAULT_DOCUMENTS_DIR),
+  );
+  return documentStore;
+}
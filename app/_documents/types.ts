@@ -0,0 +1,21 @@
+import type { TLRecord, TLStoreSnapshot } from "tldraw";
+
+/** What the board picker shows; everything but the snapshot. */
+export type BoardSummary = {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/** A saved board: the document part of a tldraw snapshot (no session state). */
+export type BoardDocument = BoardSummary & {
+  /** Absent until the board is first saved. */
+  snapshot?: TLStoreSnapshot;
+};
+
+/** Record-level edits to a board, e.g. what a headless agent run changed. */
+export type BoardChanges = {
+  put: TLRecord[];
+  removed: TLRecord["id"][];
+};
@@ -0,0 +1,78 @@
+import {
+  type Editor,
+  isEqual,
+  isShape,
+  type RecordsDiff,
+  type TLRecord,
+  type TLShape,
+} from "tldraw";
+
+const MAX_VALUE_LENGTH = 40;
+
+function formatValue(value: unknown): string {
+  const text =
+    typeof value === "number"
+      ? String(Math.round(value * 100) / 100)
+      : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH
+    ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…`
+    : text;
+}
+
+function describe(editor: Editor, shape: TLShape): string {
+  const text = editor.getShapeUtil(shape).getText(shape)?.trim();
+  return text ? `${shape.type} ${JSON.stringify(text)}` : shape.type;
+}
+
+/** `x: 0 → 120, props.w: 100 → 200`, skipping rich text (see the label). */
+function describeUpdate(from: TLShape, to: TLShape): string {
+  const changes: string[] = [];
+  const compare = (prefix: string, a: object, b: object) => {
+    const before = a as Record<string, unknown>;
+    const after = b as Record<string, unknown>;
+    for (const key of new Set([
+      ...Object.keys(before),
+      ...Object.keys(after),
+    ])) {
+      if (key === "props" || key === "richText") continue;
+      if (isEqual(before[key], after[key])) continue;
+      changes.push(
+        `${prefix}${key}: ${formatValue(before[key])} → ${formatValue(after[key])}`,
+      );
+    }
+  };
+  compare("", from, to);
+  compare("props.", from.props, to.props);
+  if (!isEqual(from.props, to.props) && changes.length === 0) {
+    changes.push("text");
+  }
+  return changes.join(", ");
+}
+
+/**
+ * One line per shape a plan created (`+`), updated (`~`) or deleted (`-`),
+ * for reviewing an offline run. Bindings and other records are left out;
+ * arrows show up through their own shapes.
+ */
+export function formatShapeDiff(
+  editor: Editor,
+  diff: RecordsDiff<TLRecord>,
+): string[] {
+  const lines: string[] = [];
+  for (const record of Object.values(diff.added)) {
+    if (!isShape(record)) continue;
+    lines.push(
+      `+ ${record.id} ${describe(editor, record)} at (${Math.round(record.x)}, ${Math.round(record.y)})`,
+    );
+  }
+  for (const [from, to] of Object.values(diff.updated)) {
+    if (!isShape(from) || !isShape(to)) continue;
+    const update = describeUpdate(from, to);
+    if (update) lines.push(`~ ${to.id} ${describe(editor, to)}: ${update}`);
+  }
+  for (const record of Object.values(diff.removed)) {
+    if (!isShape(record)) continue;
+    lines.push(`- ${record.id} ${describe(editor, record)}`);
+  }
+  return lines;
+}
@@ -0,0 +1,17 @@
+import { GlobalRegistrator } from "@happy-dom/global-registrator";
+
+// tldraw's Editor expects a DOM (a container element, text measurement).
+// This gives the executor process a simulated one. Never import it into the
+// Next.js server: a global `window` there makes React think it's a browser.
+GlobalRegistrator.register();
+
+// happy-dom has no layout engine; text ranges measure as one empty rect
+// (tldraw reads the last rect of every character range, e.g. frame headings).
+const emptyRect = () => new DOMRect(0, 0, 0, 0);
+Range.prototype.getClientRects = () => {
+  const rects = [emptyRect()];
+  return Object.assign(rects, {
+    item: (i: number) => rects[i] ?? null,
+  }) as unknown as DOMRectList;
+};
+Range.prototype.getBoundingClientRect = emptyRect;
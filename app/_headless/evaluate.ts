@@ -0,0 +1,125 @@
+import type { Editor, TLStoreSnapshot } from "tldraw";
+import { resolveActionAliases } from "@/app/_agent/aliases";
+import { checkPlan, extractJsonObject } from "@/app/_agent/plan";
+import { buildPrompt } from "@/app/_agent/prompt";
+import {
+  createPlanValidationContext,
+  type PlanIssue,
+} from "@/app/_agent/schema";
+import type {
+  AgentContextMode,
+  AgentPlacementMode,
+} from "@/app/_constants/agent";
+import type { AgentApplyReport } from "@/app/_tldraw/agent/agentActions";
+import {
+  applyBoardActions,
+  createHeadlessEditor,
+  inspectBoard,
+} from "./executor";
+import { type CanvasMetrics, scoreCanvas } from "./metrics";
+
+/** A recorded agent run: the board and message it got, and what it answered. */
+export type EvalFixture = {
+  message: string;
+  /** A `.tldr` file, relative to the fixture; an empty board when omitted. */
+  board?: string;
+  contextMode?: AgentContextMode;
+  /** What happens to the new shapes, as on the board API (default `free-space`). */
+  placement?: AgentPlacementMode;
+  /** The model's raw output for the prompt built from `board` and `message`. */
+  output: string;
+  /** Highest acceptable value per metric; 0 for those not listed. */
+  limits?: Partial<Omit<EvalMetrics, "shapes">>;
+  /** Which backend produced `output`, and when. */
+  recorded?: { backend: string; at: string };
+};
+
+export type EvalMetrics = CanvasMetrics & {
+  /** Validation problems in the output; invalid actions are skipped. */
+  planIssues: number;
+  /** Ids the plan refers to that name no shape. */
+  unresolvedIds: number;
+  /** Valid actions tldraw or the board's agent policy refused to apply. */
+  rejectedActions: number;
+};
+
+export type EvalResult = {
+  metrics: EvalMetrics;
+  issues: PlanIssue[];
+  report: AgentApplyReport;
+  /** `metric: value > limit` for every metric over its limit. */
+  failures: string[];
+};
+
+/** What the agent would be sent for `fixture`, as `/api/boards/:id/agent` builds it. */
+export function buildEvalPrompt(editor: Editor, fixture: EvalFixture) {
+  const canvas = inspectBoard(editor, fixture.contextMode ?? "auto");
+  return {
+    canvas,
+    prompt: buildPrompt({
+      message: fixture.message,
+      shapes: canvas.shapes,
+      omitted: canvas.omitted,
+      policy: canvas.policy,
+    }),
+  };
+}
+
+/**
+ * Replays a fixture's recorded output against its board, as the server
+ * would: parse, validate, resolve aliases, apply, place. Then scores the
+ * result.
+ */
+export function evaluateFixture(
+  fixture: EvalFixture,
+  snapshot?: TLStoreSnapshot,
+): EvalResult {
+  const editor = createHeadlessEditor(snapshot);
+  try {
+    const { canvas } = buildEvalPrompt(editor, fixture);
+
+    let parsed: unknown;
+    try {
+      parsed = extractJsonObject(fixture.output);
+    } catch {
+      // Left undefined, which `checkPlan` reports as an issue.
+    }
+    const plan = checkPlan(
+      parsed,
+      createPlanValidationContext(canvas.shapes, { policy: canvas.policy }),
+    );
+
+    const { report } = applyBoardActions(
+      editor,
+      plan.actions.map((action) =>
+        resolveActionAliases(action, canvas.aliases),
+      ),
+      {
+        confirmed: true,
+        placement: fixture.placement ?? "free-space",
+        prompt: fixture.message,
+      },
+    );
+
+    const metrics: EvalMetrics = {
+      ...scoreCanvas(editor),
+      planIssues: plan.issues.length,
+      unresolvedIds:
+        report.skipped.flatMap((skip) => skip.missingIds).length +
+        report.droppedBindings.filter((drop) => drop.reason === "missing")
+          .length,
+      rejectedActions: report.rejected.length + report.blocked.length,
+    };
+    const failures: string[] = [];
+    for (const key of Object.keys(metrics) as (keyof EvalMetrics)[]) {
+      if (key === "shapes") continue;
+      const limit = fixture.limits?.[key] ?? 0;
+      if (metrics[key] > limit) {
+        failures.push(`${key}: ${metrics[key]} > ${limit}`);
+      }
+    }
+    return { metrics, issues: plan.issues, report, failures };
+  } finally {
+    editor.dispose();
+  }
+}
@@ -0,0 +1,195 @@
+import {
+  Box,
+  createShapeId,
+  createTLStore,
+  defaultAddFontsFromNode,
+  defaultBindingUtils,
+  defaultShapeTools,
+  defaultShapeUtils,
+  defaultTools,
+  Editor,
+  getSnapshot,
+  loadSnapshot,
+  type RecordsDiff,
+  type TLRecord,
+  type TLShapeId,
+  type TLStoreSnapshot,
+  tipTapDefaultExtensions,
+} from "tldraw";
+import type { AgentScope } from "@/app/_agent/policy";
+import type {
+  AgentContextMode,
+  AgentPlacementMode,
+} from "@/app/_constants/agent";
+import { AgentPromptShapeUtil } from "@/app/_tldraw/agent/AgentPromptShapeUtil";
+import {
+  type AgentAction,
+  type AgentApplyReport,
+  applyAgentActions,
+  createAgentApplyReport,
+  formatAgentApplyReport,
+  summarizeAgentActions,
+} from "@/app/_tldraw/agent/agentActions";
+import { selectAgentContext } from "@/app/_tldraw/agent/agentContext";
+import { placeAgentShapes } from "@/app/_tldraw/agent/agentPlacement";
+import {
+  createAgentPolicyGuard,
+  getBoardPolicy,
+  isAgentProtected,
+} from "@/app/_tldraw/agent/agentPolicy";
+import type {
+  HeadlessApplyResult,
+  HeadlessInspectResult,
+  HeadlessRequest,
+} from "./types";
+
+const shapeUtils = [...defaultShapeUtils, AgentPromptShapeUtil];
+
+/** The viewport a headless editor pretends to have, zoomed to fit the board. */
+const VIEWPORT = new Box(0, 0, 1920, 1080);
+
+/**
+ * A real tldraw `Editor` over a board snapshot, so plans are applied with
+ * exactly the browser's semantics. Needs the simulated DOM from `./dom`.
+ */
+export function createHeadlessEditor(snapshot?: TLStoreSnapshot): Editor {
+  const store = createTLStore({
+    shapeUtils,
+    bindingUtils: defaultBindingUtils,
+  });
+  if (snapshot) loadSnapshot(store, { document: snapshot });
+  const editor = new Editor({
+    store,
+    shapeUtils,
+    bindingUtils: defaultBindingUtils,
+    tools: [...defaultTools, ...defaultShapeTools],
+    initialState: "select",
+    getContainer: () => document.body,
+    textOptions: {
+      tipTapConfig: { extensions: tipTapDefaultExtensions },
+      addFontsFromNode: defaultAddFontsFromNode,
+    },
+  });
+  editor.updateViewportScreenBounds(VIEWPORT);
+  editor.zoomToFit();
+  return editor;
+}
+
+/** What the agent is shown of the board, plus every shape's type and the board's agent policy. */
+export function inspectBoard(
+  editor: Editor,
+  contextMode: AgentContextMode,
+  scopeFrameId?: string,
+): HeadlessInspectResult {
+  const context = selectAgentContext(editor, {
+    mode: contextMode,
+    excludeTypes: ["agent-prompt"],
+  });
+  const frame = scopeFrameId
+    ? editor.getShape(
+        scopeFrameId.startsWith("shape:")
+          ? (scopeFrameId as TLShapeId)
+          : createShapeId(scopeFrameId),
+      )
+    : undefined;
+  const frameBounds =
+    frame?.type === "frame" ? editor.getShapePageBounds(frame) : undefined;
+  return {
+    ...context,
+    shapeTypes: editor.getCurrentPageShapes().map((shape) => {
+      const bounds = editor.getShapePageBounds(shape);
+      return {
+        id: shape.id,
+        type: shape.type,
+        isLocked: editor.isShapeOrAncestorLocked(shape) || undefined,
+        isProtected: isAgentProtected(editor, shape) || undefined,
+        bounds: bounds && [bounds.x, bounds.y, bounds.w, bounds.h],
+      };
+    }),
+    policy: getBoardPolicy(editor),
+    scope: frameBounds && {
+      x: frameBounds.x,
+      y: frameBounds.y,
+      w: frameBounds.w,
+      h: frameBounds.h,
+    },
+  };
+}
+
+/**
+ * Applies a plan under the board's agent policy, then places the new shapes
+ * as `placement` says, and returns what it changed in the store.
+ */
+export function applyBoardActions(
+  editor: Editor,
+  actions: AgentAction[],
+  opts: {
+    scope?: AgentScope;
+    confirmed?: boolean;
+    placement?: AgentPlacementMode;
+    prompt?: string;
+  } = {},
+): { diff: RecordsDiff<TLRecord>; summary: string; report: AgentApplyReport } {
+  const { scope, confirmed, placement = "as-planned", prompt = "" } = opts;
+  const report = createAgentApplyReport();
+  const guard = createAgentPolicyGuard(editor, {
+    policy: getBoardPolicy(editor),
+    scope,
+    confirmed,
+  });
+  const diff = editor.store.extractingChanges(() => {
+    const applied = editor.store.extractingChanges(() =>
+      applyAgentActions(editor, actions, { report, guard }),
+    );
+    placeAgentShapes(
+      editor,
+      Object.values(applied.added)
+        .filter((record) => record.typeName === "shape")
+        .map((record) => record.id as TLShapeId),
+      { mode: placement, prompt, within: scope },
+    );
+  });
+  return { diff, summary: summarizeAgentActions(actions), report };
+}
+
+function apply(
+  editor: Editor,
+  request: Extract<HeadlessRequest, { op: "apply" }>,
+): HeadlessApplyResult {
+  const { diff, summary, report } = applyBoardActions(editor, request.actions, {
+    scope: request.scope,
+    confirmed: request.confirmed,
+    placement: request.placement,
+    prompt: request.prompt,
+  });
+  const isDocument = (record: TLRecord) =>
+    editor.store.scopedTypes.document.has(record.typeName);
+  return {
+    snapshot: getSnapshot(editor.store).document,
+    changes: {
+      put: [
+        ...Object.values(diff.added),
+        ...Object.values(diff.updated).map(([, to]) => to),
+      ].filter(isDocument),
+      removed: Object.values(diff.removed)
+        .filter(isDocument)
+        .map((record) => record.id),
+    },
+    summary,
+    report,
+    problems: formatAgentApplyReport(report),
+  };
+}
+
+export function runHeadlessRequest(
+  request: HeadlessRequest,
+): HeadlessInspectResult | HeadlessApplyResult {
+  const editor = createHeadlessEditor(request.snapshot);
+  try {
+    return request.op === "inspect"
+      ? inspectBoard(editor, request.contextMode, request.scopeFrameId)
+      : apply(editor, request);
+  } finally {
+    editor.dispose();
+  }
+}
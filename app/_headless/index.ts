@@ -0,0 +1,54 @@
+import { join } from "node:path";
+import { HEADLESS_EXECUTOR_TIMEOUT_MS } from "@/app/_constants/documents";
+import type { HeadlessRequest, HeadlessResult } from "./types";
+
+export type {
+  HeadlessApplyResult,
+  HeadlessInspectResult,
+  HeadlessRequest,
+} from "./types";
+
+export class HeadlessExecutorError extends Error {
+  readonly detail: string;
+
+  constructor(message: string, detail: string) {
+    super(message);
+    this.name = "HeadlessExecutorError";
+    this.detail = detail;
+  }
+}
+
+const EXECUTOR_PATH = join(process.cwd(), "server", "executor.ts");
+
+/**
+ * Runs one request in a fresh `server/executor.ts` process, which hosts a
+ * tldraw `Editor` on a simulated DOM. Kept out of this process so the DOM
+ * globals never leak into the Next.js server.
+ */
+export async function runHeadless<R extends HeadlessRequest>(
+  request: R,
+): Promise<HeadlessResult<R>> {
+  const proc = Bun.spawn([process.execPath, EXECUTOR_PATH], {
+    stdin: "pipe",
+    stdout: "pipe",
+    stderr: "pipe",
+    timeout: HEADLESS_EXECUTOR_TIMEOUT_MS,
+  });
+  proc.stdin.write(JSON.stringify(request));
+  proc.stdin.end();
+
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited,
+  ]);
+  if (exitCode !== 0) {
+    throw new HeadlessExecutorError(
+      proc.signalCode
+        ? `Headless executor timed out (${request.op})`
+        : `Headless executor failed (${request.op})`,
+      stderr.trim() || `exit code ${exitCode}`,
+    );
+  }
+  return JSON.parse(stdout) as HeadlessResult<R>;
+}
@@ -0,0 +1,125 @@
+import {
+  type Editor,
+  LABEL_FONT_SIZES,
+  type TLGeoShape,
+  type TLShape,
+} from "tldraw";
+
+/** How a board looks after a plan; lower is better for all but `shapes`. */
+export type CanvasMetrics = {
+  shapes: number;
+  /** Pairs of boxes, notes, text and the like that overlap. */
+  overlaps: number;
+  /** Arrows bound to neither end. */
+  unboundArrows: number;
+  /** Arrows bound at one end only. */
+  danglingArrows: number;
+  /** Geo labels that don't fit their box at the size it was given. */
+  overflowingLabels: number;
+};
+
+/** Shapes drawn over other shapes by design, so they never count as overlaps. */
+const OVERLAY_TYPES = new Set(["arrow", "line", "draw", "highlight", "group"]);
+
+/** Overlaps thinner than this are touching edges, not overlaps. */
+const OVERLAP_TOLERANCE = 1;
+
+/**
+ * Rough metrics of a geo label at size `m`, as in `agentLayout`. Headless
+ * text measures as empty, so labels are estimated rather than measured.
+ */
+const LABEL_CHAR_WIDTH = 13;
+const LABEL_LINE_HEIGHT = 32;
+const LABEL_PADDING = 48;
+
+function countOverlaps(editor: Editor, shapes: TLShape[]): number {
+  const boxes = shapes
+    .filter((shape) => !OVERLAY_TYPES.has(shape.type))
+    .map((shape) => ({ shape, bounds: editor.getShapePageBounds(shape) }));
+  let overlaps = 0;
+  for (let i = 0; i < boxes.length; i++) {
+    for (let j = i + 1; j < boxes.length; j++) {
+      const a = boxes[i];
+      const b = boxes[j];
+      if (!a.bounds || !b.bounds) continue;
+      // Frame contents sit inside their frame on purpose.
+      if (
+        editor.hasAncestor(a.shape, b.shape.id) ||
+        editor.hasAncestor(b.shape, a.shape.id)
+      ) {
+        continue;
+      }
+      const w =
+        Math.min(a.bounds.maxX, b.bounds.maxX) -
+        Math.max(a.bounds.minX, b.bounds.minX);
+      const h =
+        Math.min(a.bounds.maxY, b.bounds.maxY) -
+        Math.max(a.bounds.minY, b.bounds.minY);
+      if (w > OVERLAP_TOLERANCE && h > OVERLAP_TOLERANCE) overlaps++;
+    }
+  }
+  return overlaps;
+}
+
+/** Whether the label, wrapped at word boundaries, is wider or taller than its box. */
+function isLabelOverflowing(editor: Editor, shape: TLGeoShape): boolean {
+  const text = editor.getShapeUtil(shape).getText(shape)?.trim();
+  if (!text) return false;
+  const { w, h, growY, scale, size } = shape.props;
+  const factor = LABEL_FONT_SIZES[size] / LABEL_FONT_SIZES.m;
+  const charWidth = LABEL_CHAR_WIDTH * factor;
+  const available = w / scale - LABEL_PADDING;
+
+  let lines = 0;
+  for (const paragraph of text.split("\n")) {
+    let lineWidth = 0;
+    lines++;
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const wordWidth = word.length * charWidth;
+      if (wordWidth > available) return true;
+      const next = lineWidth ? lineWidth + charWidth + wordWidth : wordWidth;
+      if (next > available) {
+        lines++;
+        lineWidth = wordWidth;
+      } else {
+        lineWidth = next;
+      }
+    }
+  }
+  return (
+    lines * LABEL_LINE_HEIGHT * factor + LABEL_PADDING > (h + growY) / scale
+  );
+}
+
+/** Scores the current page of `editor`. */
+export function scoreCanvas(editor: Editor): CanvasMetrics {
+  const shapes = editor.getCurrentPageShapes();
+  let unboundArrows = 0;
+  let danglingArrows = 0;
+  let overflowingLabels = 0;
+
+  for (const shape of shapes) {
+    if (shape.type === "arrow") {
+      const ends = new Set(
+        editor
+          .getBindingsFromShape(shape, "arrow")
+          .map((binding) => (binding.props as { terminal: string }).terminal),
+      );
+      if (ends.size === 0) unboundArrows++;
+      else if (ends.size === 1) danglingArrows++;
+    } else if (
+      editor.isShapeOfType<TLGeoShape>(shape, "geo") &&
+      isLabelOverflowing(editor, shape)
+    ) {
+      overflowingLabels++;
+    }
+  }
+
+  return {
+    shapes: shapes.length,
+    overlaps: countOverlaps(editor, shapes),
+    unboundArrows,
+    danglingArrows,
+    overflowingLabels,
+  };
+}
@@ -0,0 +1,67 @@
+import type { TLStoreSnapshot } from "tldraw";
+import type { AgentPolicy, AgentScope } from "@/app/_agent/policy";
+import type {
+  AgentContextOmitted,
+  CanvasShapeSummary,
+} from "@/app/_agent/prompt";
+import type { PlanContextShape } from "@/app/_agent/schema";
+import type {
+  AgentContextMode,
+  AgentPlacementMode,
+} from "@/app/_constants/agent";
+import type { BoardChanges } from "@/app/_documents/types";
+import type {
+  AgentAction,
+  AgentApplyReport,
+} from "@/app/_tldraw/agent/agentActions";
+
+/** What the headless executor is asked to do with a board snapshot. */
+export type HeadlessRequest =
+  | {
+      op: "inspect";
+      snapshot?: TLStoreSnapshot;
+      contextMode: AgentContextMode;
+      /** A frame whose area the run will be limited to; see `scope`. */
+      scopeFrameId?: string;
+    }
+  | {
+      op: "apply";
+      snapshot?: TLStoreSnapshot;
+      actions: AgentAction[];
+      scope?: AgentScope;
+      /** Lets deletions past the policy's confirmation threshold through. */
+      confirmed?: boolean;
+      /** What happens to the new shapes; `as-planned` when omitted. */
+      placement?: AgentPlacementMode;
+      /** The message the plan is for, naming the frame `placement: "frame"` adds. */
+      prompt?: string;
+    };
+
+export type HeadlessInspectResult = {
+  /** CANVAS_STATE for the model, as `selectAgentContext` picks it. */
+  shapes: CanvasShapeSummary[];
+  omitted: AgentContextOmitted;
+  aliases: Record<string, string>;
+  /** Every shape on the board, for validating plans that use real ids. */
+  shapeTypes: PlanContextShape[];
+  /** The board's agent policy. */
+  policy: AgentPolicy;
+  /** The area of `scopeFrameId`, if it names a frame. */
+  scope?: AgentScope;
+};
+
+export type HeadlessApplyResult = {
+  snapshot: TLStoreSnapshot;
+  changes: BoardChanges;
+  /** e.g. "Created 3 shapes, updated 1 shape". */
+  summary: string;
+  report: AgentApplyReport;
+  /** `report` as one line per problem, for people. */
+  problems: string[];
+};
+
+export type HeadlessResult<R extends HeadlessRequest> = R extends {
+  op: "inspect";
+}
+  ? HeadlessInspectResult
+  : HeadlessApplyResult;
@@ -0,0 +1,50 @@
+import type { TLStoreSnapshot } from "tldraw";
+import { getBoardsApiHeaders } from "@/app/_documents/auth";
+import type { BoardChanges } from "@/app/_documents/types";
+
+/**
+ * The sync server's HTTP base URL, or `undefined` when boards aren't synced.
+ * `SYNC_SERVER_URL` overrides the browser-facing `NEXT_PUBLIC_SYNC_URL` for
+ * when the server reaches it at a different address.
+ */
+export function getSyncServerUrl(): string | undefined {
+  const url = process.env.SYNC_SERVER_URL ?? process.env.NEXT_PUBLIC_SYNC_URL;
+  return url?.replace(/^ws/, "http").replace(/\/$/, "");
+}
+
+async function checkResponse(res: Response, what: string) {
+  if (!res.ok) {
+    throw new Error(`${what} failed: ${res.status} ${await res.text()}`);
+  }
+}
+
+/** The board as its collaborators currently see it; `undefined` if missing. */
+export async function fetchLiveSnapshot(
+  syncUrl: string,
+  boardId: string,
+): Promise<TLStoreSnapshot | undefined> {
+  const res = await fetch(
+    `${syncUrl}/boards/${encodeURIComponent(boardId)}/snapshot`,
+    { headers: getBoardsApiHeaders() },
+  );
+  if (res.status === 404) return undefined;
+  await checkResponse(res, "Fetching the live board");
+  return ((await res.json()) as { snapshot: TLStoreSnapshot }).snapshot;
+}
+
+/** Applies `changes` to the live board, broadcasting them to collaborators. */
+export async function pushLiveChanges(
+  syncUrl: string,
+  boardId: string,
+  changes: BoardChanges,
+): Promise<void> {
+  const res = await fetch(
+    `${syncUrl}/boards/${encodeURIComponent(boardId)}/changes`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...getBoardsApiHeaders() },
+      body: JSON.stringify(changes),
+    },
+  );
+  await checkResponse(res, "Updating the live board");
+}
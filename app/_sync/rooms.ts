@@ -0,0 +1,161 @@
+import {
+  InMemorySyncStorage,
+  loadSnapshotIntoStorage,
+  type RoomSnapshot,
+  TLSocketRoom,
+} from "@tldraw/sync-core";
+import type { TLRecord, TLStoreSnapshot } from "@tldraw/tlschema";
+import { DOCUMENT_AUTOSAVE_DELAY_MS } from "@/app/_constants/documents";
+import type { DocumentStore } from "@/app/_documents/store";
+import type { BoardChanges } from "@/app/_documents/types";
+import { boardSchema } from "./schema";
+
+export type BoardRoom = TLSocketRoom<TLRecord, undefined>;
+
+type OpenRoom = {
+  room: BoardRoom;
+  storage: InMemorySyncStorage<TLRecord>;
+  close: () => void;
+};
+
+/** Room snapshots carry sync clocks and tombstones; boards are saved without them. */
+function toStoreSnapshot(snapshot: RoomSnapshot): TLStoreSnapshot {
+  return {
+    store: Object.fromEntries(
+      snapshot.documents.map(({ state }) => [state.id, state]),
+    ) as TLStoreSnapshot["store"],
+    schema: snapshot.schema ?? boardSchema.serialize(),
+  };
+}
+
+/**
+ * One `TLSocketRoom` per open board. A room is loaded from the document store
+ * on the first connection, saved back a moment after each change, and saved
+ * and closed once its last collaborator has left.
+ */
+export function createBoardRooms(documents: DocumentStore) {
+  const rooms = new Map<string, Promise<OpenRoom | undefined>>();
+  /** Final saves of closed rooms, so a reopened room loads the latest state. */
+  const closing = new Map<string, Promise<void>>();
+  const saves = new Set<() => Promise<void>>();
+
+  const open = async (boardId: string): Promise<OpenRoom | undefined> => {
+    await closing.get(boardId);
+    const board = await documents.get(boardId);
+    if (!board) return undefined;
+
+    const storage = new InMemorySyncStorage<TLRecord>();
+    const { snapshot } = board;
+    if (snapshot) {
+      storage.transaction((txn) =>
+        loadSnapshotIntoStorage(txn, boardSchema, snapshot),
+      );
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    // Compared by clock rather than set from `onChange`, which fires
+    // asynchronously and would miss a change made just before closing.
+    let savedClock = storage.getClock();
+    let saving = Promise.resolve();
+    const save = () => {
+      clearTimeout(timer);
+      if (storage.getClock() === savedClock) return saving;
+      savedClock = storage.getClock();
+      saving = saving
+        .then(() =>
+          documents.save(boardId, {
+            snapshot: toStoreSnapshot(storage.getSnapshot()),
+          }),
+        )
+        .then(
+          () => {},
+          (e) => console.error(`Failed to save board ${boardId}:`, e),
+        );
+      return saving;
+    };
+    saves.add(save);
+    storage.onChange(() => {
+      clearTimeout(timer);
+      timer = setTimeout(save, DOCUMENT_AUTOSAVE_DELAY_MS);
+    });
+
+    const close = () => {
+      if (room.isClosed()) return;
+      rooms.delete(boardId);
+      saves.delete(save);
+      room.close();
+      const done = save().then(() => {
+        if (closing.get(boardId) === done) closing.delete(boardId);
+      });
+      closing.set(boardId, done);
+    };
+    const room: BoardRoom = new TLSocketRoom({
+      schema: boardSchema,
+      storage,
+      onSessionRemoved(_room, { numSessionsRemaining }) {
+        if (numSessionsRemaining === 0) close();
+      },
+    });
+    return { room, storage, close };
+  };
+
+  const getOpenRoom = (boardId: string) => {
+    let entry = rooms.get(boardId);
+    if (!entry) {
+      entry = open(boardId);
+      rooms.set(boardId, entry);
+      const forget = () => {
+        if (rooms.get(boardId) === entry) rooms.delete(boardId);
+      };
+      entry.then((r) => r || forget(), forget);
+    }
+    return entry;
+  };
+
+  /** Runs `fn` on the board's room, closing it again if nobody is connected. */
+  const withRoom = async <T>(
+    boardId: string,
+    fn: (entry: OpenRoom) => T,
+  ): Promise<T | undefined> => {
+    const entry = await getOpenRoom(boardId);
+    if (!entry) return undefined;
+    try {
+      return fn(entry);
+    } finally {
+      if (entry.room.getNumActiveSessions() === 0) entry.close();
+    }
+  };
+
+  return {
+    /** The board's room, or `undefined` if there is no such board. */
+    async getRoom(boardId: string): Promise<BoardRoom | undefined> {
+      return (await getOpenRoom(boardId))?.room;
+    },
+    /** The board as collaborators currently see it, pending saves included. */
+    getSnapshot(boardId: string): Promise<TLStoreSnapshot | undefined> {
+      return withRoom(boardId, ({ storage }) =>
+        toStoreSnapshot(storage.getSnapshot()),
+      );
+    },
+    /**
+     * Applies changes made outside the room (e.g. by the headless executor)
+     * and broadcasts them to every connected collaborator. Resolves to
+     * `false` if there is no such board.
+     */
+    async applyChanges(boardId: string, changes: BoardChanges) {
+      const applied = await withRoom(boardId, ({ storage }) => {
+        storage.transaction((txn) => {
+          for (const record of changes.put) txn.set(record.id, record);
+          for (const id of changes.removed) txn.delete(id);
+        });
+        return true;
+      });
+      return applied ?? false;
+    },
+    /** Saves every open room's pending changes, e.g. before shutting down. */
+    async flush() {
+      await Promise.all([...saves].map((save) => save()));
+      await Promise.all(closing.values());
+    },
+  };
+}
@@ -0,0 +1,21 @@
+import {
+  createTLSchema,
+  defaultBindingSchemas,
+  defaultShapeSchemas,
+} from "@tldraw/tlschema";
+import {
+  agentPromptShapeMigrations,
+  agentPromptShapeProps,
+} from "@/app/_tldraw/agent/agentPromptSchema";
+
+/** The record schema boards are synced and validated against on the server. */
+export const boardSchema = createTLSchema({
+  shapes: {
+    ...defaultShapeSchemas,
+    "agent-prompt": {
+      props: agentPromptShapeProps,
+      migrations: agentPromptShapeMigrations,
+    },
+  },
+  bindings: defaultBindingSchemas,
+});
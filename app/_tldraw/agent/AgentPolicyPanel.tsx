@@ -0,0 +1,68 @@
+import { useEditor, useValue } from "tldraw";
+import type { AgentPolicy } from "@/app/_agent/policy";
+import { getBoardPolicy, setBoardPolicy } from "./agentPolicy";
+import { stopEvent } from "./stopEvent";
+
+const inputClassName =
+  "select-text w-16 rounded border border-black/10 bg-white px-2 py-1 text-xs text-zinc-900 outline-none focus:border-zinc-400 dark:border-white/10 dark:bg-zinc-800/60 dark:text-zinc-100";
+
+const keyHandlers = {
+  onKeyDownCapture: stopEvent,
+  onKeyUpCapture: stopEvent,
+  onKeyDown: stopEvent,
+};
+
+const LIMITS: { key: keyof AgentPolicy; label: string }[] = [
+  { key: "maxDeletions", label: "Most shapes one run may delete" },
+  {
+    key: "confirmDeletionsAbove",
+    label: "Ask before a run deletes more than",
+  },
+];
+
+/** Edits the board's agent policy, which applies to every prompt on the board. */
+export function AgentPolicyPanel() {
+  const editor = useEditor();
+  const policy = useValue("board policy", () => getBoardPolicy(editor), [
+    editor,
+  ]);
+
+  return (
+    <div
+      onPointerDown={stopEvent}
+      className="flex min-h-0 flex-1 flex-col gap-2 overflow-auto p-3 text-xs text-zinc-800 dark:text-zinc-200"
+    >
+      <p className="opacity-70">
+        These limits apply to every prompt on this board. Locked shapes, and
+        shapes marked <span className="font-semibold">Protect from agent</span>{" "}
+        in their context menu, are never changed by the agent; what it tries
+        anyway is reported back to it.
+      </p>
+      {LIMITS.map(({ key, label }) => (
+        <label key={key} className="flex items-center justify-between gap-2">
+          {label}
+          <input
+            // Re-mounted when a collaborator changes the value.
+            key={policy[key]}
+            type="number"
+            min={0}
+            step={1}
+            defaultValue={policy[key]}
+            onBlur={(e) => {
+              const value = Number(e.target.value);
+              if (Number.isInteger(value) && value >= 0) {
+                if (value !== policy[key]) {
+                  setBoardPolicy(editor, { ...policy, [key]: value });
+                }
+              } else {
+                e.target.value = String(policy[key]);
+              }
+            }}
+            className={inputClassName}
+            {...keyHandlers}
+          />
+        </label>
+      ))}
+    </div>
+  );
+}
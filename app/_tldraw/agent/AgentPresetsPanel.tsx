@@ -0,0 +1,133 @@
+import { useEditor, useValue } from "tldraw";
+import type { AgentPreset } from "@/app/_agent/presets";
+import {
+  AGENT_CONTEXT_MODES,
+  type AgentContextMode,
+  MAX_AGENT_EXTRA_INSTRUCTIONS_LENGTH,
+} from "@/app/_constants/agent";
+import {
+  addBoardPreset,
+  deleteBoardPreset,
+  getBoardPresets,
+  updateBoardPreset,
+} from "./agentPresets";
+import { stopEvent } from "./stopEvent";
+
+const inputClassName =
+  "select-text w-full rounded border border-black/10 bg-white px-2 py-1 text-xs text-zinc-900 outline-none focus:border-zinc-400 dark:border-white/10 dark:bg-zinc-800/60 dark:text-zinc-100";
+
+const keyHandlers = {
+  onKeyDownCapture: stopEvent,
+  onKeyUpCapture: stopEvent,
+  onKeyDown: stopEvent,
+};
+
+/**
+ * Edits the board's team presets, which every prompt shape on the board can
+ * pick. `copyFrom` (the prompt's current preset) seeds new ones.
+ */
+export function AgentPresetsPanel({
+  copyFrom,
+  onUse,
+}: {
+  copyFrom?: AgentPreset;
+  onUse: (preset: AgentPreset) => void;
+}) {
+  const editor = useEditor();
+  const presets = useValue("board presets", () => getBoardPresets(editor), [
+    editor,
+  ]);
+
+  return (
+    <div
+      onPointerDown={stopEvent}
+      className="flex min-h-0 flex-1 flex-col gap-2 overflow-auto p-3 text-xs text-zinc-800 dark:text-zinc-200"
+    >
+      {presets.length === 0 ? (
+        <p className="opacity-70">
+          Presets saved here are shared by every prompt on this board.
+        </p>
+      ) : null}
+      {presets.map((preset) => (
+        <div
+          key={preset.id}
+          className="flex flex-col gap-1.5 rounded-lg border border-black/10 bg-white/70 p-2 dark:border-white/10 dark:bg-zinc-800/50"
+        >
+          <div className="flex items-center gap-2">
+            <input
+              defaultValue={preset.name}
+              maxLength={60}
+              aria-label="Preset name"
+              onBlur={(e) => {
+                const name = e.target.value.trim();
+                if (name && name !== preset.name) {
+                  updateBoardPreset(editor, preset.id, { name });
+                }
+              }}
+              className={`${inputClassName} font-semibold`}
+              {...keyHandlers}
+            />
+            <select
+              title="Context the preset switches to"
+              value={preset.contextMode ?? ""}
+              onChange={(e) =>
+                updateBoardPreset(editor, preset.id, {
+                  contextMode: (e.target.value || undefined) as
+                    | AgentContextMode
+                    | undefined,
+                })
+              }
+              className="rounded border border-black/10 bg-white px-1 py-0.5 dark:border-white/10 dark:bg-zinc-800"
+            >
+              <option value="">Any context</option>
+              {AGENT_CONTEXT_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {mode}
+                </option>
+              ))}
+            </select>
+          </div>
+          <textarea
+            defaultValue={preset.instructions}
+            rows={3}
+            maxLength={MAX_AGENT_EXTRA_INSTRUCTIONS_LENGTH}
+            placeholder="Conventions the agent should follow, e.g. colors, shapes, naming"
+            aria-label="Preset instructions"
+            onBlur={(e) => {
+              if (e.target.value !== preset.instructions) {
+                updateBoardPreset(editor, preset.id, {
+                  instructions: e.target.value,
+                });
+              }
+            }}
+            className={`${inputClassName} resize-y`}
+            {...keyHandlers}
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => deleteBoardPreset(editor, preset.id)}
+              className="rounded-md border border-black/10 bg-white px-2 py-1 font-semibold text-red-700 hover:bg-zinc-100 dark:border-white/10 dark:bg-zinc-800 dark:text-red-300 dark:hover:bg-zinc-700"
+            >
+              Delete
+            </button>
+            <button
+              type="button"
+              onClick={() => onUse(preset)}
+              className="rounded-md border border-black/10 bg-white px-2 py-1 font-semibold hover:bg-zinc-100 dark:border-white/10 dark:bg-zinc-800 dark:hover:bg-zinc-700"
+            >
+              Use
+            </button>
+          </div>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => addBoardPreset(editor, copyFrom)}
+        className="self-start rounded-md border border-black/10 bg-white px-2 py-1 font-semibold hover:bg-zinc-100 dark:border-white/10 dark:bg-zinc-800 dark:hover:bg-zinc-700"
+      >
+        {copyFrom ? `Copy “${copyFrom.name}”` : "New preset"}
+      </button>
+    </div>
+  );
+}
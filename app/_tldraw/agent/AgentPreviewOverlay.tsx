@@ -0,0 +1,394 @@
+"use client";
+
+import {
+  type Box,
+  DEFAULT_EMBED_DEFINITIONS,
+  type Editor,
+  getEmbedInfo,
+  type TLShapeId,
+  TldrawOverlays,
+  useEditor,
+  useValue,
+} from "tldraw";
+import {
+  type AgentAction,
+  type AgentShape,
+  getConnectArrow,
+  resolveShapeAnchor,
+} from "./agentActions";
+import { getGraphActions, getLayoutMoves } from "./agentLayout";
+import { getAgentPreviews } from "./agentPreview";
+
+type Point = { x: number; y: number };
+
+type Ghost =
+  | {
+      kind: "create";
+      geo: "rectangle" | "ellipse" | "diamond";
+      x: number;
+      y: number;
+      w: number;
+      h: number;
+      label?: string;
+    }
+  | { kind: "create-arrow"; start: Point; end: Point; label?: string }
+  | { kind: "create-path"; points: Point[]; width: number }
+  | { kind: "move"; from: Box; to: Box }
+  | { kind: "update"; bounds: Box }
+  | { kind: "delete"; bounds: Box };
+
+const CREATE_COLOR = "#2563eb";
+const UPDATE_COLOR = "#d97706";
+const DELETE_COLOR = "#dc2626";
+
+function getCreateGhost(shape: AgentShape): Ghost {
+  switch (shape.kind) {
+    case "geo":
+      return {
+        kind: "create",
+        geo:
+          shape.geo === "ellipse" || shape.geo === "diamond"
+            ? shape.geo
+            : "rectangle",
+        x: shape.x,
+        y: shape.y,
+        w: shape.w ?? 220,
+        h: shape.h ?? 140,
+        label: shape.label,
+      };
+    case "text":
+      return {
+        kind: "create",
+        geo: "rectangle",
+        x: shape.x,
+        y: shape.y,
+        w: shape.w ?? 320,
+        h: 40,
+        label: shape.text,
+      };
+    case "note":
+      return {
+        kind: "create",
+        geo: "rectangle",
+        x: shape.x,
+        y: shape.y,
+        w: 200,
+        h: 200,
+        label: shape.text,
+      };
+    case "frame":
+      return {
+        kind: "create",
+        geo: "rectangle",
+        x: shape.x,
+        y: shape.y,
+        w: shape.w,
+        h: shape.h,
+        label: shape.name,
+      };
+    case "embed": {
+      const definition = getEmbedInfo(
+        DEFAULT_EMBED_DEFINITIONS,
+        shape.url,
+      )?.definition;
+      return {
+        kind: "create",
+        geo: "rectangle",
+        x: shape.x,
+        y: shape.y,
+        w: shape.w ?? definition?.width ?? 300,
+        h: shape.h ?? definition?.height ?? 320,
+        label: shape.url,
+      };
+    }
+    case "bookmark":
+      return {
+        kind: "create",
+        geo: "rectangle",
+        x: shape.x,
+        y: shape.y,
+        w: shape.w ?? 300,
+        h: 320,
+        label: shape.url,
+      };
+    case "line":
+    case "highlight":
+      return {
+        kind: "create-path",
+        points: shape.points,
+        width: shape.kind === "highlight" ? 16 : 2,
+      };
+    case "arrow":
+      return {
+        kind: "create-arrow",
+        start: shape.start,
+        end: shape.end,
+        label: shape.label,
+      };
+  }
+}
+
+function getBounds(editor: Editor, ids: string[]): Box[] {
+  return ids.flatMap((id) => {
+    const bounds = editor.getShapePageBounds(id as TLShapeId);
+    return bounds ? [bounds] : [];
+  });
+}
+
+function getGhosts(editor: Editor, action: AgentAction): Ghost[] {
+  switch (action._type) {
+    case "create_shape": {
+      const shape = resolveShapeAnchor(editor, action.shape);
+      return shape ? [getCreateGhost(shape)] : [];
+    }
+    case "update_shape": {
+      const shape = editor.getShape(action.id as TLShapeId);
+      const bounds = shape && editor.getShapePageBounds(shape);
+      if (!shape || !bounds) return [];
+      const dx =
+        typeof action.patch.x === "number" ? action.patch.x - shape.x : 0;
+      const dy =
+        typeof action.patch.y === "number" ? action.patch.y - shape.y : 0;
+      if (dx === 0 && dy === 0) return [{ kind: "update", bounds }];
+      return [
+        {
+          kind: "move",
+          from: bounds,
+          to: bounds.clone().translate({ x: dx, y: dy }),
+        },
+      ];
+    }
+    case "delete_shape": {
+      const bounds = editor.getShapePageBounds(action.id as TLShapeId);
+      return bounds ? [{ kind: "delete", bounds }] : [];
+    }
+    case "select":
+      return [];
+    case "connect": {
+      const arrow = getConnectArrow(editor, action);
+      return arrow ? [getCreateGhost(arrow)] : [];
+    }
+    case "create_graph":
+      return getGraphActions(editor, action).flatMap((created) =>
+        getGhosts(editor, created),
+      );
+    case "layout":
+      return getLayoutMoves(
+        editor,
+        action.ids as TLShapeId[],
+        action.direction ?? "down",
+      ).map(({ from, to }) => ({ kind: "move", from, to }));
+    case "duplicate": {
+      const offset = action.offset ?? { x: 40, y: 40 };
+      return getBounds(editor, action.ids).map((bounds) => ({
+        kind: "create",
+        geo: "rectangle",
+        ...bounds.clone().translate(offset).toJson(),
+      }));
+    }
+    default:
+      // Structural actions: outline the shapes they rearrange.
+      return getBounds(editor, action.ids).map((bounds) => ({
+        kind: "update",
+        bounds,
+      }));
+  }
+}
+
+function GhostShape({ ghost }: { ghost: Ghost }) {
+  switch (ghost.kind) {
+    case "create": {
+      const common = {
+        fill: CREATE_COLOR,
+        fillOpacity: 0.1,
+        stroke: CREATE_COLOR,
+        strokeOpacity: 0.7,
+        strokeDasharray: "6 4",
+        vectorEffect: "non-scaling-stroke" as const,
+      };
+      const { x, y, w, h } = ghost;
+      return (
+        <g>
+          {ghost.geo === "ellipse" ? (
+            <ellipse
+              cx={x + w / 2}
+              cy={y + h / 2}
+              rx={w / 2}
+              ry={h / 2}
+              {...common}
+            />
+          ) : ghost.geo === "diamond" ? (
+            <polygon
+              points={`${x + w / 2},${y} ${x + w},${y + h / 2} ${x + w / 2},${y + h} ${x},${y + h / 2}`}
+              {...common}
+            />
+          ) : (
+            <rect x={x} y={y} width={w} height={h} rx={8} {...common} />
+          )}
+          {ghost.label ? (
+            <text
+              x={x + w / 2}
+              y={y + h / 2}
+              textAnchor="middle"
+              dominantBaseline="middle"
+              fill={CREATE_COLOR}
+              fillOpacity={0.8}
+              fontSize={18}
+            >
+              {ghost.label}
+            </text>
+          ) : null}
+        </g>
+      );
+    }
+    case "create-arrow":
+      return (
+        <g>
+          <line
+            x1={ghost.start.x}
+            y1={ghost.start.y}
+            x2={ghost.end.x}
+            y2={ghost.end.y}
+            stroke={CREATE_COLOR}
+            strokeOpacity={0.7}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            markerEnd="url(#agent-preview-arrowhead)"
+            vectorEffect="non-scaling-stroke"
+          />
+          {ghost.label ? (
+            <text
+              x={(ghost.start.x + ghost.end.x) / 2}
+              y={(ghost.start.y + ghost.end.y) / 2}
+              textAnchor="middle"
+              fill={CREATE_COLOR}
+              fillOpacity={0.8}
+              fontSize={16}
+            >
+              {ghost.label}
+            </text>
+          ) : null}
+        </g>
+      );
+    case "create-path":
+      return (
+        <polyline
+          points={ghost.points.map((p) => `${p.x},${p.y}`).join(" ")}
+          fill="none"
+          stroke={CREATE_COLOR}
+          strokeOpacity={ghost.width > 2 ? 0.3 : 0.7}
+          strokeWidth={ghost.width}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          strokeDasharray={ghost.width > 2 ? undefined : "6 4"}
+          vectorEffect="non-scaling-stroke"
+        />
+      );
+    case "move":
+      return (
+        <g>
+          <line
+            x1={ghost.from.midX}
+            y1={ghost.from.midY}
+            x2={ghost.to.midX}
+            y2={ghost.to.midY}
+            stroke={UPDATE_COLOR}
+            strokeOpacity={0.6}
+            strokeDasharray="2 4"
+            vectorEffect="non-scaling-stroke"
+          />
+          <rect
+            x={ghost.to.x}
+            y={ghost.to.y}
+            width={ghost.to.w}
+            height={ghost.to.h}
+            fill="none"
+            stroke={UPDATE_COLOR}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            vectorEffect="non-scaling-stroke"
+          />
+        </g>
+      );
+    case "update":
+      return (
+        <rect
+          x={ghost.bounds.x}
+          y={ghost.bounds.y}
+          width={ghost.bounds.w}
+          height={ghost.bounds.h}
+          fill={UPDATE_COLOR}
+          fillOpacity={0.08}
+          stroke={UPDATE_COLOR}
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      );
+    case "delete":
+      return (
+        <rect
+          x={ghost.bounds.x}
+          y={ghost.bounds.y}
+          width={ghost.bounds.w}
+          height={ghost.bounds.h}
+          fill={DELETE_COLOR}
+          fillOpacity={0.25}
+          stroke={DELETE_COLOR}
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      );
+  }
+}
+
+/**
+ * Draws pending agent previews (see `agentPreview.ts`) in page space, on top
+ * of the shapes: creations in blue, moves and updates as amber outlines and
+ * deletions tinted red. Rendered as tldraw's `Overlays` component, so it
+ * also renders tldraw's default overlays.
+ */
+export function AgentPreviewOverlay() {
+  const editor = useEditor();
+  const ghosts = useValue("agent preview ghosts", () => {
+    const ghosts: Ghost[] = [];
+    for (const preview of getAgentPreviews().values()) {
+      preview.actions.forEach((action, i) => {
+        if (preview.enabled[i]) ghosts.push(...getGhosts(editor, action));
+      });
+    }
+    return ghosts;
+  }, [editor]);
+
+  return (
+    <>
+      <TldrawOverlays />
+      {ghosts.length > 0 ? (
+        <svg
+          aria-hidden="true"
+          className="pointer-events-none absolute top-0 left-0 overflow-visible"
+          width={1}
+          height={1}
+        >
+          <defs>
+            <marker
+              id="agent-preview-arrowhead"
+              viewBox="0 0 10 10"
+              refX={9}
+              refY={5}
+              markerWidth={8}
+              markerHeight={8}
+              orient="auto-start-reverse"
+            >
+              <path d="M0,0 L10,5 L0,10 z" fill={CREATE_COLOR} />
+            </marker>
+          </defs>
+          {ghosts.map((ghost, i) => (
+            // Ghosts have no identity of their own; the list is rebuilt on every change.
+            // biome-ignore lint/suspicious/noArrayIndexKey: see above
+            <GhostShape key={i} ghost={ghost} />
+          ))}
+        </svg>
+      ) : null}
+    </>
+  );
+}
@@ -1,85 +1,304 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   BaseBoxShapeUtil,
+  type Editor,
   HTMLContainer,
-  type RecordProps,
-  type TLBaseBoxShape,
-} from "@tldraw/editor";
-import { T } from "@tldraw/validate";
-import { useCallback, useEffect, useMemo, useState } from "react";
-import { type Editor, useEditor } from "tldraw";
+  useEditor,
+  useValue,
+} from "tldraw";
+import {
+  describeDiagram,
+  type ParsedDiagram,
+  parseDiagramText,
+} from "@/app/_agent/diagrams";
+import { PROMPT_ANCHOR } from "@/app/_agent/placement";
+import { isObject } from "@/app/_agent/plan";
+import type { AgentScope } from "@/app/_agent/policy";
+import { type AgentPreset, BUILT_IN_AGENT_PRESETS } from "@/app/_agent/presets";
+import type { AgentHistoryTurn } from "@/app/_agent/prompt";
+import type { AgentRunUser } from "@/app/_agent/runLocks";
+import type { PlanIssue } from "@/app/_agent/schema";
+import {
+  AGENT_STREAM_CONTENT_TYPE,
+  type AgentStreamEvent,
+} from "@/app/_agent/stream";
+import {
+  AGENT_RUN_LOCK_TTL_MS,
+  type AgentContextMode,
+  type AgentPlacementMode,
+} from "@/app/_constants/agent";
 import { cn } from "@/app/_utils/cn";
+import { readLines } from "@/app/_utils/readLines";
+import { useBoard } from "../boards/useBoardStore";
+import { AgentPolicyPanel } from "./AgentPolicyPanel";
+import { AgentPresetsPanel } from "./AgentPresetsPanel";
 import {
-  type AgentResponse,
-  applyAgentActions,
-  getCanvasStateForAgent,
+  type AgentAction,
+  formatAgentApplyReport,
+  summarizeAgentActions,
 } from "./agentActions";
+import { selectAgentContext } from "./agentContext";
+import { getDiagramActions } from "./agentDiagram";
+import { exportAgentImage } from "./agentImage";
+import { openAgentInspector, reportAgentRunResult } from "./agentInspector";
+import { getPromptArea } from "./agentPlacement";
+import { getBoardPolicy, getSelectionScope } from "./agentPolicy";
+import { findAgentPreset, getBoardPresets } from "./agentPresets";
+import {
+  addAgentPreviewAction,
+  clearAgentPreview,
+  describeAgentAction,
+  getAgentPreview,
+  getEnabledPreviewActions,
+  startAgentPreview,
+  toggleAgentPreviewAction,
+} from "./agentPreview";
+import {
+  type AgentActiveRun,
+  type AgentPromptShape,
+  type AgentTurn,
+  agentPromptShapeMigrations,
+  agentPromptShapeProps,
+} from "./agentPromptSchema";
+import {
+  type AgentRunRecord,
+  appendAgentRun,
+  createAgentRunRecorder,
+  getAgentRunUser,
+  revertAgentRun,
+  summarizeAgentRun,
+} from "./agentRuns";
+import { stopEvent } from "./stopEvent";
 
-export type AgentPromptShape = TLBaseBoxShape & {
-  type: "agent-prompt";
-  props: {
-    w: number;
-    h: number;
-    message: string;
-  };
+/** Preset picker entry that opens the board presets panel. */
+const MANAGE_PRESETS = "__manage";
+
+type AgentRunProgress = {
+  /** When the run was started, for the elapsed time. */
+  startedAt: number;
+  /** Set while the run waits for a free slot on the server (1 = next). */
+  queuePosition?: number;
+  /** Characters of model output received so far. */
+  chars: number;
+  /** Actions applied to the canvas so far. */
+  applied: number;
+  /** Set while the server asks the model to fix an invalid plan. */
+  repairAttempt?: number;
 };
 
-const agentPromptShapeProps = {
-  w: T.number,
-  h: T.number,
-  message: T.string,
-} satisfies RecordProps<AgentPromptShape>;
+function formatElapsed(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  return seconds < 60
+    ? `${seconds}s`
+    : `${Math.floor(seconds / 60)}m ${String(seconds % 60).padStart(2, "0")}s`;
+}
 
-function stopEvent(e: {
-  stopPropagation(): void;
-  nativeEvent?: {
-    stopImmediatePropagation?: () => void;
-  };
-}) {
-  // Allow copy/cut/paste shortcuts to work
-  if (
-    e.nativeEvent instanceof KeyboardEvent &&
-    (e.nativeEvent.metaKey || e.nativeEvent.ctrlKey) &&
-    (e.nativeEvent.key === "c" ||
-      e.nativeEvent.key === "x" ||
-      e.nativeEvent.key === "v")
-  ) {
-    return;
+/** Validation issues shown in the thread; the rest are in the run log. */
+const MAX_ERROR_ISSUES = 5;
+
+/**
+ * The error and what was wrong with the plan, readable in the thread. The
+ * raw model output stays out of it; the run inspector shows it.
+ */
+function formatAgentError(error: {
+  error: string;
+  detail?: unknown;
+  issues?: PlanIssue[];
+}): string {
+  const lines = [error.error];
+  if (error.issues?.length) {
+    for (const issue of error.issues.slice(0, MAX_ERROR_ISSUES)) {
+      lines.push(`• ${issue.path}: ${issue.message}`);
+    }
+    if (error.issues.length > MAX_ERROR_ISSUES) {
+      lines.push(`• …and ${error.issues.length - MAX_ERROR_ISSUES} more`);
+    }
+  } else if (typeof error.detail === "string" && error.detail) {
+    lines.push(error.detail);
   }
+  return lines.join("\n");
+}
 
-  e.stopPropagation();
-  // Some tldraw listeners are global; stopping immediate propagation helps prevent
-  // key events from becoming tool shortcuts while typing.
-  e.nativeEvent?.stopImmediatePropagation?.();
+/** A failed request's error, from its JSON body when it has one. */
+function getResponseError(status: number, text: string): string {
+  try {
+    const body: unknown = JSON.parse(text);
+    if (isObject(body) && typeof body.error === "string") {
+      return formatAgentError({
+        error: body.error,
+        detail: body.detail,
+        issues: Array.isArray(body.issues) ? body.issues : undefined,
+      });
+    }
+  } catch {
+    // Not JSON; show it as is.
+  }
+  return text || `Request failed: ${status}`;
 }
 
+/**
+ * Runs the agent and calls `onAction` for each action as the model produces
+ * it. Resolves with the agent's notes once the plan is complete.
+ */
 async function runAgent(
   editor: Editor,
-  opts: { message: string },
-): Promise<AgentResponse> {
-  const shapes = getCanvasStateForAgent(editor, {
+  opts: {
+    promptId: AgentPromptShape["id"];
+    contextMode: AgentContextMode;
+    sendImage: boolean;
+    message: string;
+    history: AgentHistoryTurn[];
+    user: AgentRunUser;
+    boardId?: string;
+    extraInstructions?: string;
+    scope?: AgentScope;
+    signal: AbortSignal;
+    /** Called once the server has accepted the run. */
+    onStart: () => void;
+    /** The run's place in the server's queue; `null` once it is running. */
+    onQueued: (position: number | null) => void;
+    /** The run's id in the server's run log. */
+    onLogged: (runId: string) => void;
+    onAction: (action: AgentAction) => void;
+    onProgress: (chars: number) => void;
+    onRepair: (attempt: number) => void;
+  },
+): Promise<string> {
+  const { shapes, omitted, aliases } = selectAgentContext(editor, {
+    mode: opts.contextMode,
+    promptId: opts.promptId,
     excludeTypes: ["agent-prompt"],
   });
+  const image = opts.sendImage
+    ? await exportAgentImage(editor, { excludeTypes: ["agent-prompt"] })
+    : undefined;
 
   const res = await fetch("/api/agent", {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: {
+      "Content-Type": "application/json",
+      Accept: AGENT_STREAM_CONTENT_TYPE,
+    },
     body: JSON.stringify({
       message: opts.message,
+      history: opts.history,
       shapes,
+      omitted,
+      // The model refers to the prompt shape as an anchor by this name.
+      aliases: { ...aliases, [PROMPT_ANCHOR]: opts.promptId },
+      promptArea: getPromptArea(editor, opts.promptId),
+      image,
+      extraInstructions: opts.extraInstructions,
+      boardId: opts.boardId,
+      promptId: opts.promptId,
+      user: opts.user,
+      policy: getBoardPolicy(editor),
+      scope: opts.scope,
     }),
+    signal: opts.signal,
   });
 
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(text || `Request failed: ${res.status}`);
+  if (!res.ok || !res.body) {
+    throw new Error(getResponseError(res.status, await res.text()));
   }
+  opts.onStart();
+
+  for await (const line of readLines(res.body)) {
+    const event = JSON.parse(line) as AgentStreamEvent;
+    switch (event.type) {
+      case "queued":
+        opts.onQueued(event.position);
+        break;
+      case "started":
+        opts.onQueued(null);
+        opts.onLogged(event.runId);
+        break;
+      case "progress":
+        opts.onProgress(event.chars);
+        break;
+      case "action":
+        opts.onAction(event.action);
+        break;
+      case "repair":
+        opts.onRepair(event.attempt);
+        break;
+      case "done":
+        return event.notes;
+      case "error":
+        throw new Error(formatAgentError(event));
+    }
+  }
+
+  throw new Error("Agent stream ended unexpectedly");
+}
+
+/** Feeds a pasted diagram's actions through the same path as the agent's. */
+function importDiagram(
+  editor: Editor,
+  parsed: ParsedDiagram,
+  onAction: (action: AgentAction) => void,
+): string {
+  getDiagramActions(editor, parsed).forEach(onAction);
+  return describeDiagram(parsed);
+}
+
+/**
+ * Appends to a prompt shape's thread. Reads the shape from the store rather
+ * than a render closure, since runs outlive the render that started them.
+ */
+function appendTurn(
+  editor: Editor,
+  id: AgentPromptShape["id"],
+  turn: AgentTurn,
+) {
+  const shape = editor.getShape<AgentPromptShape>(id);
+  if (!shape) return;
+  editor.updateShape<AgentPromptShape>({
+    id,
+    type: "agent-prompt",
+    props: { thread: [...shape.props.thread, turn] },
+  });
+}
+
+/**
+ * Marks who is running a prompt shape, for every collaborator to see. Kept
+ * out of the undo stack so undo never brings back a finished run's marker.
+ */
+function setActiveRun(
+  editor: Editor,
+  id: AgentPromptShape["id"],
+  activeRun: AgentActiveRun | null,
+) {
+  editor.run(
+    () =>
+      editor.updateShape<AgentPromptShape>({
+        id,
+        type: "agent-prompt",
+        props: { activeRun },
+      }),
+    { history: "ignore" },
+  );
+}
 
-  return (await res.json()) as AgentResponse;
+/** What a thread turn contributes to the conversation history sent to the model. */
+function toHistoryTurn(turn: AgentTurn): AgentHistoryTurn {
+  if (turn.role === "user") return { role: "user", text: turn.text };
+  return {
+    role: "agent",
+    text: [
+      turn.text,
+      turn.summary && `(${turn.summary})`,
+      ...(turn.problems ?? []),
+    ]
+      .filter(Boolean)
+      .join("\n"),
+  };
 }
 
 export class AgentPromptShapeUtil extends BaseBoxShapeUtil<AgentPromptShape> {
   static override type = "agent-prompt" as const;
   static override props = agentPromptShapeProps;
+  static override migrations = agentPromptShapeMigrations;
 
   override canBind() {
     return false;
@@ -88,26 +307,79 @@ export class AgentPromptShapeUtil extends BaseBoxShapeUtil<AgentPromptShape> {
   override getDefaultProps(): AgentPromptShape["props"] {
     return {
       w: 420,
-      h: 260,
+      h: 360,
       message: "",
+      thread: [],
+      runs: [],
+      preview: false,
+      contextMode: "auto",
+      sendImage: false,
+      activeRun: null,
+      presetId: null,
+      limitToSelection: false,
+      placement: "free-space",
     };
   }
 
   override component(shape: AgentPromptShape) {
     const editor = useEditor();
+    const board = useBoard()?.board;
 
     const [draftMessage, setDraftMessage] = useState(shape.props.message);
     const [isRunning, setIsRunning] = useState(false);
-    const [notes, setNotes] = useState<string>("");
-    const [error, setError] = useState<string>("");
+    const [progress, setProgress] = useState<AgentRunProgress | null>(null);
+    /** Shown instead of the thread. */
+    const [panel, setPanel] = useState<"runs" | "presets" | "policy" | null>(
+      null,
+    );
+    const abortRef = useRef<AbortController | null>(null);
+    const preview = useValue("agent preview", () => getAgentPreview(shape.id), [
+      shape.id,
+    ]);
+    const threadEndRef = useRef<HTMLDivElement>(null);
+    const userId = useValue("user id", () => editor.user.getId(), [editor]);
+
+    // Someone else's run, unless its marker was left behind by a closed tab.
+    const { activeRun } = shape.props;
+    const runningUser =
+      activeRun &&
+      activeRun.userId !== userId &&
+      Date.now() - activeRun.startedAt < AGENT_RUN_LOCK_TTL_MS
+        ? activeRun.userName
+        : null;
+    const isBusy = isRunning || runningUser !== null;
 
     useEffect(() => {
       setDraftMessage(shape.props.message);
     }, [shape.props.message]);
 
+    // Re-render every second while running, for the elapsed time.
+    const [, setTick] = useState(0);
+    useEffect(() => {
+      if (!isRunning) return;
+      const interval = setInterval(() => setTick((t) => t + 1), 1000);
+      return () => clearInterval(interval);
+    }, [isRunning]);
+
+    const turnCount = shape.props.thread.length;
+    useEffect(() => {
+      if (turnCount > 0) threadEndRef.current?.scrollIntoView({ block: "end" });
+    }, [turnCount]);
+
+    const boardPresets = useValue(
+      "board presets",
+      () => getBoardPresets(editor),
+      [editor],
+    );
+    const preset = useValue(
+      "agent preset",
+      () => findAgentPreset(editor, shape.props.presetId),
+      [editor, shape.props.presetId],
+    );
+
     const canRun = useMemo(() => {
-      return draftMessage.trim().length > 0 && !isRunning;
-    }, [draftMessage, isRunning]);
+      return draftMessage.trim().length > 0 && !isBusy && !preview;
+    }, [draftMessage, isBusy, preview]);
 
     const updateProps = useCallback(
       (patch: Partial<AgentPromptShape["props"]>) => {
@@ -120,28 +392,240 @@ export class AgentPromptShapeUtil extends BaseBoxShapeUtil<AgentPromptShape> {
       [editor, shape.id, shape.props, shape.type],
     );
 
+    /** Picks a preset and switches to the settings it comes with. */
+    const applyPreset = useCallback(
+      (next: AgentPreset | null) => {
+        updateProps({
+          presetId: next?.id ?? null,
+          ...(next?.contextMode ? { contextMode: next.contextMode } : null),
+          ...(next?.sendImage !== undefined
+            ? { sendImage: next.sendImage }
+            : null),
+        });
+      },
+      [updateProps],
+    );
+
     const run = useCallback(async () => {
       if (!canRun) return;
 
+      // Checked first so the draft stays put when there is nothing to run on.
+      const scope = shape.props.limitToSelection
+        ? getSelectionScope(editor)
+        : undefined;
+      if (shape.props.limitToSelection && !scope) {
+        appendTurn(editor, shape.id, {
+          role: "agent",
+          text: "Select the shapes or frame to limit the agent to, or untick Limit.",
+          isError: true,
+          createdAt: Date.now(),
+        });
+        return;
+      }
+
       const message = draftMessage.trim();
-      updateProps({ message });
+      const history = shape.props.thread.map(toHistoryTurn);
+      const user = getAgentRunUser(editor);
+      updateProps({ message: "" });
+      appendTurn(editor, shape.id, {
+        role: "user",
+        text: message,
+        author: user.name,
+        createdAt: Date.now(),
+      });
 
       setIsRunning(true);
-      setNotes("");
-      setError("");
+      setProgress({ startedAt: Date.now(), chars: 0, applied: 0 });
+      const abort = new AbortController();
+      abortRef.current = abort;
+
+      const isPreview = shape.props.preview;
+      if (isPreview) startAgentPreview(shape.id, scope);
+      const actions: AgentAction[] = [];
+      const recorder = createAgentRunRecorder(editor, message, user, {
+        scope,
+      });
+
+      const onAction = (action: AgentAction) => {
+        actions.push(action);
+        if (isPreview) {
+          addAgentPreviewAction(shape.id, action);
+        } else {
+          recorder.apply([action]);
+        }
+        setProgress((p) => p && { ...p, applied: p.applied + 1 });
+      };
+      // Mermaid and PlantUML are drawn directly, without asking the model.
+      const diagram = parseDiagramText(message);
+      let logId: string | undefined;
+      let failure: string | undefined;
+      const getProblems = () => {
+        const problems = formatAgentApplyReport(recorder.getReport());
+        return problems.length ? problems : undefined;
+      };
 
       try {
-        const data = await runAgent(editor, {
-          message,
+        const agentNotes = diagram
+          ? importDiagram(editor, diagram, onAction)
+          : await runAgent(editor, {
+              promptId: shape.id,
+              contextMode: shape.props.contextMode,
+              sendImage: shape.props.sendImage,
+              message,
+              history,
+              user,
+              boardId: board?.id,
+              extraInstructions: preset?.instructions,
+              scope,
+              signal: abort.signal,
+              onStart: () =>
+                setActiveRun(editor, shape.id, {
+                  userId: user.id,
+                  userName: user.name,
+                  startedAt: Date.now(),
+                }),
+              onQueued: (queuePosition) =>
+                setProgress(
+                  (p) =>
+                    p && { ...p, queuePosition: queuePosition ?? undefined },
+                ),
+              onLogged: (runId) => {
+                logId = runId;
+              },
+              onAction,
+              onProgress: (chars) => setProgress((p) => p && { ...p, chars }),
+              onRepair: (repairAttempt) =>
+                setProgress((p) => p && { ...p, chars: 0, repairAttempt }),
+            });
+        if (isPreview && !getAgentPreview(shape.id)?.actions.length) {
+          clearAgentPreview(shape.id);
+        }
+        appendTurn(editor, shape.id, {
+          role: "agent",
+          text: agentNotes,
+          summary: isPreview
+            ? `Proposed ${actions.length} action(s) for preview`
+            : summarizeAgentActions(actions),
+          logId,
+          problems: getProblems(),
+          createdAt: Date.now(),
         });
-        applyAgentActions(editor, data.actions ?? []);
-        setNotes(data.notes ?? "");
       } catch (e) {
-        setError(e instanceof Error ? e.message : String(e));
+        if (isPreview) clearAgentPreview(shape.id);
+        const cancelled = abort.signal.aborted;
+        failure = cancelled
+          ? "Cancelled."
+          : e instanceof Error
+            ? e.message
+            : String(e);
+        appendTurn(editor, shape.id, {
+          role: "agent",
+          text: failure,
+          summary: actions.length ? summarizeAgentActions(actions) : undefined,
+          isError: !cancelled,
+          logId,
+          problems: getProblems(),
+          createdAt: Date.now(),
+        });
       } finally {
+        abortRef.current = null;
+        recorder.place(shape.props.placement);
+        const record = recorder.getRecord();
+        if (record) appendAgentRun(editor, shape.id, { ...record, logId });
+        // Deletions past the board's threshold wait in a preview for a yes.
+        const { held } = recorder.getReport();
+        if (held.length > 0) {
+          startAgentPreview(shape.id, scope);
+          for (const { index } of held) {
+            addAgentPreviewAction(shape.id, actions[index]);
+          }
+        }
+        if (logId) {
+          reportAgentRunResult(logId, {
+            applied: isPreview ? actions.length : recorder.getReport().applied,
+            summary: summarizeAgentActions(actions),
+            problems: getProblems(),
+            preview: isPreview || undefined,
+            userName: user.name,
+            error: failure,
+          });
+        }
+        const current = editor.getShape<AgentPromptShape>(shape.id);
+        if (current?.props.activeRun?.userId === user.id) {
+          setActiveRun(editor, shape.id, null);
+        }
         setIsRunning(false);
+        setProgress(null);
+      }
+    }, [
+      board?.id,
+      canRun,
+      draftMessage,
+      editor,
+      preset,
+      shape.id,
+      shape.props.contextMode,
+      shape.props.limitToSelection,
+      shape.props.placement,
+      shape.props.preview,
+      shape.props.sendImage,
+      shape.props.thread,
+      updateProps,
+    ]);
+
+    const acceptPreview = useCallback(() => {
+      const pending = getAgentPreview(shape.id);
+      if (!pending) return;
+      const prompt =
+        shape.props.thread.findLast((turn) => turn.role === "user")?.text ?? "";
+      // Accepting a preview is the confirmation the policy asks for.
+      const recorder = createAgentRunRecorder(
+        editor,
+        prompt,
+        getAgentRunUser(editor),
+        { scope: pending.scope, confirmed: true },
+      );
+      recorder.apply(getEnabledPreviewActions(pending));
+      recorder.place(shape.props.placement);
+      clearAgentPreview(shape.id);
+      const record = recorder.getRecord();
+      if (record) appendAgentRun(editor, shape.id, record);
+      const problems = formatAgentApplyReport(recorder.getReport());
+      if (problems.length) {
+        appendTurn(editor, shape.id, {
+          role: "agent",
+          text: "Some previewed actions could not be applied.",
+          problems,
+          createdAt: Date.now(),
+        });
       }
-    }, [canRun, draftMessage, editor, updateProps]);
+    }, [editor, shape.id, shape.props.placement, shape.props.thread]);
+
+    const revertRun = useCallback(
+      (run: AgentRunRecord) => {
+        const skipped = revertAgentRun(editor, run);
+        const current = editor.getShape<AgentPromptShape>(shape.id);
+        if (!current) return;
+        editor.updateShape<AgentPromptShape>({
+          id: shape.id,
+          type: "agent-prompt",
+          props: {
+            runs: current.props.runs.map((r) =>
+              r.id === run.id ? { ...r, revertedAt: Date.now() } : r,
+            ),
+          },
+        });
+        appendTurn(editor, shape.id, {
+          role: "agent",
+          text: `Reverted “${run.prompt}”.`,
+          summary: skipped
+            ? `${skipped} change(s) kept because they were edited since`
+            : undefined,
+          createdAt: Date.now(),
+        });
+      },
+      [editor, shape.id],
+    );
 
     return (
       <HTMLContainer
@@ -157,12 +641,289 @@ export class AgentPromptShapeUtil extends BaseBoxShapeUtil<AgentPromptShape> {
           <div className="text-xs font-bold text-zinc-900 dark:text-zinc-100">
             Agent
           </div>
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              title="The board's limits on what the agent may change"
+              onClick={() =>
+                setPanel((p) => (p === "policy" ? null : "policy"))
+              }
+              onPointerDown={stopEvent}
+              className={cn(
+                "text-xs text-zinc-600 hover:text-zinc-900 dark:text-zinc-300 dark:hover:text-zinc-100",
+                panel === "policy" &&
+                  "font-semibold text-zinc-900 dark:text-zinc-100",
+              )}
+            >
+              Safety
+            </button>
+            {shape.props.runs.length > 0 ? (
+              <button
+                type="button"
+                onClick={() => setPanel((p) => (p === "runs" ? null : "runs"))}
+                onPointerDown={stopEvent}
+                className={cn(
+                  "text-xs text-zinc-600 hover:text-zinc-900 dark:text-zinc-300 dark:hover:text-zinc-100",
+                  panel === "runs" &&
+                    "font-semibold text-zinc-900 dark:text-zinc-100",
+                )}
+              >
+                Runs ({shape.props.runs.length})
+              </button>
+            ) : null}
+            {turnCount > 0 ? (
+              <button
+                type="button"
+                disabled={isBusy}
+                onClick={() => updateProps({ thread: [] })}
+                onPointerDown={stopEvent}
+                className="text-xs text-zinc-600 hover:text-zinc-900 disabled:opacity-50 dark:text-zinc-300 dark:hover:text-zinc-100"
+              >
+                Clear
+              </button>
+            ) : null}
+            <select
+              title="Which shapes the agent can see"
+              value={shape.props.contextMode}
+              disabled={isBusy}
+              onChange={(e) =>
+                updateProps({
+                  contextMode: e.target.value as AgentContextMode,
+                })
+              }
+              onPointerDown={stopEvent}
+              className="rounded border border-black/10 bg-white px-1 py-0.5 text-xs text-zinc-700 dark:border-white/10 dark:bg-zinc-800 dark:text-zinc-200"
+            >
+              <option value="auto">Auto context</option>
+              <option value="selection">Selection</option>
+              <option value="viewport">Viewport</option>
+              <option value="nearby">Nearby</option>
+            </select>
+            <select
+              title="Where the agent's new shapes go"
+              value={shape.props.placement}
+              disabled={isBusy}
+              onChange={(e) =>
+                updateProps({
+                  placement: e.target.value as AgentPlacementMode,
+                })
+              }
+              onPointerDown={stopEvent}
+              className="rounded border border-black/10 bg-white px-1 py-0.5 text-xs text-zinc-700 dark:border-white/10 dark:bg-zinc-800 dark:text-zinc-200"
+            >
+              <option value="free-space">Free space</option>
+              <option value="frame">In a frame</option>
+              <option value="as-planned">As planned</option>
+            </select>
+            <label
+              title="Send a picture of the selection (or viewport) to vision-capable models"
+              onPointerDown={stopEvent}
+              className="flex cursor-pointer items-center gap-1.5 text-xs text-zinc-600 dark:text-zinc-300"
+            >
+              <input
+                type="checkbox"
+                checked={shape.props.sendImage}
+                disabled={isBusy}
+                onChange={(e) => updateProps({ sendImage: e.target.checked })}
+              />
+              Image
+            </label>
+            <label
+              onPointerDown={stopEvent}
+              className="flex cursor-pointer items-center gap-1.5 text-xs text-zinc-600 dark:text-zinc-300"
+            >
+              <input
+                type="checkbox"
+                checked={shape.props.preview}
+                disabled={isBusy}
+                onChange={(e) => updateProps({ preview: e.target.checked })}
+              />
+              Preview
+            </label>
+            <label
+              title="Only let the agent change shapes inside the selected shapes or frame"
+              onPointerDown={stopEvent}
+              className="flex cursor-pointer items-center gap-1.5 text-xs text-zinc-600 dark:text-zinc-300"
+            >
+              <input
+                type="checkbox"
+                checked={shape.props.limitToSelection}
+                disabled={isBusy}
+                onChange={(e) =>
+                  updateProps({ limitToSelection: e.target.checked })
+                }
+              />
+              Limit
+            </label>
+          </div>
         </div>
 
-        <div className="flex min-h-0 flex-1 flex-col gap-2 p-3">
+        {panel === "presets" ? (
+          <AgentPresetsPanel
+            copyFrom={preset}
+            onUse={(p) => {
+              applyPreset(p);
+              setPanel(null);
+            }}
+          />
+        ) : panel === "policy" ? (
+          <AgentPolicyPanel />
+        ) : panel === "runs" ? (
+          <ul
+            onPointerDown={stopEvent}
+            className="flex min-h-0 flex-1 flex-col gap-1 overflow-auto p-3 text-xs text-zinc-800 dark:text-zinc-200"
+          >
+            {shape.props.runs.toReversed().map((run) => (
+              <li
+                key={run.id}
+                className="flex items-center gap-2 rounded-lg border border-black/10 bg-white/70 px-2 py-1.5 dark:border-white/10 dark:bg-zinc-800/50"
+              >
+                <div className="min-w-0 flex-1">
+                  <div className="truncate" title={run.prompt}>
+                    {run.prompt}
+                  </div>
+                  <div className="text-[11px] opacity-70 tabular-nums">
+                    {new Date(run.createdAt).toLocaleTimeString()} ·{" "}
+                    {summarizeAgentRun(run)}
+                    {run.userName ? ` · ${run.userName}` : null}
+                  </div>
+                </div>
+                {run.logId ? (
+                  <button
+                    type="button"
+                    onClick={() => openAgentInspector(run.logId)}
+                    className="rounded-md border border-black/10 bg-white px-2 py-1 font-semibold hover:bg-zinc-100 dark:border-white/10 dark:bg-zinc-800 dark:hover:bg-zinc-700"
+                  >
+                    Inspect
+                  </button>
+                ) : null}
+                <button
+                  type="button"
+                  disabled={!!run.revertedAt || isBusy}
+                  onClick={() => revertRun(run)}
+                  className="rounded-md border border-black/10 bg-white px-2 py-1 font-semibold hover:bg-zinc-100 disabled:cursor-not-allowed disabled:opacity-50 dark:border-white/10 dark:bg-zinc-800 dark:hover:bg-zinc-700"
+                >
+                  {run.revertedAt ? "Reverted" : "Revert"}
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <div
+            onPointerDown={stopEvent}
+            className="flex min-h-0 flex-1 flex-col gap-2 overflow-auto p-3"
+          >
+            {turnCount === 0 ? (
+              <div className="m-auto text-center text-xs text-zinc-500 dark:text-zinc-400">
+                Ask the agent to draw or edit something on the canvas.
+              </div>
+            ) : null}
+            {shape.props.thread.map((turn) => (
+              <div
+                key={`${turn.role}-${turn.createdAt}`}
+                className={cn(
+                  "select-text! max-w-[85%] whitespace-pre-wrap rounded-lg border px-3 py-2 text-xs",
+                  turn.role === "user" &&
+                    "self-end border-black/10 bg-zinc-900 text-white dark:border-white/10 dark:bg-zinc-100 dark:text-zinc-900",
+                  turn.role === "agent" &&
+                    !turn.isError &&
+                    "self-start border-black/10 bg-white/70 text-zinc-800 dark:border-white/10 dark:bg-zinc-800/50 dark:text-zinc-200",
+                  turn.isError &&
+                    "self-start border-red-500/50 bg-red-50 text-red-700 dark:border-red-400/50 dark:bg-red-950/30 dark:text-red-200",
+                )}
+              >
+                {turn.author ? (
+                  <div className="mb-1 text-[11px] font-semibold opacity-70">
+                    {turn.author}
+                  </div>
+                ) : null}
+                {turn.text}
+                {turn.problems?.length ? (
+                  <ul className="mt-1 list-disc pl-4 text-[11px] text-amber-700 dark:text-amber-300">
+                    {turn.problems.map((problem) => (
+                      <li key={problem}>{problem}</li>
+                    ))}
+                  </ul>
+                ) : null}
+                {turn.summary || turn.logId ? (
+                  <div className="mt-1 flex items-center gap-2 text-[11px]">
+                    {turn.summary ? (
+                      <span className="opacity-70">{turn.summary}</span>
+                    ) : null}
+                    {turn.logId ? (
+                      <button
+                        type="button"
+                        onClick={() => openAgentInspector(turn.logId)}
+                        onPointerDown={stopEvent}
+                        className="ml-auto font-semibold underline opacity-70 hover:opacity-100"
+                      >
+                        Inspect
+                      </button>
+                    ) : null}
+                  </div>
+                ) : null}
+              </div>
+            ))}
+            <div ref={threadEndRef} />
+          </div>
+        )}
+
+        {preview && !isRunning ? (
+          <div
+            onPointerDown={stopEvent}
+            className="mx-3 mb-2 flex max-h-40 flex-col gap-2 rounded-lg border border-blue-500/40 bg-blue-50/70 p-2 text-xs text-zinc-800 dark:border-blue-400/40 dark:bg-blue-950/30 dark:text-zinc-200"
+          >
+            <ul className="min-h-0 flex-1 overflow-auto">
+              {preview.actions.map((action, i) => (
+                // Preview actions are append-only, so the index is stable.
+                // biome-ignore lint/suspicious/noArrayIndexKey: see above
+                <li key={i}>
+                  <label className="flex cursor-pointer items-center gap-1.5">
+                    <input
+                      type="checkbox"
+                      checked={preview.enabled[i]}
+                      onChange={() => toggleAgentPreviewAction(shape.id, i)}
+                    />
+                    <span
+                      className={cn(
+                        action._type === "delete_shape" &&
+                          "text-red-700 dark:text-red-300",
+                      )}
+                    >
+                      {describeAgentAction(action)}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => clearAgentPreview(shape.id)}
+                className="rounded-md border border-black/10 bg-white px-3 py-1 font-semibold hover:bg-zinc-100 dark:border-white/10 dark:bg-zinc-800 dark:hover:bg-zinc-700"
+              >
+                Reject
+              </button>
+              <button
+                type="button"
+                onClick={acceptPreview}
+                className="rounded-md border border-black/10 bg-zinc-900 px-3 py-1 font-semibold text-white hover:bg-zinc-800 dark:border-white/10 dark:bg-zinc-100 dark:text-zinc-900 dark:hover:bg-zinc-200"
+              >
+                Accept {getEnabledPreviewActions(preview).length}
+              </button>
+            </div>
+          </div>
+        ) : null}
+
+        <div className="flex flex-col gap-2 border-t border-black/10 p-3 dark:border-white/10">
           <textarea
             value={draftMessage}
-            placeholder='e.g. "Draw a simple system diagram with 3 boxes and arrows"'
+            rows={3}
+            placeholder={
+              turnCount === 0
+                ? 'e.g. "Draw a simple system diagram with 3 boxes and arrows"'
+                : 'e.g. "Make the boxes bigger"'
+            }
             onChange={(e) => setDraftMessage(e.target.value)}
             onBlur={() => updateProps({ message: draftMessage })}
             onPointerDown={stopEvent}
@@ -170,12 +931,68 @@ export class AgentPromptShapeUtil extends BaseBoxShapeUtil<AgentPromptShape> {
             onKeyUpCapture={stopEvent}
             onKeyDown={stopEvent}
             className={cn(
-              "select-text min-h-0 w-full flex-1 resize-none rounded-lg border border-black/10 bg-white px-3 py-2 text-sm leading-snug text-zinc-900 outline-none placeholder:text-zinc-500/80 focus:border-zinc-400 focus:ring-2 focus:ring-black/10 dark:border-white/10 dark:bg-zinc-800/60 dark:text-zinc-100 dark:placeholder:text-zinc-400/80 dark:focus:border-zinc-400/60 dark:focus:ring-white/10",
+              "select-text w-full resize-none rounded-lg border border-black/10 bg-white px-3 py-2 text-sm leading-snug text-zinc-900 outline-none placeholder:text-zinc-500/80 focus:border-zinc-400 focus:ring-2 focus:ring-black/10 dark:border-white/10 dark:bg-zinc-800/60 dark:text-zinc-100 dark:placeholder:text-zinc-400/80 dark:focus:border-zinc-400/60 dark:focus:ring-white/10",
               "[&::-webkit-scrollbar]:w-2 [&::-webkit-scrollbar]:[-webkit-appearance:none] [&::-webkit-scrollbar-thumb]:rounded [&::-webkit-scrollbar-thumb]:bg-zinc-600/50 [&::-webkit-scrollbar-thumb]:shadow-sm [&::-webkit-scrollbar-thumb]:dark:bg-zinc-400/50",
             )}
           />
 
-          <div className="flex justify-end">
+          <div className="flex items-center justify-end gap-3">
+            <select
+              title={preset?.instructions || "Conventions sent with every run"}
+              value={shape.props.presetId ?? ""}
+              disabled={isBusy}
+              onChange={(e) => {
+                if (e.target.value === MANAGE_PRESETS) {
+                  setPanel("presets");
+                  return;
+                }
+                applyPreset(findAgentPreset(editor, e.target.value) ?? null);
+              }}
+              onPointerDown={stopEvent}
+              className="mr-auto min-w-0 max-w-40 truncate rounded border border-black/10 bg-white px-1 py-0.5 text-xs text-zinc-700 dark:border-white/10 dark:bg-zinc-800 dark:text-zinc-200"
+            >
+              <option value="">No preset</option>
+              {BUILT_IN_AGENT_PRESETS.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+              {boardPresets.length > 0 ? (
+                <optgroup label="This board">
+                  {boardPresets.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </optgroup>
+              ) : null}
+              <option value={MANAGE_PRESETS}>Board presets…</option>
+            </select>
+            {progress ? (
+              <div className="text-xs text-zinc-600 tabular-nums dark:text-zinc-300">
+                {progress.queuePosition
+                  ? `Queued (#${progress.queuePosition}) · `
+                  : progress.repairAttempt
+                    ? `Repairing plan (attempt ${progress.repairAttempt}) · `
+                    : null}
+                {progress.queuePosition
+                  ? null
+                  : progress.chars > 0
+                    ? `${progress.chars} chars · ${progress.applied} applied · `
+                    : "Waiting for agent… · "}
+                {formatElapsed(Date.now() - progress.startedAt)}
+              </div>
+            ) : null}
+            {isRunning ? (
+              <button
+                type="button"
+                onClick={() => abortRef.current?.abort()}
+                onPointerDown={stopEvent}
+                className="rounded-lg border border-black/10 bg-white px-4 py-2 text-sm font-semibold text-zinc-800 transition hover:bg-zinc-100 dark:border-white/10 dark:bg-zinc-800 dark:text-zinc-100 dark:hover:bg-zinc-700"
+              >
+                Cancel
+              </button>
+            ) : null}
             <button
               type="button"
               disabled={!canRun}
@@ -189,27 +1006,15 @@ export class AgentPromptShapeUtil extends BaseBoxShapeUtil<AgentPromptShape> {
                   "cursor-not-allowed border-black/10 bg-zinc-400/40 text-white/90 dark:border-white/10 dark:bg-white/10 dark:text-white/70",
               )}
             >
-              {isRunning ? "Running…" : "Run"}
+              {isRunning
+                ? "Running…"
+                : runningUser
+                  ? `${runningUser} is running…`
+                  : turnCount > 0
+                    ? "Send"
+                    : "Run"}
             </button>
           </div>
-
-          {notes ? (
-            <div
-              onPointerDown={stopEvent}
-              className="select-text! max-h-28 overflow-auto whitespace-pre-wrap rounded-lg border border-black/10 bg-white/70 p-3 text-xs text-zinc-800 dark:border-white/10 dark:bg-zinc-800/50 dark:text-zinc-200"
-            >
-              {notes}
-            </div>
-          ) : null}
-
-          {error ? (
-            <div
-              onPointerDown={stopEvent}
-              className="max-h-28 overflow-auto whitespace-pre-wrap rounded-lg border border-red-500/50 bg-red-50 p-3 text-xs text-red-700 dark:border-red-400/50 dark:bg-red-950/30 dark:text-red-200"
-            >
-              {error}
-            </div>
-          ) : null}
         </div>
       </HTMLContainer>
     );
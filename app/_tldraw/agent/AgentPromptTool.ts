@@ -1,10 +1,10 @@
-import { BaseBoxShapeTool, type TLShape } from "@tldraw/editor";
+import { BaseBoxShapeTool, type TLShape } from "tldraw";
 
 export class AgentPromptTool extends BaseBoxShapeTool {
   static override id = "agent-prompt";
   static override initial = "idle";
 
-  override shapeType = "agent-prompt";
+  override shapeType = "agent-prompt" as const;
 
   override onCreate(shape: TLShape | null): void {
     if (!shape) return;
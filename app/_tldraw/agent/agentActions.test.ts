@@ -0,0 +1,94 @@
+// Must come first: tldraw needs the DOM globals as soon as it loads.
+import "@/app/_headless/dom";
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { createShapeId, type Editor } from "tldraw";
+import { createHeadlessEditor } from "@/app/_headless/executor";
+import { applyAgentActions } from "./agentActions";
+import { createAgentPolicyGuard, getBoardPolicy } from "./agentPolicy";
+
+let editor: Editor;
+beforeEach(() => {
+  editor = createHeadlessEditor();
+  applyAgentActions(editor, [
+    {
+      _type: "create_shape",
+      shape: { kind: "geo", id: "a", geo: "rectangle", x: 0, y: 0 },
+    },
+    {
+      _type: "create_shape",
+      shape: { kind: "geo", id: "b", geo: "ellipse", x: 300, y: 0 },
+    },
+  ]);
+  editor.setCurrentTool("draw");
+});
+afterEach(() => {
+  editor.dispose();
+});
+
+test("group and ungroup work whatever tool is active", () => {
+  const grouped = applyAgentActions(editor, [
+    { _type: "group", ids: ["a", "b"], id: "g1" },
+  ]);
+  expect(grouped.applied).toBe(1);
+  expect(editor.getShape(createShapeId("a"))?.parentId).toBe(
+    createShapeId("g1"),
+  );
+
+  const ungrouped = applyAgentActions(editor, [
+    { _type: "ungroup", ids: ["g1"] },
+  ]);
+  expect(ungrouped.applied).toBe(1);
+  expect(editor.getShape(createShapeId("g1"))).toBeUndefined();
+  expect(editor.getShape(createShapeId("a"))?.parentId).toBe(
+    editor.getCurrentPageId(),
+  );
+  expect(editor.getCurrentToolId()).toBe("draw");
+});
+
+test("a group that cannot be made is rejected", () => {
+  const report = applyAgentActions(editor, [
+    { _type: "group", ids: ["a"], id: "g1" },
+    { _type: "ungroup", ids: ["a"] },
+  ]);
+  expect(report.applied).toBe(0);
+  expect(report.rejected.map((entry) => entry.type)).toEqual([
+    "group",
+    "ungroup",
+  ]);
+  expect(editor.getShape(createShapeId("g1"))).toBeUndefined();
+});
+
+test("shapes cannot be moved into a locked frame", () => {
+  applyAgentActions(editor, [
+    {
+      _type: "create_shape",
+      shape: { kind: "frame", id: "f1", x: 0, y: 300, w: 400, h: 300 },
+    },
+  ]);
+  editor.updateShape({
+    id: createShapeId("f1"),
+    type: "frame",
+    isLocked: true,
+  });
+  const guard = createAgentPolicyGuard(editor, {
+    policy: getBoardPolicy(editor),
+  });
+
+  const report = applyAgentActions(
+    editor,
+    [{ _type: "reparent", ids: ["a"], parentId: "f1" }],
+    { guard },
+  );
+  expect(report.blocked.map((entry) => entry.type)).toEqual(["reparent"]);
+  expect(editor.getShape(createShapeId("a"))?.parentId).toBe(
+    editor.getCurrentPageId(),
+  );
+  // Changes that end up inside it are caught as well.
+  const diff = editor.store.extractingChanges(() => {
+    editor.run(
+      () => editor.reparentShapes([createShapeId("b")], createShapeId("f1")),
+      { ignoreShapeLock: true },
+    );
+  });
+  expect(() => guard.checkChanges(diff)).toThrow("locked");
+});
@@ -1,8 +1,44 @@
-import type { Editor, TLArrowBinding, TLShapeId } from "tldraw";
-import { createShapeId, toRichText } from "tldraw";
-import { MAX_SHAPES_FOR_AGENT } from "@/app/_constants/agent";
+import type {
+  Editor,
+  RecordsDiff,
+  TLArrowBinding,
+  TLArrowShapeArrowheadStyle,
+  TLDefaultColorStyle,
+  TLDefaultDashStyle,
+  TLDefaultFillStyle,
+  TLDefaultFontStyle,
+  TLDefaultSizeStyle,
+  TLDefaultTextAlignStyle,
+  TLDefaultVerticalAlignStyle,
+  TLGeoShapeGeoStyle,
+  TLLineShapeSplineStyle,
+  TLRecord,
+  TLShape,
+  TLShapeId,
+} from "tldraw";
+import {
+  AssetRecordType,
+  Box,
+  b64Vecs,
+  createShapeId,
+  DEFAULT_EMBED_DEFINITIONS,
+  getEmbedInfo,
+  getHashForString,
+  getIndicesAbove,
+  reverseRecordsDiff,
+  sortByIndex,
+  toRichText,
+  Vec,
+} from "tldraw";
+import type { LayoutDirection } from "@/app/_agent/layout";
+import {
+  applyLayoutMoves,
+  getGraphActions,
+  getLayoutMoves,
+} from "./agentLayout";
+import { AgentPolicyError, type AgentPolicyGuard } from "./agentPolicy";
 
-type AgentArrowBinding = {
+export type AgentArrowBinding = {
   terminal: TLArrowBinding["props"]["terminal"];
   /** The id of the shape this arrow terminal is bound to. */
   toId: string;
@@ -17,53 +53,185 @@ export type AgentResponse = {
   notes: string;
 };
 
+/**
+ * Styles every `create_shape` kind accepts. Each is applied where the created
+ * shape has a matching prop (e.g. `fill` on geo shapes, `arrowheadEnd` on
+ * arrows) and ignored elsewhere.
+ */
+export type AgentShapeStyle = {
+  color?: TLDefaultColorStyle;
+  fill?: TLDefaultFillStyle;
+  dash?: TLDefaultDashStyle;
+  size?: TLDefaultSizeStyle;
+  font?: TLDefaultFontStyle;
+  /** Horizontal text alignment (`textAlign` on text shapes). */
+  align?: TLDefaultTextAlignStyle;
+  verticalAlign?: TLDefaultVerticalAlignStyle;
+  arrowheadStart?: TLArrowShapeArrowheadStyle;
+  arrowheadEnd?: TLArrowShapeArrowheadStyle;
+};
+
+export type AgentShape = AgentShapeStyle & {
+  /**
+   * Makes the shape's coordinates relative to the top-left corner of another
+   * shape: one on the canvas, one created earlier in the plan, or (as
+   * `prompt`) the prompt shape the run came from.
+   */
+  anchor?: string;
+} & (
+    | {
+        kind: "geo";
+        /** Optional stable id (lets later actions reference this shape). */
+        id?: string;
+        geo: TLGeoShapeGeoStyle;
+        x: number;
+        y: number;
+        w?: number;
+        h?: number;
+        label?: string;
+      }
+    | {
+        kind: "text";
+        /** Optional stable id (lets later actions reference this shape). */
+        id?: string;
+        x: number;
+        y: number;
+        w?: number;
+        text: string;
+      }
+    | {
+        kind: "arrow";
+        /** Optional stable id (lets later actions reference this shape). */
+        id?: string;
+        start: { x: number; y: number };
+        end: { x: number; y: number };
+        label?: string;
+        /**
+         * Optional tldraw-style bindings for arrow terminals.
+         * Each binding corresponds to a TLArrowBinding record (type: "arrow").
+         */
+        bindings?: AgentArrowBinding[];
+      }
+    | {
+        /** A sticky note. */
+        kind: "note";
+        /** Optional stable id (lets later actions reference this shape). */
+        id?: string;
+        x: number;
+        y: number;
+        text?: string;
+      }
+    | {
+        kind: "frame";
+        /** Optional stable id (lets later actions reference this shape). */
+        id?: string;
+        x: number;
+        y: number;
+        w: number;
+        h: number;
+        name?: string;
+        /**
+         * Ids of shapes to move into the frame: existing shapes, or shapes
+         * created earlier in the same plan. They keep their page position.
+         */
+        children?: string[];
+      }
+    | {
+        /** A straight line or polyline through `points` (page coordinates). */
+        kind: "line";
+        /** Optional stable id (lets later actions reference this shape). */
+        id?: string;
+        points: { x: number; y: number }[];
+        /** `cubic` draws a smooth curve through the points. */
+        spline?: TLLineShapeSplineStyle;
+      }
+    | {
+        /** A highlighter stroke through `points` (page coordinates). */
+        kind: "highlight";
+        /** Optional stable id (lets later actions reference this shape). */
+        id?: string;
+        points: { x: number; y: number }[];
+      }
+    | {
+        /**
+         * An interactive embed (YouTube, Figma, Google Maps, ...). URLs tldraw
+         * can't embed become bookmarks instead.
+         */
+        kind: "embed";
+        /** Optional stable id (lets later actions reference this shape). */
+        id?: string;
+        url: string;
+        x: number;
+        y: number;
+        w?: number;
+        h?: number;
+      }
+    | {
+        /** A link card showing the page's title, description and image. */
+        kind: "bookmark";
+        /** Optional stable id (lets later actions reference this shape). */
+        id?: string;
+        url: string;
+        x: number;
+        y: number;
+        w?: number;
+      }
+  );
+
+/** A node of a `create_graph` diagram; becomes a geo shape with id `id`. */
+export type AgentGraphNode = AgentShapeStyle & {
+  id: string;
+  label?: string;
+  /** Defaults to `rectangle`. */
+  geo?: TLGeoShapeGeoStyle;
+  /** Sizes are estimated from the label when omitted. */
+  w?: number;
+  h?: number;
+};
+
+/** An edge of a `create_graph` diagram; becomes an arrow bound to both nodes. */
+export type AgentGraphEdge = AgentShapeStyle & {
+  /** Optional stable id (lets later actions reference this arrow). */
+  id?: string;
+  from: string;
+  to: string;
+  label?: string;
+};
+
+/** Which side of a shape a `connect` arrow leaves or enters by. */
+export type AgentConnectSide = "top" | "right" | "bottom" | "left";
+
 export type AgentAction =
+  | { _type: "create_shape"; shape: AgentShape }
+  | (AgentShapeStyle & {
+      /**
+       * An arrow bound to two existing shapes. Its ends are worked out from
+       * the shapes' bounds, and follow the shapes when they move.
+       */
+      _type: "connect";
+      /** Optional stable id for the arrow. */
+      id?: string;
+      fromId: string;
+      toId: string;
+      label?: string;
+      /** Pin an end to the middle of a side; otherwise it aims at the centre. */
+      fromSide?: AgentConnectSide;
+      toSide?: AgentConnectSide;
+    })
   | {
-      _type: "create_shape";
-      shape:
-        | {
-            kind: "geo";
-            /** Optional stable id (lets later actions reference this shape). */
-            id?: string;
-            geo:
-              | "rectangle"
-              | "ellipse"
-              | "triangle"
-              | "diamond"
-              | "cloud"
-              | "hexagon"
-              | "star";
-            x: number;
-            y: number;
-            w?: number;
-            h?: number;
-            label?: string;
-            color?: string;
-          }
-        | {
-            kind: "text";
-            /** Optional stable id (lets later actions reference this shape). */
-            id?: string;
-            x: number;
-            y: number;
-            w?: number;
-            text: string;
-            color?: string;
-          }
-        | {
-            kind: "arrow";
-            /** Optional stable id (lets later actions reference this shape). */
-            id?: string;
-            start: { x: number; y: number };
-            end: { x: number; y: number };
-            color?: string;
-            label?: string;
-            /**
-             * Optional tldraw-style bindings for arrow terminals.
-             * Each binding corresponds to a TLArrowBinding record (type: "arrow").
-             */
-            bindings?: AgentArrowBinding[];
-          };
+      /** A diagram given as topology only; positions come from `layoutGraph`. */
+      _type: "create_graph";
+      nodes: AgentGraphNode[];
+      edges?: AgentGraphEdge[];
+      direction?: LayoutDirection;
+      /** Top-left corner of the diagram; defaults to just right of the page's content. */
+      origin?: { x: number; y: number };
+    }
+  | {
+      /** Re-lays out existing shapes, and the arrows between them, as a graph. */
+      _type: "layout";
+      ids: string[];
+      direction?: LayoutDirection;
     }
   | {
       _type: "update_shape";
@@ -71,237 +239,942 @@ export type AgentAction =
       patch: { x?: number; y?: number; props?: object };
     }
   | { _type: "delete_shape"; id: string }
-  | { _type: "select"; ids: string[] };
+  | { _type: "select"; ids: string[] }
+  | {
+      _type: "group";
+      ids: string[];
+      /** Optional stable id for the new group. */
+      id?: string;
+    }
+  | { _type: "ungroup"; ids: string[] }
+  | {
+      _type: "reparent";
+      ids: string[];
+      /** A frame or group; omit to move the shapes back onto the page. */
+      parentId?: string;
+    }
+  | {
+      _type: "align";
+      ids: string[];
+      alignment:
+        | "left"
+        | "center-horizontal"
+        | "right"
+        | "top"
+        | "center-vertical"
+        | "bottom";
+    }
+  | {
+      _type: "distribute";
+      ids: string[];
+      direction: "horizontal" | "vertical";
+    }
+  | {
+      _type: "stack";
+      ids: string[];
+      direction: "horizontal" | "vertical";
+      /** Space between shapes; defaults to tldraw's usual margin. */
+      gap?: number;
+    }
+  | {
+      /** Changes the shapes' z-order. */
+      _type: "reorder";
+      ids: string[];
+      order: "front" | "forward" | "backward" | "back";
+    }
+  | {
+      /** Copies get fresh ids, so later actions can't refer to them. */
+      _type: "duplicate";
+      ids: string[];
+      offset?: { x: number; y: number };
+    };
 
-function isObject(value: unknown): value is Record<string, unknown> {
-  return !!value && typeof value === "object" && !Array.isArray(value);
-}
+/** Short summary of what a run did, e.g. "Created 3 shapes, deleted 1". */
+export function summarizeAgentActions(actions: AgentAction[]): string {
+  let created = 0;
+  let updated = 0;
+  let deleted = 0;
+  let arranged = 0;
+  for (const action of actions) {
+    if (action._type === "create_shape" || action._type === "connect") {
+      created++;
+    } else if (action._type === "create_graph") {
+      created += action.nodes.length + (action.edges?.length ?? 0);
+    } else if (action._type === "duplicate") created += action.ids.length;
+    else if (action._type === "update_shape") updated++;
+    else if (action._type === "delete_shape") deleted++;
+    else if (action._type !== "select") arranged++;
+  }
 
-export function getCanvasStateForAgent(
-  editor: Editor,
-  opts?: { excludeTypes?: string[] },
-) {
-  const exclude = new Set(opts?.excludeTypes ?? []);
-  const shapes = editor
-    .getCurrentPageShapes()
-    .filter((s) => !exclude.has(s.type));
-
-  return shapes.slice(0, MAX_SHAPES_FOR_AGENT).map((shape) => {
-    const base = {
-      id: shape.id,
-      type: shape.type,
-      x: shape.x,
-      y: shape.y,
-      props: isObject(shape.props) ? shape.props : {},
-    };
+  const parts = [
+    created && `created ${created} shape${created === 1 ? "" : "s"}`,
+    updated && `updated ${updated}`,
+    deleted && `deleted ${deleted}`,
+    arranged && `made ${arranged} layout change${arranged === 1 ? "" : "s"}`,
+  ].filter(Boolean);
+  if (parts.length === 0) return "No changes";
+  const summary = parts.join(", ");
+  return summary[0].toUpperCase() + summary.slice(1);
+}
 
-    if (shape.type !== "arrow") return base;
-
-    // Include arrow bindings so the agent can describe / edit connections using tldraw's model.
-    const bindings = editor
-      .getBindingsFromShape<TLArrowBinding>(shape.id, "arrow")
-      .map(
-        (b) =>
-          ({
-            terminal: b.props.terminal,
-            toId: b.toId,
-            normalizedAnchor: b.props.normalizedAnchor,
-            isExact: b.props.isExact,
-            isPrecise: b.props.isPrecise,
-          }) satisfies AgentArrowBinding,
-      );
+/** What became of a plan's actions; see `applyAgentActions`. */
+export type AgentApplyReport = {
+  /** Actions that changed the board, fully or in part. */
+  applied: number;
+  /**
+   * Actions, or the ids within them, left out because they name shapes that
+   * don't exist. Actions with nothing left to do don't count as applied.
+   */
+  skipped: {
+    index: number;
+    type: AgentAction["_type"];
+    missingIds: string[];
+  }[];
+  /** Actions tldraw refused, e.g. for invalid props. Nothing of them is kept. */
+  rejected: { index: number; type: AgentAction["_type"]; reason: string }[];
+  /** Actions the board's agent policy forbids, e.g. moving a locked shape. */
+  blocked: { index: number; type: AgentAction["_type"]; reason: string }[];
+  /** Deletions past the policy's threshold, not applied until confirmed. */
+  held: { index: number; type: AgentAction["_type"]; reason: string }[];
+  /** Arrow ends left loose because their target is missing or a prompt shape. */
+  droppedBindings: {
+    index: number;
+    toId: string;
+    reason: "missing" | "agent-prompt";
+  }[];
+};
 
-    return {
-      ...base,
-      bindings,
-    };
-  });
+export function createAgentApplyReport(): AgentApplyReport {
+  return {
+    applied: 0,
+    skipped: [],
+    rejected: [],
+    blocked: [],
+    held: [],
+    droppedBindings: [],
+  };
 }
 
-function toShapeId(id: string): TLShapeId {
-  return id as TLShapeId;
+/** One line per problem in `report`, for showing next to the agent's notes. */
+export function formatAgentApplyReport(report: AgentApplyReport): string[] {
+  const ids = (list: string[]) => list.map((id) => `"${id}"`).join(", ");
+  const lines: [number, string][] = [
+    ...report.skipped.map(({ index, type, missingIds }): [number, string] => [
+      index,
+      `Action ${index + 1} (${type}): no shape ${ids(missingIds)}`,
+    ]),
+    ...report.rejected.map(({ index, type, reason }): [number, string] => [
+      index,
+      `Action ${index + 1} (${type}) failed: ${reason}`,
+    ]),
+    ...report.blocked.map(({ index, type, reason }): [number, string] => [
+      index,
+      `Action ${index + 1} (${type}) blocked: ${reason}`,
+    ]),
+    ...report.held.map(({ index, type, reason }): [number, string] => [
+      index,
+      `Action ${index + 1} (${type}) needs confirmation: ${reason}`,
+    ]),
+    ...report.droppedBindings.map(
+      ({ index, toId, reason }): [number, string] => [
+        index,
+        `Action ${index + 1}: arrow not attached to "${toId}" (${
+          reason === "missing" ? "no such shape" : "prompt shapes can't be"
+        })`,
+      ],
+    ),
+  ];
+  // In plan order, which is how people read the plan.
+  return lines.sort(([a], [b]) => a - b).map(([, line]) => line);
 }
 
+/** What one action ran into while being applied. */
+type ActionTrace = {
+  missingIds: string[];
+  droppedBindings: { toId: string; reason: "missing" | "agent-prompt" }[];
+};
+
 function ensureShapeId(id: string): TLShapeId {
   if (id.startsWith("shape:")) return id as TLShapeId;
   return createShapeId(id);
 }
 
+/** Resolves plan ids to shapes that exist, noting the rest in `trace`. */
+function getExistingShapeIds(
+  editor: Editor,
+  ids: string[],
+  trace: ActionTrace,
+): TLShapeId[] {
+  const existing: TLShapeId[] = [];
+  for (const id of ids) {
+    const shapeId = ensureShapeId(id);
+    if (editor.getShape(shapeId)) existing.push(shapeId);
+    else trace.missingIds.push(id);
+  }
+  return existing;
+}
+
 function clamp(n: number) {
   return Math.min(1, Math.max(0, n));
 }
 
-function getNormalizedAnchorFromPoint(
+/**
+ * Where an arrow terminal given as a page point sits on its target. A point
+ * outside the target says nothing useful about where on it the arrow should
+ * land, so such terminals aim imprecisely at the centre instead of being
+ * clamped onto the nearest edge.
+ */
+function getAnchorFromPoint(
   editor: Editor,
   targetId: TLShapeId,
   pagePoint: { x: number; y: number },
-): { x: number; y: number } {
+): { normalizedAnchor: { x: number; y: number }; isPrecise?: boolean } {
   const bounds = editor.getShapePageBounds(targetId);
-  if (!bounds || bounds.w === 0 || bounds.h === 0) return { x: 0.5, y: 0.5 };
+  if (!bounds || bounds.w === 0 || bounds.h === 0) {
+    return { normalizedAnchor: { x: 0.5, y: 0.5 } };
+  }
+  if (!bounds.containsPoint(pagePoint)) {
+    return { normalizedAnchor: { x: 0.5, y: 0.5 }, isPrecise: false };
+  }
   return {
-    x: clamp((pagePoint.x - bounds.x) / bounds.w),
-    y: clamp((pagePoint.y - bounds.y) / bounds.h),
+    normalizedAnchor: {
+      x: clamp((pagePoint.x - bounds.x) / bounds.w),
+      y: clamp((pagePoint.y - bounds.y) / bounds.h),
+    },
   };
 }
 
-export function applyAgentActions(editor: Editor, actions: AgentAction[]) {
-  editor.run(() => {
-    for (const action of actions) {
-      if (action._type === "create_shape") {
-        if (action.shape.kind === "geo") {
-          const id = action.shape.id
-            ? ensureShapeId(action.shape.id)
-            : createShapeId();
-          editor.createShape({
-            id,
-            type: "geo",
-            x: action.shape.x,
-            y: action.shape.y,
-            props: {
-              geo: action.shape.geo,
-              w: action.shape.w ?? 220,
-              h: action.shape.h ?? 140,
-              color: action.shape.color ?? "black",
-              fill: "none",
-              dash: "draw",
-              size: "m",
-              font: "draw",
-              align: "middle",
-              verticalAlign: "middle",
-              richText: toRichText(action.shape.label ?? ""),
-              labelColor: action.shape.color ?? "black",
-            },
-          });
-          continue;
-        }
+const SIDE_ANCHORS: Record<AgentConnectSide, { x: number; y: number }> = {
+  top: { x: 0.5, y: 0 },
+  right: { x: 1, y: 0.5 },
+  bottom: { x: 0.5, y: 1 },
+  left: { x: 0, y: 0.5 },
+};
+
+/** Where the segment from `bounds`' centre towards `toward` leaves `bounds`. */
+function getEdgePoint(bounds: Box, toward: Vec): Vec {
+  const { center } = bounds;
+  const delta = Vec.Sub(toward, center);
+  const scale = Math.min(
+    delta.x ? bounds.w / 2 / Math.abs(delta.x) : Number.POSITIVE_INFINITY,
+    delta.y ? bounds.h / 2 / Math.abs(delta.y) : Number.POSITIVE_INFINITY,
+  );
+  if (!Number.isFinite(scale) || scale >= 1) return center;
+  return Vec.Add(center, Vec.Mul(delta, scale));
+}
+
+/**
+ * Turns a `connect` action into the arrow it creates: ends on the shapes'
+ * edges (or the middle of the requested sides) and bindings to both shapes.
+ * Ends without a side bind imprecisely, so tldraw keeps them pointed at the
+ * shapes' centres as they move. Returns `undefined` if either shape is
+ * missing.
+ */
+export function getConnectArrow(
+  editor: Editor,
+  action: Extract<AgentAction, { _type: "connect" }>,
+): Extract<AgentShape, { kind: "arrow" }> | undefined {
+  const { _type, id, fromId, toId, label, fromSide, toSide, ...style } = action;
+  const fromBounds = editor.getShapePageBounds(ensureShapeId(fromId));
+  const toBounds = editor.getShapePageBounds(ensureShapeId(toId));
+  if (!fromBounds || !toBounds) return undefined;
+
+  const getPoint = (bounds: Box, other: Box, side?: AgentConnectSide) => {
+    if (!side) return getEdgePoint(bounds, other.center);
+    const anchor = SIDE_ANCHORS[side];
+    return new Vec(
+      bounds.x + anchor.x * bounds.w,
+      bounds.y + anchor.y * bounds.h,
+    );
+  };
+  const getBinding = (
+    terminal: "start" | "end",
+    shapeId: string,
+    side?: AgentConnectSide,
+  ): AgentArrowBinding => ({
+    terminal,
+    toId: shapeId,
+    normalizedAnchor: side ? SIDE_ANCHORS[side] : { x: 0.5, y: 0.5 },
+    isPrecise: !!side,
+  });
+
+  return {
+    ...style,
+    kind: "arrow",
+    id,
+    start: getPoint(fromBounds, toBounds, fromSide).toJson(),
+    end: getPoint(toBounds, fromBounds, toSide).toJson(),
+    label,
+    bindings: [
+      getBinding("start", fromId, fromSide),
+      getBinding("end", toId, toSide),
+    ],
+  };
+}
+
+/**
+ * The agent sees rich text flattened to a plain `text` prop (see
+ * `createAgentSerializer`) and edits it the same way; turn it back into
+ * `richText` for shapes that have it.
+ */
+function getPropsPatch(
+  shape: TLShape,
+  props: object | undefined,
+): Record<string, unknown> | undefined {
+  if (!props || typeof props !== "object") return undefined;
+  const { text, ...rest } = props as Record<string, unknown>;
+  if (typeof text === "string" && "richText" in shape.props) {
+    return { ...rest, richText: toRichText(text) };
+  }
+  return props as Record<string, unknown>;
+}
+
+const AGENT_STYLE_KEYS = [
+  "color",
+  "fill",
+  "dash",
+  "size",
+  "font",
+  "align",
+  "verticalAlign",
+  "arrowheadStart",
+  "arrowheadEnd",
+] as const satisfies (keyof AgentShapeStyle)[];
+
+/** What the agent's shapes look like unless the plan says otherwise. */
+const DEFAULT_AGENT_STYLE: AgentShapeStyle = {
+  color: "black",
+  fill: "none",
+  dash: "draw",
+  size: "m",
+  font: "draw",
+};
+
+const DEFAULT_AGENT_STYLE_BY_KIND: Partial<
+  Record<AgentShape["kind"], AgentShapeStyle>
+> = {
+  note: { color: "yellow" },
+  highlight: { color: "yellow" },
+};
+
+/**
+ * Maps an `AgentShapeStyle` onto the style props shapes of `type` actually
+ * have. Geo and arrow labels take the shape's color.
+ */
+function getStyleProps(
+  editor: Editor,
+  type: TLShape["type"],
+  shape: AgentShape,
+): Record<string, unknown> {
+  const defaults = editor.getShapeUtil(type).getDefaultProps() as Record<
+    string,
+    unknown
+  >;
+  const fallback = {
+    ...DEFAULT_AGENT_STYLE,
+    ...DEFAULT_AGENT_STYLE_BY_KIND[shape.kind],
+  };
+
+  const props: Record<string, unknown> = {};
+  for (const key of AGENT_STYLE_KEYS) {
+    const value = shape[key] ?? fallback[key];
+    const prop = key === "align" && type === "text" ? "textAlign" : key;
+    if (value !== undefined && prop in defaults) props[prop] = value;
+  }
+  // Notes keep dark text on their colored background.
+  if ((type === "geo" || type === "arrow") && props.color) {
+    props.labelColor = props.color;
+  }
+  return props;
+}
+
+/** Splits page-space points into a shape position and points relative to it. */
+function toLocalPoints(points: { x: number; y: number }[]) {
+  const origin = points[0];
+  return {
+    x: origin.x,
+    y: origin.y,
+    points: points.map((p) => ({ x: p.x - origin.x, y: p.y - origin.y })),
+  };
+}
+
+/** `shape` moved by `offset`, whichever way its kind gives its position. */
+function offsetAgentShape(
+  shape: AgentShape,
+  offset: { x: number; y: number },
+): AgentShape {
+  const move = (p: { x: number; y: number }) => ({
+    x: p.x + offset.x,
+    y: p.y + offset.y,
+  });
+  switch (shape.kind) {
+    case "arrow":
+      return { ...shape, start: move(shape.start), end: move(shape.end) };
+    case "line":
+    case "highlight":
+      return { ...shape, points: shape.points.map(move) };
+    default:
+      return { ...shape, ...move(shape) };
+  }
+}
+
+/**
+ * `shape` with its coordinates in page space, resolved against its
+ * `anchor`. Returns `undefined` if the anchor shape doesn't exist.
+ */
+export function resolveShapeAnchor(
+  editor: Editor,
+  shape: AgentShape,
+): AgentShape | undefined {
+  if (!shape.anchor) return shape;
+  const bounds = editor.getShapePageBounds(ensureShapeId(shape.anchor));
+  if (!bounds) return undefined;
+  const { anchor: _anchor, ...rest } = shape;
+  return offsetAgentShape(rest as AgentShape, bounds.point);
+}
+
+/**
+ * Fetches the title/description/image for a bookmark the same way pasting a
+ * URL does. Runs after the plan is applied and outside the undo history.
+ */
+async function loadBookmarkAsset(
+  editor: Editor,
+  shapeId: TLShapeId,
+  url: string,
+) {
+  let asset: Awaited<ReturnType<Editor["getAssetForExternalContent"]>>;
+  try {
+    asset = await editor.getAssetForExternalContent({ type: "url", url });
+  } catch {
+    return;
+  }
+  if (!asset || !editor.getShape(shapeId)) return;
+  editor.run(
+    () => {
+      if (!editor.getAsset(asset.id)) editor.createAssets([asset]);
+      editor.updateShape({
+        id: shapeId,
+        type: "bookmark",
+        props: { assetId: asset.id },
+      });
+    },
+    { history: "ignore" },
+  );
+}
+
+function createBookmark(
+  editor: Editor,
+  id: TLShapeId,
+  shape: { url: string; x: number; y: number; w?: number },
+) {
+  const assetId = AssetRecordType.createId(getHashForString(shape.url));
+  const hasAsset = !!editor.getAsset(assetId);
+  editor.createShape({
+    id,
+    type: "bookmark",
+    x: shape.x,
+    y: shape.y,
+    props: {
+      url: shape.url,
+      w: shape.w ?? 300,
+      assetId: hasAsset ? assetId : null,
+    },
+  });
+  if (!hasAsset) void loadBookmarkAsset(editor, id, shape.url);
+}
+
+function createAgentShape(
+  editor: Editor,
+  shape: AgentShape,
+  trace: ActionTrace,
+) {
+  const id = shape.id ? ensureShapeId(shape.id) : createShapeId();
+
+  switch (shape.kind) {
+    case "geo":
+      editor.createShape({
+        id,
+        type: "geo",
+        x: shape.x,
+        y: shape.y,
+        props: {
+          ...getStyleProps(editor, "geo", shape),
+          geo: shape.geo,
+          w: shape.w ?? 220,
+          h: shape.h ?? 140,
+          richText: toRichText(shape.label ?? ""),
+        },
+      });
+      return;
 
-        if (action.shape.kind === "text") {
-          const id = action.shape.id
-            ? ensureShapeId(action.shape.id)
-            : createShapeId();
-          editor.createShape({
-            id,
-            type: "text",
-            x: action.shape.x,
-            y: action.shape.y,
-            props: {
-              w: action.shape.w ?? 320,
-              autoSize: true,
-              color: action.shape.color ?? "black",
-              font: "draw",
-              size: "m",
-              scale: 1,
-              textAlign: "start",
-              richText: toRichText(action.shape.text),
+    case "text":
+      editor.createShape({
+        id,
+        type: "text",
+        x: shape.x,
+        y: shape.y,
+        props: {
+          ...getStyleProps(editor, "text", shape),
+          w: shape.w ?? 320,
+          autoSize: true,
+          richText: toRichText(shape.text),
+        },
+      });
+      return;
+
+    case "note":
+      editor.createShape({
+        id,
+        type: "note",
+        x: shape.x,
+        y: shape.y,
+        props: {
+          ...getStyleProps(editor, "note", shape),
+          richText: toRichText(shape.text ?? ""),
+        },
+      });
+      return;
+
+    case "frame": {
+      editor.createShape({
+        id,
+        type: "frame",
+        x: shape.x,
+        y: shape.y,
+        props: {
+          ...getStyleProps(editor, "frame", shape),
+          w: shape.w,
+          h: shape.h,
+          name: shape.name ?? "",
+        },
+      });
+      const childIds = getExistingShapeIds(
+        editor,
+        shape.children ?? [],
+        trace,
+      ).filter((childId) => childId !== id);
+      if (childIds.length) editor.reparentShapes(childIds, id);
+      return;
+    }
+
+    case "line": {
+      const local = toLocalPoints(shape.points);
+      const indices = getIndicesAbove(null, local.points.length);
+      editor.createShape({
+        id,
+        type: "line",
+        x: local.x,
+        y: local.y,
+        props: {
+          ...getStyleProps(editor, "line", shape),
+          spline: shape.spline ?? "line",
+          points: Object.fromEntries(
+            local.points.map((p, i) => [
+              indices[i],
+              { id: indices[i], index: indices[i], x: p.x, y: p.y },
+            ]),
+          ),
+        },
+      });
+      return;
+    }
+
+    case "highlight": {
+      const local = toLocalPoints(shape.points);
+      editor.createShape({
+        id,
+        type: "highlight",
+        x: local.x,
+        y: local.y,
+        props: {
+          ...getStyleProps(editor, "highlight", shape),
+          segments: [
+            {
+              type: "free",
+              path: b64Vecs.encodePoints(
+                local.points.map((p) => ({ ...p, z: 0.5 })),
+              ),
             },
+          ],
+          isComplete: true,
+        },
+      });
+      return;
+    }
+
+    case "embed": {
+      const embed = getEmbedInfo(DEFAULT_EMBED_DEFINITIONS, shape.url);
+      if (!embed) {
+        createBookmark(editor, id, shape);
+        return;
+      }
+      editor.createShape({
+        id,
+        type: "embed",
+        x: shape.x,
+        y: shape.y,
+        props: {
+          url: embed.url,
+          w: shape.w ?? embed.definition.width,
+          h: shape.h ?? embed.definition.height,
+        },
+      });
+      return;
+    }
+
+    case "bookmark":
+      createBookmark(editor, id, shape);
+      return;
+
+    case "arrow": {
+      const { start, end } = shape;
+      editor.createShape({
+        id,
+        type: "arrow",
+        x: start.x,
+        y: start.y,
+        props: {
+          ...getStyleProps(editor, "arrow", shape),
+          start: { x: 0, y: 0 },
+          end: { x: end.x - start.x, y: end.y - start.y },
+          richText: toRichText(shape.label ?? ""),
+        },
+      });
+
+      // Apply tldraw arrow bindings (terminal -> shape) if provided.
+      for (const binding of shape.bindings ?? []) {
+        const targetId = ensureShapeId(binding.toId);
+        const target = editor.getShape(targetId);
+        if (!target || target.type === "agent-prompt") {
+          trace.droppedBindings.push({
+            toId: binding.toId,
+            reason: target ? "agent-prompt" : "missing",
           });
           continue;
         }
 
-        if (action.shape.kind === "arrow") {
-          const id = action.shape.id
-            ? ensureShapeId(action.shape.id)
-            : createShapeId();
-
-          const start = action.shape.start;
-          const end = action.shape.end;
-
-          editor.createShape({
-            id,
-            type: "arrow",
-            x: start.x,
-            y: start.y,
-            props: {
-              start: {
-                x: 0,
-                y: 0,
-              },
-              end: {
-                x: end.x - start.x,
-                y: end.y - start.y,
-              },
-              arrowheadStart: "none",
-              arrowheadEnd: "arrow",
-              color: action.shape.color ?? "black",
-              dash: "draw",
-              size: "m",
-              font: "draw",
-              labelColor: action.shape.color ?? "black",
-              richText: toRichText(action.shape.label ?? ""),
-            },
-          });
+        const anchor = binding.normalizedAnchor
+          ? { normalizedAnchor: binding.normalizedAnchor }
+          : getAnchorFromPoint(
+              editor,
+              targetId,
+              binding.terminal === "start" ? start : end,
+            );
 
-          // Apply tldraw arrow bindings (terminal -> shape) if provided.
-          const bindings = action.shape.bindings ?? [];
-          for (const binding of bindings) {
-            const targetId = ensureShapeId(binding.toId);
-            const target = editor.getShape(targetId);
-            if (!target) continue;
-            if (target.type === "agent-prompt") continue;
-
-            const normalizedAnchor =
-              binding.normalizedAnchor ??
-              getNormalizedAnchorFromPoint(
-                editor,
-                targetId,
-                binding.terminal === "start" ? start : end,
-              );
-
-            editor.createBinding<TLArrowBinding>({
-              type: "arrow",
-              fromId: id,
-              toId: targetId,
-              props: {
-                terminal: binding.terminal,
-                normalizedAnchor,
-                isExact: binding.isExact ?? false,
-                isPrecise: binding.isPrecise ?? true,
-              },
-            });
-          }
+        editor.createBinding<TLArrowBinding>({
+          type: "arrow",
+          fromId: id,
+          toId: targetId,
+          props: {
+            terminal: binding.terminal,
+            normalizedAnchor: anchor.normalizedAnchor,
+            isExact: binding.isExact ?? false,
+            isPrecise: binding.isPrecise ?? anchor.isPrecise ?? true,
+          },
+        });
+      }
+      return;
+    }
+  }
+}
 
-          continue;
-        }
+/**
+ * Groups shapes as `Editor.groupShapes` does. That only works while the
+ * select tool is active, and cancels whatever the tool was doing, so runs
+ * would otherwise depend on the tool a person happens to have picked.
+ */
+function groupAgentShapes(
+  editor: Editor,
+  ids: TLShapeId[],
+  groupId: TLShapeId,
+) {
+  if (editor.getShape(groupId)) {
+    throw new Error(`A shape with id ${groupId} already exists`);
+  }
+  const shapes = ids
+    .flatMap((id) => editor.getShape(id) ?? [])
+    .filter((shape) => !editor.isShapeOrAncestorLocked(shape))
+    .sort(sortByIndex);
+  if (shapes.length < 2) throw new Error("Needs at least 2 unlocked shapes");
+
+  const { x, y } = Box.Common(
+    shapes.flatMap((shape) => editor.getShapePageBounds(shape) ?? []),
+  );
+  const parentId =
+    editor.findCommonAncestor(shapes) ?? editor.getCurrentPageId();
+  const siblings = shapes.filter((shape) => shape.parentId === parentId);
+  editor.createShape({
+    id: groupId,
+    type: "group",
+    parentId,
+    index: siblings.at(-1)?.index,
+    x,
+    y,
+  });
+  editor.reparentShapes(
+    shapes.map((shape) => shape.id),
+    groupId,
+  );
+  if (editor.getSortedChildIdsForParent(groupId).length < 2) {
+    throw new Error("tldraw did not create the group");
+  }
+}
+
+/** Ungroups groups as `Editor.ungroupShapes` does, whatever the current tool. */
+function ungroupAgentShapes(editor: Editor, ids: TLShapeId[]) {
+  const groups = ids
+    .flatMap((id) => editor.getShape(id) ?? [])
+    .filter(
+      (shape) =>
+        shape.type === "group" && !editor.isShapeOrAncestorLocked(shape),
+    );
+  if (groups.length === 0) throw new Error("None of the shapes is a group");
+
+  for (const group of groups) {
+    editor.reparentShapes(
+      editor.getSortedChildIdsForParent(group.id),
+      group.parentId,
+      group.index,
+    );
+  }
+  editor.deleteShapes(groups.map((group) => group.id));
+  if (groups.some((group) => editor.getShape(group.id))) {
+    throw new Error("tldraw did not remove the group");
+  }
+}
+
+const REORDER = {
+  front: "bringToFront",
+  forward: "bringForward",
+  backward: "sendBackward",
+  back: "sendToBack",
+} as const;
+
+/** Applies one action; returns false if it was skipped for lack of shapes. */
+function applyAgentAction(
+  editor: Editor,
+  action: AgentAction,
+  trace: ActionTrace,
+): boolean {
+  switch (action._type) {
+    case "create_shape": {
+      const shape = resolveShapeAnchor(editor, action.shape);
+      if (!shape) {
+        trace.missingIds.push(action.shape.anchor ?? "");
+        return false;
       }
+      createAgentShape(editor, shape, trace);
+      return true;
+    }
 
-      if (action._type === "update_shape") {
-        const shapeId = toShapeId(action.id);
-        const existing = editor.getShape(shapeId);
-        if (!existing) continue;
-        editor.updateShape({
-          id: existing.id,
-          type: existing.type,
-          ...(typeof action.patch.x === "number"
-            ? { x: action.patch.x }
-            : null),
-          ...(typeof action.patch.y === "number"
-            ? { y: action.patch.y }
-            : null),
-          ...(action.patch.props && typeof action.patch.props === "object"
-            ? { props: action.patch.props as Record<string, unknown> }
-            : null),
-        });
-        continue;
+    case "update_shape": {
+      const existing = editor.getShape(ensureShapeId(action.id));
+      if (!existing) {
+        trace.missingIds.push(action.id);
+        return false;
       }
+      const props = getPropsPatch(existing, action.patch.props);
+      editor.updateShape({
+        id: existing.id,
+        type: existing.type,
+        ...(typeof action.patch.x === "number" ? { x: action.patch.x } : null),
+        ...(typeof action.patch.y === "number" ? { y: action.patch.y } : null),
+        ...(props ? { props } : null),
+      });
+      return true;
+    }
 
-      if (action._type === "delete_shape") {
-        const shapeId = toShapeId(action.id);
-        const existing = editor.getShape(shapeId);
-        if (!existing) continue;
-        editor.deleteShapes([existing.id]);
-        continue;
+    case "delete_shape": {
+      const existing = editor.getShape(ensureShapeId(action.id));
+      if (!existing) {
+        trace.missingIds.push(action.id);
+        return false;
+      }
+      editor.deleteShapes([existing.id]);
+      return true;
+    }
+
+    case "connect": {
+      const missing = [action.fromId, action.toId].filter(
+        (id) => !editor.getShape(ensureShapeId(id)),
+      );
+      const arrow = getConnectArrow(editor, action);
+      if (missing.length > 0 || !arrow) {
+        trace.missingIds.push(...missing);
+        return false;
+      }
+      createAgentShape(editor, arrow, trace);
+      return true;
+    }
+
+    case "create_graph":
+      return getGraphActions(editor, action)
+        .map((created) => applyAgentAction(editor, created, trace))
+        .some(Boolean);
+
+    case "select": {
+      const ids = getExistingShapeIds(editor, action.ids, trace);
+      if (ids.length === 0) {
+        editor.selectNone();
+      } else {
+        editor.setSelectedShapes(ids);
       }
+      return true;
+    }
+  }
+
+  // The structural actions below leave the user's selection alone.
+  const ids = getExistingShapeIds(editor, action.ids, trace);
+  if (ids.length === 0) return false;
+
+  switch (action._type) {
+    case "group":
+      groupAgentShapes(
+        editor,
+        ids,
+        action.id ? ensureShapeId(action.id) : createShapeId(),
+      );
+      return true;
+
+    case "ungroup":
+      ungroupAgentShapes(editor, ids);
+      return true;
+
+    case "reparent": {
+      const parentId = action.parentId
+        ? ensureShapeId(action.parentId)
+        : editor.getCurrentPageId();
+      if (action.parentId && !editor.getShape(parentId)) {
+        trace.missingIds.push(action.parentId);
+        return false;
+      }
+      editor.reparentShapes(
+        ids.filter((id) => id !== parentId),
+        parentId,
+      );
+      return true;
+    }
+
+    case "align":
+      editor.alignShapes(ids, action.alignment);
+      return true;
 
-      if (action._type === "select") {
-        const ids = action.ids
-          .map(toShapeId)
-          .filter((id: TLShapeId) => editor.getShape(id));
-        if (ids.length === 0) {
-          editor.selectNone();
-        } else {
-          editor.setSelectedShapes(ids);
+    case "distribute":
+      editor.distributeShapes(ids, action.direction);
+      return true;
+
+    case "stack":
+      editor.stackShapes(ids, action.direction, action.gap);
+      return true;
+
+    case "reorder":
+      editor[REORDER[action.order]](ids);
+      return true;
+
+    case "layout":
+      applyLayoutMoves(
+        editor,
+        getLayoutMoves(editor, ids, action.direction ?? "down"),
+      );
+      return true;
+
+    case "duplicate": {
+      const selected = editor.getSelectedShapeIds();
+      editor.duplicateShapes(ids, action.offset ?? { x: 40, y: 40 });
+      editor.setSelectedShapes(selected);
+      return true;
+    }
+  }
+}
+
+/** Runs `fn`, undoing whatever it changed if it or `check` (given its changes) throws. */
+function applyOrUndo<T>(
+  editor: Editor,
+  fn: () => T,
+  check?: (diff: RecordsDiff<TLRecord>) => void,
+): T {
+  let outcome = { ok: false } as
+    | { ok: true; value: T }
+    | { ok: false; error?: unknown };
+  const diff = editor.store.extractingChanges(() => {
+    try {
+      outcome = { ok: true, value: fn() };
+    } catch (error) {
+      outcome = { ok: false, error };
+    }
+  });
+  if (outcome.ok && check) {
+    try {
+      check(diff);
+    } catch (error) {
+      outcome = { ok: false, error };
+    }
+  }
+  if (!outcome.ok) {
+    editor.store.applyDiff(reverseRecordsDiff(diff));
+    throw outcome.error;
+  }
+  return outcome.value;
+}
+
+/**
+ * Applies a plan's actions one at a time. An action tldraw refuses is undone
+ * on its own and reported instead of aborting the rest, and so are ids that
+ * name no shape. Pass `report` to collect several calls in one report, with
+ * `firstIndex` as the plan index of this call's first action, and `guard` to
+ * enforce the board's agent policy.
+ */
+export function applyAgentActions(
+  editor: Editor,
+  actions: AgentAction[],
+  {
+    report = createAgentApplyReport(),
+    firstIndex = 0,
+    guard,
+  }: {
+    report?: AgentApplyReport;
+    firstIndex?: number;
+    guard?: AgentPolicyGuard;
+  } = {},
+): AgentApplyReport {
+  editor.run(() => {
+    for (const [i, action] of actions.entries()) {
+      const index = firstIndex + i;
+      const trace: ActionTrace = { missingIds: [], droppedBindings: [] };
+      let applied: boolean;
+      try {
+        guard?.checkAction(action);
+        applied = applyOrUndo(
+          editor,
+          () => applyAgentAction(editor, action, trace),
+          guard?.checkChanges,
+        );
+      } catch (e) {
+        if (e instanceof AgentPolicyError) {
+          const entry = { index, type: action._type, reason: e.message };
+          if (e.needsConfirmation) report.held.push(entry);
+          else report.blocked.push(entry);
+          continue;
         }
+        report.rejected.push({
+          index,
+          type: action._type,
+          reason: e instanceof Error ? e.message : String(e),
+        });
+        continue;
+      }
+      if (applied) report.applied++;
+      if (trace.missingIds.length > 0) {
+        report.skipped.push({
+          index,
+          type: action._type,
+          missingIds: trace.missingIds,
+        });
+      }
+      for (const dropped of trace.droppedBindings) {
+        report.droppedBindings.push({ index, ...dropped });
       }
     }
   });
+  return report;
 }
@@ -0,0 +1,166 @@
+import type { Box, Editor, TLArrowBinding, TLShape, TLShapeId } from "tldraw";
+import type {
+  AgentContextOmitted,
+  CanvasShapeSummary,
+} from "@/app/_agent/prompt";
+import {
+  AGENT_CONTEXT_NEARBY_DISTANCE,
+  AGENT_CONTEXT_TOKEN_BUDGET,
+  type AgentContextMode,
+} from "@/app/_constants/agent";
+import { createAgentSerializer } from "./agentSerializer";
+
+export type AgentContext = {
+  shapes: CanvasShapeSummary[];
+  omitted: AgentContextOmitted;
+  /** Maps the aliases used in `shapes` back to real shape ids. */
+  aliases: Record<string, TLShapeId>;
+};
+
+const SCORE_SELECTED = 100;
+const SCORE_CONNECTED = 50;
+const SCORE_IN_VIEWPORT = 40;
+const SCORE_NEARBY = 30;
+
+/** Rough token estimate for a serialized shape (~4 characters per token). */
+function estimateTokens(summary: CanvasShapeSummary): number {
+  return Math.ceil(JSON.stringify(summary).length / 4);
+}
+
+function distanceBetween(a: Box, b: Box): number {
+  const dx = Math.max(0, a.minX - b.maxX, b.minX - a.maxX);
+  const dy = Math.max(0, a.minY - b.maxY, b.minY - a.maxY);
+  return Math.hypot(dx, dy);
+}
+
+/**
+ * Arrows bound to any of `seeds`, and the shapes at their other ends: one
+ * hop through the diagram's connections.
+ */
+function getConnectedShapeIds(
+  editor: Editor,
+  seeds: Iterable<TLShapeId>,
+): Set<TLShapeId> {
+  const connected = new Set<TLShapeId>();
+  for (const id of seeds) {
+    for (const binding of editor.getBindingsToShape<TLArrowBinding>(
+      id,
+      "arrow",
+    )) {
+      connected.add(binding.fromId);
+      for (const end of editor.getBindingsFromShape<TLArrowBinding>(
+        binding.fromId,
+        "arrow",
+      )) {
+        connected.add(end.toId);
+      }
+    }
+  }
+  return connected;
+}
+
+/**
+ * Picks the shapes most relevant to a run and serializes them until
+ * `tokenBudget` is reached, reporting what was left out.
+ */
+export function selectAgentContext(
+  editor: Editor,
+  opts: {
+    mode: AgentContextMode;
+    /** The prompt shape the run comes from; it's the anchor for "nearby". */
+    promptId?: TLShapeId;
+    excludeTypes?: string[];
+    tokenBudget?: number;
+  },
+): AgentContext {
+  const exclude = new Set(opts.excludeTypes ?? []);
+  const tokenBudget = opts.tokenBudget ?? AGENT_CONTEXT_TOKEN_BUDGET;
+  const candidates = editor
+    .getCurrentPageShapes()
+    .filter((s) => !exclude.has(s.type));
+
+  const viewport = editor.getViewportPageBounds();
+  const promptBounds = opts.promptId
+    ? editor.getShapePageBounds(opts.promptId)
+    : undefined;
+  const anchor = promptBounds ?? viewport;
+  const selected = new Set(editor.getSelectedShapeIds());
+
+  const useSelection = opts.mode === "auto" || opts.mode === "selection";
+  const useViewport = opts.mode === "auto" || opts.mode === "viewport";
+  const useNearby = opts.mode === "auto" || opts.mode === "nearby";
+
+  const inViewport = new Set<TLShapeId>();
+  const nearness = new Map<TLShapeId, number>();
+  const distance = new Map<TLShapeId, number>();
+  for (const shape of candidates) {
+    const bounds = editor.getShapePageBounds(shape);
+    if (!bounds) continue;
+    if (bounds.collides(viewport)) inViewport.add(shape.id);
+    const d = distanceBetween(bounds, anchor);
+    distance.set(shape.id, d);
+    if (promptBounds && d <= AGENT_CONTEXT_NEARBY_DISTANCE) {
+      nearness.set(shape.id, 1 - d / AGENT_CONTEXT_NEARBY_DISTANCE);
+    }
+  }
+
+  const seeds = new Set<TLShapeId>();
+  if (useSelection) for (const id of selected) seeds.add(id);
+  if (useViewport) for (const id of inViewport) seeds.add(id);
+  if (useNearby) for (const id of nearness.keys()) seeds.add(id);
+  const connected = getConnectedShapeIds(editor, seeds);
+
+  const scored: { shape: TLShape; score: number }[] = [];
+  for (const shape of candidates) {
+    let score = 0;
+    if (useSelection && selected.has(shape.id)) score += SCORE_SELECTED;
+    if (connected.has(shape.id)) score += SCORE_CONNECTED;
+    if (useViewport && inViewport.has(shape.id)) score += SCORE_IN_VIEWPORT;
+    if (useNearby) score += SCORE_NEARBY * (nearness.get(shape.id) ?? 0);
+
+    if (score === 0 && opts.mode !== "auto") continue;
+    // Everything else on the page ranks by distance, below any real signal.
+    score += 1 / (1 + (distance.get(shape.id) ?? Number.POSITIVE_INFINITY));
+    scored.push({ shape, score });
+  }
+  scored.sort((a, b) => b.score - a.score);
+
+  const serializer = createAgentSerializer(editor);
+  const shapes: CanvasShapeSummary[] = [];
+  const included = new Set<TLShapeId>();
+  let tokens = 0;
+  for (const { shape } of scored) {
+    const summary = serializer.serialize(shape);
+    const cost = estimateTokens(summary);
+    if (tokens + cost > tokenBudget) break;
+    tokens += cost;
+    shapes.push(summary);
+    included.add(shape.id);
+  }
+
+  const omittedShapes = candidates.filter((s) => !included.has(s.id));
+  const types: Record<string, number> = {};
+  for (const shape of omittedShapes) {
+    types[shape.type] = (types[shape.type] ?? 0) + 1;
+  }
+  const omittedBounds = editor.getShapesPageBounds(
+    omittedShapes.map((s) => s.id),
+  );
+
+  return {
+    shapes,
+    aliases: serializer.aliases,
+    omitted: {
+      count: omittedShapes.length,
+      types,
+      bounds: omittedBounds
+        ? {
+            x: omittedBounds.x,
+            y: omittedBounds.y,
+            w: omittedBounds.w,
+            h: omittedBounds.h,
+          }
+        : undefined,
+    },
+  };
+}
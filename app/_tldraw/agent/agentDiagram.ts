@@ -0,0 +1,228 @@
+import {
+  defaultHandleExternalTextContent,
+  type Editor,
+  renderPlaintextFromRichText,
+  type TLArrowBinding,
+  type TLArrowShape,
+  type TLGeoShape,
+  type TLShape,
+  type TLShapeId,
+  type VecLike,
+} from "tldraw";
+import {
+  createDiagramIdPrefix,
+  diagramToActions,
+  type FlowDiagram,
+  type FlowEdge,
+  type FlowGroup,
+  getDiagramSourceId,
+  type ParsedDiagram,
+  parseDiagramText,
+  toMermaid,
+} from "@/app/_agent/diagrams";
+import type { LayoutDirection } from "@/app/_agent/layout";
+import { type AgentAction, applyAgentActions } from "./agentActions";
+import { getNewContentOrigin } from "./agentLayout";
+
+const VALID_ID = /^[\p{L}\p{N}_]+$/u;
+
+/**
+ * Plan actions for a parsed diagram, placed at `point` (or next to the page's
+ * content) with fresh shape ids.
+ */
+export function getDiagramActions(
+  editor: Editor,
+  parsed: ParsedDiagram,
+  point?: VecLike,
+): AgentAction[] {
+  return diagramToActions(parsed.diagram, {
+    origin: point ? { x: point.x, y: point.y } : getNewContentOrigin(editor),
+    idPrefix: createDiagramIdPrefix(),
+  });
+}
+
+/**
+ * Pasting Mermaid or PlantUML text draws the diagram (as one undo step, with
+ * the new shapes selected); any other text pastes as usual.
+ */
+export function registerDiagramPaste(editor: Editor) {
+  editor.registerExternalContentHandler("text", async (content) => {
+    const parsed = parseDiagramText(content.text);
+    if (!parsed) {
+      await defaultHandleExternalTextContent(editor, content);
+      return;
+    }
+    const before = new Set(editor.getCurrentPageShapeIds());
+    editor.markHistoryStoppingPoint("paste diagram");
+    applyAgentActions(editor, getDiagramActions(editor, parsed, content.point));
+    editor.setSelectedShapes(
+      editor
+        .getCurrentPageShapes()
+        .filter(
+          (shape) =>
+            !before.has(shape.id) &&
+            shape.parentId === editor.getCurrentPageId(),
+        )
+        .map((shape) => shape.id),
+    );
+  });
+}
+
+function getText(editor: Editor, shape: TLGeoShape | TLArrowShape) {
+  return renderPlaintextFromRichText(editor, shape.props.richText).trim();
+}
+
+/** Mostly-rightward edges make an `LR` chart, mostly-upward ones `BT`, and so on. */
+function getDirection(
+  editor: Editor,
+  edges: { from: TLShapeId; to: TLShapeId }[],
+): LayoutDirection {
+  let dx = 0;
+  let dy = 0;
+  for (const { from, to } of edges) {
+    const a = editor.getShapePageBounds(from)?.center;
+    const b = editor.getShapePageBounds(to)?.center;
+    if (!a || !b) continue;
+    dx += b.x - a.x;
+    dy += b.y - a.y;
+  }
+  if (Math.abs(dx) > Math.abs(dy)) return dx > 0 ? "right" : "left";
+  return dy < 0 ? "up" : "down";
+}
+
+/**
+ * Reads the geo shapes among `ids` (and their descendants) and the arrows
+ * bound between them as a flowchart. Frames and groups around those shapes
+ * become subgraphs. Returns `undefined` if there are no geo shapes.
+ */
+export function getFlowDiagram(
+  editor: Editor,
+  ids: TLShapeId[],
+): FlowDiagram | undefined {
+  const shapes = [...editor.getShapeAndDescendantIds(ids)]
+    .map((id) => editor.getShape(id))
+    .filter((shape): shape is TLGeoShape => shape?.type === "geo")
+    .sort((a, b) => {
+      const ba = editor.getShapePageBounds(a);
+      const bb = editor.getShapePageBounds(b);
+      return (ba?.y ?? 0) - (bb?.y ?? 0) || (ba?.x ?? 0) - (bb?.x ?? 0);
+    });
+  if (shapes.length === 0) return undefined;
+
+  // Keep the ids of imported shapes; name the rest n1, n2, ...
+  const nodeIds = new Map<TLShapeId, string>();
+  const used = new Set<string>();
+  for (const shape of shapes) {
+    const source = getDiagramSourceId(shape.id)?.id;
+    if (source && VALID_ID.test(source) && !used.has(source)) {
+      nodeIds.set(shape.id, source);
+      used.add(source);
+    }
+  }
+  let counter = 0;
+  const nextId = (prefix: string) => {
+    let id: string;
+    do id = `${prefix}${++counter}`;
+    while (used.has(id));
+    used.add(id);
+    return id;
+  };
+  for (const shape of shapes) {
+    if (!nodeIds.has(shape.id)) nodeIds.set(shape.id, nextId("n"));
+  }
+
+  const edges: (FlowEdge & { shapeIds: { from: TLShapeId; to: TLShapeId } })[] =
+    [];
+  const seenArrows = new Set<TLShapeId>();
+  for (const shape of shapes) {
+    for (const { fromId } of editor.getBindingsToShape<TLArrowBinding>(
+      shape,
+      "arrow",
+    )) {
+      if (seenArrows.has(fromId)) continue;
+      seenArrows.add(fromId);
+      const arrow = editor.getShape<TLArrowShape>(fromId);
+      if (!arrow) continue;
+      const bindings = editor.getBindingsFromShape<TLArrowBinding>(
+        arrow,
+        "arrow",
+      );
+      const start = bindings.find((b) => b.props.terminal === "start")?.toId;
+      const end = bindings.find((b) => b.props.terminal === "end")?.toId;
+      const from = start && nodeIds.get(start);
+      const to = end && nodeIds.get(end);
+      if (!start || !end || !from || !to) continue;
+      edges.push({
+        from,
+        to,
+        label: getText(editor, arrow) || undefined,
+        dash:
+          arrow.props.dash === "dashed" || arrow.props.dash === "dotted"
+            ? "dashed"
+            : "solid",
+        thick: arrow.props.size === "l" || arrow.props.size === "xl",
+        arrowheadStart: arrow.props.arrowheadStart,
+        arrowheadEnd: arrow.props.arrowheadEnd,
+        shapeIds: { from: start, to: end },
+      });
+    }
+  }
+
+  // Frames and groups around the nodes, innermost first.
+  const groups = new Map<TLShapeId, FlowGroup & { depth: number }>();
+  const getGroup = (container: TLShape): FlowGroup & { depth: number } => {
+    let group = groups.get(container.id);
+    if (!group) {
+      group = {
+        id: nextId("sg"),
+        label:
+          container.type === "frame"
+            ? (container.props as { name: string }).name || undefined
+            : undefined,
+        nodeIds: [],
+        groupIds: [],
+        depth: editor.getShapeAncestors(container).length,
+      };
+      groups.set(container.id, group);
+      const parent = getContainer(container);
+      if (parent) getGroup(parent).groupIds.push(group.id);
+    }
+    return group;
+  };
+  const getContainer = (shape: TLShape) =>
+    editor.findShapeAncestor(
+      shape,
+      (parent) => parent.type === "frame" || parent.type === "group",
+    );
+  for (const shape of shapes) {
+    const container = getContainer(shape);
+    const id = nodeIds.get(shape.id);
+    if (container && id) getGroup(container).nodeIds.push(id);
+  }
+
+  return {
+    kind: "flowchart",
+    direction: getDirection(
+      editor,
+      edges.map((edge) => edge.shapeIds),
+    ),
+    nodes: shapes.map((shape) => ({
+      id: nodeIds.get(shape.id) as string,
+      label: getText(editor, shape),
+      geo: shape.props.geo,
+    })),
+    edges: edges.map(({ shapeIds: _shapeIds, ...edge }) => edge),
+    groups: [...groups.values()]
+      .sort((a, b) => b.depth - a.depth)
+      .map(({ depth: _depth, ...group }) => group),
+  };
+}
+
+/** The selection as Mermaid flowchart text, or `undefined` if it has no geo shapes. */
+export function exportMermaid(
+  editor: Editor,
+  ids: TLShapeId[],
+): string | undefined {
+  const diagram = getFlowDiagram(editor, ids);
+  return diagram && toMermaid(diagram);
+}
@@ -0,0 +1,60 @@
+import type { Editor, TLShapeId } from "tldraw";
+import type { AgentCanvasImage } from "@/app/_agent/prompt";
+import { AGENT_IMAGE_MAX_SIDE } from "@/app/_constants/agent";
+
+/** Page units of margin around an exported selection. */
+const SELECTION_PADDING = 16;
+
+/**
+ * Renders the selection (or, with nothing selected, the viewport) to a PNG
+ * for vision-capable backends. `excludeTypes` keeps UI shapes such as the
+ * prompt itself out of the picture. Resolves to `undefined` when there is
+ * nothing to render.
+ */
+export async function exportAgentImage(
+  editor: Editor,
+  opts: { excludeTypes?: string[] } = {},
+): Promise<AgentCanvasImage | undefined> {
+  const exclude = new Set(opts.excludeTypes ?? []);
+  const isIncluded = (id: TLShapeId) => {
+    const shape = editor.getShape(id);
+    return !!shape && !exclude.has(shape.type);
+  };
+
+  const selectedIds = editor.getSelectedShapeIds().filter(isIncluded);
+  const source = selectedIds.length > 0 ? "selection" : "viewport";
+
+  let ids: TLShapeId[];
+  let bounds = editor.getViewportPageBounds();
+  if (source === "selection") {
+    ids = selectedIds;
+    const selectionBounds = editor.getShapesPageBounds(ids);
+    if (!selectionBounds) return undefined;
+    bounds = selectionBounds.clone().expandBy(SELECTION_PADDING);
+  } else {
+    const viewport = bounds;
+    ids = [...editor.getCurrentPageShapeIds()].filter((id) => {
+      if (!isIncluded(id)) return false;
+      // Children are rendered with their parents.
+      if (editor.getShape(id)?.parentId !== editor.getCurrentPageId()) {
+        return false;
+      }
+      return !!editor.getShapePageBounds(id)?.collides(viewport);
+    });
+  }
+  if (ids.length === 0) return undefined;
+
+  const { url } = await editor.toImageDataUrl(ids, {
+    format: "png",
+    bounds,
+    background: true,
+    scale: Math.min(1, AGENT_IMAGE_MAX_SIDE / Math.max(bounds.w, bounds.h)),
+    pixelRatio: 1,
+  });
+
+  return {
+    dataUrl: url,
+    bounds: { x: bounds.x, y: bounds.y, w: bounds.w, h: bounds.h },
+    source,
+  };
+}
@@ -0,0 +1,41 @@
+import { atom } from "tldraw";
+
+/** Whether the run inspector is open, and on which logged run. */
+export type AgentInspectorState = { runId?: string };
+
+const agentInspector = atom<AgentInspectorState | null>(
+  "agent inspector",
+  null,
+);
+
+export function getAgentInspector(): AgentInspectorState | null {
+  return agentInspector.get();
+}
+
+export function openAgentInspector(runId?: string) {
+  agentInspector.set({ runId });
+}
+
+export function closeAgentInspector() {
+  agentInspector.set(null);
+}
+
+/** Reports how a logged run's plan was applied, for the run log. Best effort. */
+export function reportAgentRunResult(
+  runId: string,
+  result: {
+    applied: number;
+    summary: string;
+    preview?: boolean;
+    reapplied?: boolean;
+    userName?: string;
+    error?: string;
+    problems?: string[];
+  },
+) {
+  fetch(`/api/agent/runs/${encodeURIComponent(runId)}/result`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(result),
+  }).catch(() => {});
+}
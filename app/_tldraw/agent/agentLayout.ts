@@ -0,0 +1,190 @@
+import {
+  Box,
+  type Editor,
+  type TLArrowBinding,
+  type TLShapeId,
+  Vec,
+} from "tldraw";
+import {
+  type LayoutDirection,
+  type LayoutEdge,
+  layoutGraph,
+} from "@/app/_agent/layout";
+import type { AgentAction, AgentGraphNode } from "./agentActions";
+
+type CreateGraphAction = Extract<AgentAction, { _type: "create_graph" }>;
+
+/** A shape `layout` will move, with its page bounds before and after. */
+export type LayoutMove = { id: TLShapeId; from: Box; to: Box };
+
+/** Space left between existing content and a diagram placed next to it. */
+const GRAPH_MARGIN = 100;
+
+/** Rough metrics of a geo label at size `m`, for sizing nodes to fit. */
+const LABEL_CHAR_WIDTH = 13;
+const LABEL_LINE_HEIGHT = 32;
+const LABEL_PADDING = 48;
+
+function getNodeSize(node: AgentGraphNode): { w: number; h: number } {
+  const textWidth = (node.label ?? "").length * LABEL_CHAR_WIDTH;
+  const w = node.w ?? Math.min(320, Math.max(160, textWidth + LABEL_PADDING));
+  const lines = Math.max(1, Math.ceil(textWidth / (w - LABEL_PADDING)));
+  const h = node.h ?? Math.max(100, lines * LABEL_LINE_HEIGHT + LABEL_PADDING);
+  return { w, h };
+}
+
+/** Where new diagrams go by default: just right of the page's content. */
+export function getNewContentOrigin(editor: Editor): { x: number; y: number } {
+  const pageBounds = editor.getCurrentPageBounds();
+  return pageBounds
+    ? { x: pageBounds.maxX + GRAPH_MARGIN, y: pageBounds.minY }
+    : { x: 0, y: 0 };
+}
+
+/**
+ * Expands a `create_graph` action into `create_shape` actions: one geo shape
+ * per node at its laid-out position, and one arrow per edge bound to both
+ * of its nodes.
+ */
+export function getGraphActions(
+  editor: Editor,
+  action: CreateGraphAction,
+): AgentAction[] {
+  const nodes = action.nodes.map((n) => ({ id: n.id, ...getNodeSize(n) }));
+  const sizes = new Map(nodes.map((n) => [n.id, n]));
+  const edges = action.edges ?? [];
+  const layout = layoutGraph(nodes, edges, { direction: action.direction });
+
+  const origin = action.origin ?? getNewContentOrigin(editor);
+
+  const boxes = new Map<string, Box>();
+  for (const node of action.nodes) {
+    const pos = layout.positions.get(node.id);
+    const size = sizes.get(node.id);
+    if (!pos || !size) continue;
+    boxes.set(
+      node.id,
+      new Box(origin.x + pos.x, origin.y + pos.y, size.w, size.h),
+    );
+  }
+
+  const actions: AgentAction[] = [];
+  for (const { id, label, geo, w: _w, h: _h, ...style } of action.nodes) {
+    const box = boxes.get(id);
+    if (!box) continue;
+    actions.push({
+      _type: "create_shape",
+      shape: {
+        ...style,
+        kind: "geo",
+        id,
+        geo: geo ?? "rectangle",
+        x: box.x,
+        y: box.y,
+        w: box.w,
+        h: box.h,
+        label,
+      },
+    });
+  }
+  for (const { id, from, to, label, ...style } of edges) {
+    const start = boxes.get(from);
+    const end = boxes.get(to);
+    if (!start || !end) continue;
+    actions.push({
+      _type: "create_shape",
+      shape: {
+        ...style,
+        kind: "arrow",
+        id,
+        start: start.center.toJson(),
+        end: end.center.toJson(),
+        label,
+        bindings: [
+          { terminal: "start", toId: from, isPrecise: false },
+          { terminal: "end", toId: to, isPrecise: false },
+        ],
+      },
+    });
+  }
+  return actions;
+}
+
+/**
+ * Works out where `layout` would move `ids`: the non-arrow shapes are laid
+ * out as a graph whose edges are the arrows bound between them, anchored at
+ * the top-left of their current bounds. Arrows follow their bindings.
+ */
+export function getLayoutMoves(
+  editor: Editor,
+  ids: TLShapeId[],
+  direction: LayoutDirection,
+): LayoutMove[] {
+  const candidates = new Set(
+    ids.filter((id) => editor.getShape(id)?.type !== "arrow"),
+  );
+  // Shapes inside another node move with it.
+  const nodeIds = [...candidates].filter(
+    (id) =>
+      !editor.findShapeAncestor(id, (parent) => candidates.has(parent.id)),
+  );
+  const nodeSet = new Set(nodeIds);
+
+  const bounds = new Map<TLShapeId, Box>();
+  for (const id of nodeIds) {
+    const b = editor.getShapePageBounds(id);
+    if (b) bounds.set(id, b);
+  }
+  if (bounds.size < 2) return [];
+
+  const edges: LayoutEdge[] = [];
+  for (const id of bounds.keys()) {
+    for (const binding of editor.getBindingsToShape<TLArrowBinding>(
+      id,
+      "arrow",
+    )) {
+      if (binding.props.terminal !== "start") continue;
+      const end = editor
+        .getBindingsFromShape<TLArrowBinding>(binding.fromId, "arrow")
+        .find((b) => b.props.terminal === "end");
+      if (end && nodeSet.has(end.toId)) edges.push({ from: id, to: end.toId });
+    }
+  }
+
+  const layout = layoutGraph(
+    [...bounds].map(([id, b]) => ({ id, w: b.w, h: b.h })),
+    edges,
+    { direction },
+  );
+  const anchor = Box.Common([...bounds.values()]);
+
+  return [...bounds].flatMap(([id, from]) => {
+    const pos = layout.positions.get(id);
+    if (!pos) return [];
+    const to = new Box(anchor.x + pos.x, anchor.y + pos.y, from.w, from.h);
+    return [{ id, from, to }];
+  });
+}
+
+export function applyLayoutMoves(editor: Editor, moves: LayoutMove[]) {
+  for (const { id, from, to } of moves) {
+    const shape = editor.getShape(id);
+    if (!shape) continue;
+    const pagePoint = editor.getShapePageTransform(shape).point();
+    const target = Vec.Add(pagePoint, Vec.Sub(to.point, from.point));
+    const local = editor.getPointInParentSpace(shape, target);
+    editor.updateShape({ id, type: shape.type, x: local.x, y: local.y });
+  }
+}
+
+/** Lays out the given shapes in one undoable step; used by the "Auto layout" action. */
+export function autoLayoutShapes(
+  editor: Editor,
+  ids: TLShapeId[],
+  direction: LayoutDirection = "down",
+) {
+  const moves = getLayoutMoves(editor, ids, direction);
+  if (moves.length === 0) return;
+  editor.markHistoryStoppingPoint("auto layout");
+  editor.run(() => applyLayoutMoves(editor, moves));
+}
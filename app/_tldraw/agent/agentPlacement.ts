@@ -0,0 +1,129 @@
+import {
+  Box,
+  createShapeId,
+  type Editor,
+  type TLShape,
+  type TLShapeId,
+} from "tldraw";
+import {
+  type AgentPromptArea,
+  findFreePosition,
+  getFreeSpace,
+  type PlacementRect,
+  rectsOverlap,
+} from "@/app/_agent/placement";
+import type { AgentPlacementMode } from "@/app/_constants/agent";
+
+/**
+ * Arrows follow the shapes they connect and highlights mark other shapes,
+ * so neither needs room of its own or takes it from anything else.
+ */
+const UNPLACED_TYPES = new Set(["arrow", "highlight"]);
+
+/** Room between a results frame's edges and what it wraps. */
+const FRAME_PADDING = 40;
+
+/** Longest results frame name; longer prompts are cut short. */
+const MAX_FRAME_NAME_LENGTH = 60;
+
+/** Page bounds of the shapes on the page, other than `exclude`, that take up room. */
+function getObstacles(
+  editor: Editor,
+  exclude: Set<TLShapeId>,
+): PlacementRect[] {
+  return editor
+    .getSortedChildIdsForParent(editor.getCurrentPageId())
+    .flatMap((id) => {
+      const shape = editor.getShape(id);
+      if (!shape || exclude.has(id) || UNPLACED_TYPES.has(shape.type)) {
+        return [];
+      }
+      const bounds = editor.getShapePageBounds(shape);
+      return bounds ? [bounds.toJson()] : [];
+    });
+}
+
+/** The prompt shape's bounds and the free space around it, for PROMPT_AREA. */
+export function getPromptArea(
+  editor: Editor,
+  promptId: TLShapeId,
+): AgentPromptArea | undefined {
+  const bounds = editor.getShapePageBounds(promptId);
+  if (!bounds) return undefined;
+  return {
+    bounds: bounds.toJson(),
+    free: getFreeSpace(bounds, getObstacles(editor, new Set([promptId]))),
+  };
+}
+
+function getFrameName(prompt: string): string {
+  const line = prompt.trim().split("\n")[0];
+  return line.length > MAX_FRAME_NAME_LENGTH
+    ? `${line.slice(0, MAX_FRAME_NAME_LENGTH - 1)}…`
+    : line;
+}
+
+/**
+ * Moves the shapes a run created on the page, as one unit, to the nearest
+ * spot (inside `within`, when given) where they cover no other shape,
+ * including the prompt shape. With `frame` they are also wrapped in a frame
+ * named after `prompt`. Shapes the run put into existing frames or groups,
+ * and highlights, stay where the plan put them.
+ */
+export function placeAgentShapes(
+  editor: Editor,
+  ids: TLShapeId[],
+  opts: { mode: AgentPlacementMode; prompt: string; within?: PlacementRect },
+) {
+  if (opts.mode === "as-planned") return;
+  const pageId = editor.getCurrentPageId();
+  const shapes = ids
+    .map((id) => editor.getShape(id))
+    .filter(
+      (shape): shape is TLShape =>
+        !!shape && shape.parentId === pageId && shape.type !== "highlight",
+    );
+  const boxes = shapes
+    .filter((shape) => !UNPLACED_TYPES.has(shape.type))
+    .flatMap((shape) => editor.getShapePageBounds(shape) ?? []);
+  if (boxes.length === 0) return;
+
+  const wrap =
+    opts.mode === "frame" &&
+    !(shapes.length === 1 && shapes[0].type === "frame");
+  const content = Box.Common(boxes);
+  const rect = wrap ? content.clone().expandBy(FRAME_PADDING) : content;
+  const obstacles = getObstacles(editor, new Set(ids));
+  const target = obstacles.some((o) => rectsOverlap(rect, o))
+    ? findFreePosition(rect, obstacles, opts.within)
+    : undefined;
+
+  if (target) {
+    const dx = target.x - rect.x;
+    const dy = target.y - rect.y;
+    editor.updateShapes(
+      shapes.map((shape) => ({
+        id: shape.id,
+        type: shape.type,
+        x: shape.x + dx,
+        y: shape.y + dy,
+      })),
+    );
+    rect.translate({ x: dx, y: dy });
+  }
+
+  if (wrap) {
+    const frameId = createShapeId();
+    editor.createShape({
+      id: frameId,
+      type: "frame",
+      x: rect.x,
+      y: rect.y,
+      props: { w: rect.w, h: rect.h, name: getFrameName(opts.prompt) },
+    });
+    editor.reparentShapes(
+      shapes.map((shape) => shape.id),
+      frameId,
+    );
+  }
+}
@@ -0,0 +1,197 @@
+import {
+  Box,
+  createShapeId,
+  type Editor,
+  type RecordsDiff,
+  type TLRecord,
+  type TLShape,
+  type TLShapeId,
+} from "tldraw";
+import {
+  type AgentPolicy,
+  type AgentScope,
+  getChangedShapeIds,
+  isInScope,
+  parseAgentPolicy,
+} from "@/app/_agent/policy";
+import type { AgentAction } from "./agentActions";
+
+// Like team presets, the policy lives in the board's document record, so it
+// is saved and synced with the board. Protection is a flag in shape meta.
+
+export function getBoardPolicy(editor: Editor): AgentPolicy {
+  return parseAgentPolicy(editor.getDocumentSettings().meta.agentPolicy);
+}
+
+export function setBoardPolicy(editor: Editor, policy: AgentPolicy) {
+  const { meta } = editor.getDocumentSettings();
+  editor.updateDocumentSettings({ meta: { ...meta, agentPolicy: policy } });
+}
+
+/** Whether a collaborator protected the shape, or a frame or group it is in, from the agent. */
+export function isAgentProtected(editor: Editor, shape: TLShape): boolean {
+  if (shape.meta.agentProtected === true) return true;
+  const parent = editor.getShapeParent(shape);
+  return parent ? isAgentProtected(editor, parent) : false;
+}
+
+export function setAgentProtected(
+  editor: Editor,
+  ids: TLShapeId[],
+  agentProtected: boolean,
+) {
+  editor.run(
+    () => {
+      editor.updateShapes(
+        ids.flatMap((id) => {
+          const shape = editor.getShape(id);
+          if (!shape) return [];
+          const { agentProtected: _agentProtected, ...meta } = shape.meta;
+          return [
+            {
+              id,
+              type: shape.type,
+              meta: agentProtected ? { ...meta, agentProtected } : meta,
+            },
+          ];
+        }),
+      );
+    },
+    // Locked shapes can be protected too.
+    { ignoreShapeLock: true },
+  );
+}
+
+/** The page area covered by the selected shapes, prompt shapes aside. */
+export function getSelectionScope(editor: Editor): AgentScope | undefined {
+  const bounds = editor
+    .getSelectedShapes()
+    .filter((shape) => shape.type !== "agent-prompt")
+    .map((shape) => editor.getShapePageBounds(shape))
+    .filter((b) => b !== undefined);
+  if (bounds.length === 0) return undefined;
+  const { x, y, w, h } = Box.Common(bounds);
+  return { x, y, w, h };
+}
+
+/** Thrown by the policy guard when an action breaks the board's agent policy. */
+export class AgentPolicyError extends Error {
+  /** Set when the action is allowed, but only once someone confirms it. */
+  readonly needsConfirmation: boolean;
+
+  constructor(message: string, needsConfirmation = false) {
+    super(message);
+    this.name = "AgentPolicyError";
+    this.needsConfirmation = needsConfirmation;
+  }
+}
+
+export type AgentPolicyGuard = {
+  /** Throws when `action` would change shapes the agent may not touch. */
+  checkAction(action: AgentAction): void;
+  /**
+   * Throws when what one action changed breaks the policy, e.g. deleting a
+   * frame with locked shapes in it; otherwise counts its deletions.
+   */
+  checkChanges(diff: RecordsDiff<TLRecord>): void;
+};
+
+function toShapeId(id: string): TLShapeId {
+  return id.startsWith("shape:") ? (id as TLShapeId) : createShapeId(id);
+}
+
+function isShapeRecord(record: TLRecord): record is TLShape {
+  return record.typeName === "shape";
+}
+
+/**
+ * Enforces `policy` for one run: locked and protected shapes, the deletion
+ * limit and, when given, `scope`. Deletions past the confirmation threshold
+ * need `confirmed`, e.g. because the user accepted them in a preview.
+ */
+export function createAgentPolicyGuard(
+  editor: Editor,
+  opts: { policy: AgentPolicy; scope?: AgentScope; confirmed?: boolean },
+): AgentPolicyGuard {
+  const { policy, scope, confirmed = false } = opts;
+  let deleted = 0;
+
+  const isOutOfScope = (shape: TLShape) => {
+    if (!scope) return false;
+    const bounds = editor.getShapePageBounds(shape);
+    return (
+      !!bounds && !isInScope(scope, [bounds.x, bounds.y, bounds.w, bounds.h])
+    );
+  };
+
+  return {
+    checkAction(action) {
+      for (const id of getChangedShapeIds(action)) {
+        const shape = editor.getShape(toShapeId(id));
+        if (!shape) continue;
+        if (editor.isShapeOrAncestorLocked(shape)) {
+          throw new AgentPolicyError(`"${id}" is locked`);
+        }
+        if (isAgentProtected(editor, shape)) {
+          throw new AgentPolicyError(`"${id}" is protected from agent edits`);
+        }
+        if (isOutOfScope(shape)) {
+          throw new AgentPolicyError(
+            `"${id}" is outside the area this run is limited to`,
+          );
+        }
+      }
+    },
+
+    checkChanges(diff) {
+      const removed = Object.values(diff.removed).filter(isShapeRecord);
+      const changed = [
+        ...Object.values(diff.added),
+        ...Object.values(diff.updated).map(([, to]) => to),
+      ].filter(isShapeRecord);
+
+      for (const [verb, shapes] of [
+        ["delete", removed],
+        ["change", changed],
+      ] as const) {
+        // Ancestors count too, so nothing lands in a locked or protected frame.
+        for (const shape of shapes) {
+          if (editor.isShapeOrAncestorLocked(shape)) {
+            throw new AgentPolicyError(
+              `would ${verb} "${shape.id}", which is locked`,
+            );
+          }
+          if (isAgentProtected(editor, shape)) {
+            throw new AgentPolicyError(
+              `would ${verb} "${shape.id}", which is protected from agent edits`,
+            );
+          }
+        }
+      }
+      // Arrows may reach outside the area to connect to shapes there.
+      const outside = changed.find(
+        (shape) => shape.type !== "arrow" && isOutOfScope(shape),
+      );
+      if (outside) {
+        throw new AgentPolicyError(
+          `would put "${outside.id}" outside the area this run is limited to`,
+        );
+      }
+
+      if (removed.length === 0) return;
+      const total = deleted + removed.length;
+      if (total > policy.maxDeletions) {
+        throw new AgentPolicyError(
+          `would delete ${removed.length} shape(s); a run may delete at most ${policy.maxDeletions} and this one has deleted ${deleted}`,
+        );
+      }
+      if (!confirmed && total > policy.confirmDeletionsAbove) {
+        throw new AgentPolicyError(
+          `deletes ${removed.length} shape(s), past the ${policy.confirmDeletionsAbove} a run may delete without asking`,
+          true,
+        );
+      }
+      deleted = total;
+    },
+  };
+}
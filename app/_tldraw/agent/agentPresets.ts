@@ -0,0 +1,68 @@
+import { type Editor, uniqueId } from "tldraw";
+import {
+  type AgentPreset,
+  BUILT_IN_AGENT_PRESETS,
+  isAgentPreset,
+} from "@/app/_agent/presets";
+
+// Team presets live in the board's document record, so they are saved and
+// synced with the board like any shape.
+
+/** The presets this board's team defined, in the order they were added. */
+export function getBoardPresets(editor: Editor): AgentPreset[] {
+  const { agentPresets } = editor.getDocumentSettings().meta;
+  return Array.isArray(agentPresets) ? agentPresets.filter(isAgentPreset) : [];
+}
+
+export function setBoardPresets(editor: Editor, presets: AgentPreset[]) {
+  const { meta } = editor.getDocumentSettings();
+  // Document meta must be JSON, so unset optional fields are dropped.
+  const agentPresets = presets.map((preset) =>
+    Object.fromEntries(
+      Object.entries(preset).filter(([, value]) => value !== undefined),
+    ),
+  );
+  editor.updateDocumentSettings({ meta: { ...meta, agentPresets } });
+}
+
+export function addBoardPreset(editor: Editor, from?: AgentPreset) {
+  const preset: AgentPreset = {
+    id: `board-${uniqueId()}`,
+    name: from ? `${from.name} (copy)` : "New preset",
+    instructions: from?.instructions ?? "",
+    contextMode: from?.contextMode,
+    sendImage: from?.sendImage,
+  };
+  setBoardPresets(editor, [...getBoardPresets(editor), preset]);
+  return preset;
+}
+
+export function updateBoardPreset(
+  editor: Editor,
+  id: string,
+  patch: Partial<Omit<AgentPreset, "id">>,
+) {
+  setBoardPresets(
+    editor,
+    getBoardPresets(editor).map((p) => (p.id === id ? { ...p, ...patch } : p)),
+  );
+}
+
+export function deleteBoardPreset(editor: Editor, id: string) {
+  setBoardPresets(
+    editor,
+    getBoardPresets(editor).filter((p) => p.id !== id),
+  );
+}
+
+/** Built-in presets first, then the board's. */
+export function findAgentPreset(
+  editor: Editor,
+  id: string | null,
+): AgentPreset | undefined {
+  if (!id) return undefined;
+  return (
+    BUILT_IN_AGENT_PRESETS.find((p) => p.id === id) ??
+    getBoardPresets(editor).find((p) => p.id === id)
+  );
+}
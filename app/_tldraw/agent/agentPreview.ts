@@ -0,0 +1,148 @@
+import { atom, type TLShapeId } from "tldraw";
+import type { AgentScope } from "@/app/_agent/policy";
+import type { AgentAction, AgentShape } from "./agentActions";
+
+/** Actions planned by a prompt shape's last run, waiting to be accepted. */
+export type AgentPreview = {
+  actions: AgentAction[];
+  /** Parallel to `actions`; only enabled actions are drawn and applied. */
+  enabled: boolean[];
+  /** The area the run was limited to, which still applies on accept. */
+  scope?: AgentScope;
+};
+
+/**
+ * Pending previews keyed by prompt shape id. Kept out of the document on
+ * purpose: a preview is a proposal, not part of the board.
+ */
+const agentPreviews = atom<Map<TLShapeId, AgentPreview>>(
+  "agent previews",
+  new Map(),
+);
+
+function updatePreviews(fn: (previews: Map<TLShapeId, AgentPreview>) => void) {
+  agentPreviews.update((prev) => {
+    const next = new Map(prev);
+    fn(next);
+    return next;
+  });
+}
+
+export function getAgentPreviews(): ReadonlyMap<TLShapeId, AgentPreview> {
+  return agentPreviews.get();
+}
+
+export function getAgentPreview(promptId: TLShapeId): AgentPreview | undefined {
+  return agentPreviews.get().get(promptId);
+}
+
+export function startAgentPreview(promptId: TLShapeId, scope?: AgentScope) {
+  updatePreviews((previews) => {
+    previews.set(promptId, { actions: [], enabled: [], scope });
+  });
+}
+
+export function addAgentPreviewAction(
+  promptId: TLShapeId,
+  action: AgentAction,
+) {
+  updatePreviews((previews) => {
+    const preview = previews.get(promptId) ?? { actions: [], enabled: [] };
+    previews.set(promptId, {
+      ...preview,
+      actions: [...preview.actions, action],
+      enabled: [...preview.enabled, true],
+    });
+  });
+}
+
+export function toggleAgentPreviewAction(promptId: TLShapeId, index: number) {
+  updatePreviews((previews) => {
+    const preview = previews.get(promptId);
+    if (!preview) return;
+    previews.set(promptId, {
+      ...preview,
+      enabled: preview.enabled.map((on, i) => (i === index ? !on : on)),
+    });
+  });
+}
+
+export function clearAgentPreview(promptId: TLShapeId) {
+  updatePreviews((previews) => {
+    previews.delete(promptId);
+  });
+}
+
+/** The actions the user left enabled, in plan order. */
+export function getEnabledPreviewActions(preview: AgentPreview) {
+  return preview.actions.filter((_, i) => preview.enabled[i]);
+}
+
+/** One-line, human readable summary of an action for the preview list. */
+function quote(text: string | undefined): string {
+  return text ? ` “${text}”` : "";
+}
+
+function describeAgentShape(shape: AgentShape): string {
+  switch (shape.kind) {
+    case "geo":
+      return `${shape.geo}${quote(shape.label)}`;
+    case "text":
+      return `text${quote(shape.text)}`;
+    case "arrow":
+      return `arrow${quote(shape.label)}`;
+    case "note":
+      return `note${quote(shape.text)}`;
+    case "frame":
+      return `frame${quote(shape.name)}`;
+    case "line":
+    case "highlight":
+      return `${shape.kind} (${shape.points.length} points)`;
+    case "embed":
+    case "bookmark":
+      return `${shape.kind} ${shape.url}`;
+  }
+}
+
+export function describeAgentAction(action: AgentAction): string {
+  switch (action._type) {
+    case "create_shape":
+      return `Create ${describeAgentShape(action.shape)}`;
+    case "update_shape": {
+      const moved =
+        typeof action.patch.x === "number" ||
+        typeof action.patch.y === "number";
+      const restyled = !!action.patch.props;
+      const verb =
+        moved && restyled ? "Move & update" : moved ? "Move" : "Update";
+      return `${verb} ${action.id}`;
+    }
+    case "delete_shape":
+      return `Delete ${action.id}`;
+    case "select":
+      return `Select ${action.ids.length} shape(s)`;
+    case "connect":
+      return `Connect ${action.fromId} to ${action.toId}${quote(action.label)}`;
+    case "create_graph":
+      return `Create diagram (${action.nodes.length} nodes, ${action.edges?.length ?? 0} edges)`;
+    case "layout":
+      return `Lay out ${action.ids.length} shapes`;
+    case "group":
+      return `Group ${action.ids.length} shapes`;
+    case "ungroup":
+      return `Ungroup ${action.ids.length} group(s)`;
+    case "reparent":
+      return action.parentId
+        ? `Move ${action.ids.length} shape(s) into ${action.parentId}`
+        : `Move ${action.ids.length} shape(s) onto the page`;
+    case "align":
+      return `Align ${action.ids.length} shapes (${action.alignment})`;
+    case "distribute":
+    case "stack":
+      return `${action._type === "stack" ? "Stack" : "Distribute"} ${action.ids.length} shapes ${action.direction}ly`;
+    case "reorder":
+      return `${action.order === "front" || action.order === "forward" ? "Bring" : "Send"} ${action.ids.length} shape(s) ${action.order === "front" || action.order === "back" ? `to ${action.order}` : action.order}`;
+    case "duplicate":
+      return `Duplicate ${action.ids.length} shape(s)`;
+  }
+}
@@ -0,0 +1,183 @@
+import {
+  createShapePropsMigrationIds,
+  createShapePropsMigrationSequence,
+  type RecordProps,
+  type TLShape,
+} from "@tldraw/tlschema";
+import { T } from "@tldraw/validate";
+import {
+  AGENT_CONTEXT_MODES,
+  AGENT_PLACEMENT_MODES,
+  type AgentContextMode,
+  type AgentPlacementMode,
+} from "@/app/_constants/agent";
+import type { AgentRunRecord } from "./agentRuns";
+
+// The prompt shape's record schema, kept apart from its React util so the
+// sync server can validate and migrate boards without loading the editor UI.
+
+/** One entry in a prompt shape's conversation. */
+export type AgentTurn = {
+  role: "user" | "agent";
+  text: string;
+  /** User turns: the collaborator who sent it. */
+  author?: string;
+  /** Agent turns: what the run did to the canvas, e.g. "Created 3 shapes". */
+  summary?: string;
+  /** Agent turns: set when the run failed; `text` holds the error. */
+  isError?: boolean;
+  /** Agent turns: the run's id in the server's run log. */
+  logId?: string;
+  /** Agent turns: actions that were skipped or failed, one line each. */
+  problems?: string[];
+  createdAt: number;
+};
+
+/** Who is running a prompt shape right now, shown to every collaborator. */
+export type AgentActiveRun = {
+  userId: string;
+  userName: string;
+  startedAt: number;
+};
+
+export type AgentPromptShapeProps = {
+  w: number;
+  h: number;
+  /** The composer's draft for the next turn. */
+  message: string;
+  thread: AgentTurn[];
+  /** Past runs, newest last, so individual runs can be reverted. */
+  runs: AgentRunRecord[];
+  /** When set, runs stage their actions as a preview instead of applying them. */
+  preview: boolean;
+  /** Which shapes the agent is shown; see `selectAgentContext`. */
+  contextMode: AgentContextMode;
+  /** When set, a PNG of the selection or viewport is sent along. */
+  sendImage: boolean;
+  activeRun: AgentActiveRun | null;
+  /** A built-in or board preset whose instructions are sent with each run. */
+  presetId: string | null;
+  /** When set, runs may only change shapes inside the selection's area. */
+  limitToSelection: boolean;
+  /** What happens to the shapes a run creates; see `placeAgentShapes`. */
+  placement: AgentPlacementMode;
+};
+
+declare module "@tldraw/tlschema" {
+  export interface TLGlobalShapePropsMap {
+    "agent-prompt": AgentPromptShapeProps;
+  }
+}
+
+export type AgentPromptShape = TLShape<"agent-prompt">;
+
+export const agentPromptShapeProps = {
+  w: T.number,
+  h: T.number,
+  message: T.string,
+  thread: T.arrayOf(
+    T.object({
+      role: T.literalEnum("user", "agent"),
+      text: T.string,
+      author: T.string.optional(),
+      summary: T.string.optional(),
+      isError: T.boolean.optional(),
+      logId: T.string.optional(),
+      problems: T.arrayOf(T.string).optional(),
+      createdAt: T.number,
+    }),
+  ),
+  runs: T.arrayOf(
+    T.object({
+      id: T.string,
+      prompt: T.string,
+      createdAt: T.number,
+      userId: T.string.optional(),
+      userName: T.string.optional(),
+      logId: T.string.optional(),
+      created: T.arrayOf(T.string),
+      createdState: T.arrayOf(T.dict(T.string, T.jsonValue)).optional(),
+      updated: T.arrayOf(
+        T.object({
+          before: T.dict(T.string, T.jsonValue),
+          after: T.dict(T.string, T.jsonValue),
+        }),
+      ),
+      deleted: T.arrayOf(T.dict(T.string, T.jsonValue)),
+      revertedAt: T.number.optional(),
+    }),
+  ),
+  preview: T.boolean,
+  contextMode: T.literalEnum(...AGENT_CONTEXT_MODES),
+  sendImage: T.boolean,
+  activeRun: T.object({
+    userId: T.string,
+    userName: T.string,
+    startedAt: T.number,
+  }).nullable(),
+  presetId: T.string.nullable(),
+  limitToSelection: T.boolean,
+  placement: T.literalEnum(...AGENT_PLACEMENT_MODES),
+} satisfies RecordProps<AgentPromptShape>;
+
+const versions = createShapePropsMigrationIds("agent-prompt", {
+  AddPreview: 1,
+  AddThread: 2,
+  AddRuns: 3,
+  AddContextMode: 4,
+  AddSendImage: 5,
+  AddActiveRun: 6,
+  AddPreset: 7,
+  AddLimitToSelection: 8,
+  AddPlacement: 9,
+});
+
+export const agentPromptShapeMigrations = createShapePropsMigrationSequence({
+  sequence: [
+    {
+      id: versions.AddPreview,
+      up: (props) => ({ ...props, preview: false }),
+      down: ({ preview: _preview, ...props }) => props,
+    },
+    {
+      id: versions.AddThread,
+      up: (props) => ({ ...props, thread: [] }),
+      down: ({ thread: _thread, ...props }) => props,
+    },
+    {
+      id: versions.AddRuns,
+      up: (props) => ({ ...props, runs: [] }),
+      down: ({ runs: _runs, ...props }) => props,
+    },
+    {
+      id: versions.AddContextMode,
+      up: (props) => ({ ...props, contextMode: "auto" }),
+      down: ({ contextMode: _contextMode, ...props }) => props,
+    },
+    {
+      id: versions.AddSendImage,
+      up: (props) => ({ ...props, sendImage: false }),
+      down: ({ sendImage: _sendImage, ...props }) => props,
+    },
+    {
+      id: versions.AddActiveRun,
+      up: (props) => ({ ...props, activeRun: null }),
+      down: ({ activeRun: _activeRun, ...props }) => props,
+    },
+    {
+      id: versions.AddPreset,
+      up: (props) => ({ ...props, presetId: null }),
+      down: ({ presetId: _presetId, ...props }) => props,
+    },
+    {
+      id: versions.AddLimitToSelection,
+      up: (props) => ({ ...props, limitToSelection: false }),
+      down: ({ limitToSelection: _limitToSelection, ...props }) => props,
+    },
+    {
+      id: versions.AddPlacement,
+      up: (props) => ({ ...props, placement: "free-space" }),
+      down: ({ placement: _placement, ...props }) => props,
+    },
+  ],
+});
@@ -0,0 +1,82 @@
+// Must come first: tldraw needs the DOM globals as soon as it loads.
+import "@/app/_headless/dom";
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { createShapeId, type Editor } from "tldraw";
+import { createHeadlessEditor } from "@/app/_headless/executor";
+import type { AgentAction } from "./agentActions";
+import { createAgentRunRecorder, revertAgentRun } from "./agentRuns";
+
+const user = { id: "user:test", name: "Test" };
+
+let editor: Editor;
+beforeEach(() => {
+  editor = createHeadlessEditor();
+});
+afterEach(() => {
+  editor.dispose();
+});
+
+function run(actions: AgentAction[]) {
+  const recorder = createAgentRunRecorder(editor, "test", user);
+  recorder.apply(actions);
+  const record = recorder.getRecord();
+  if (!record) throw new Error("The run changed nothing");
+  return record;
+}
+
+test("reverting a run removes what it created", () => {
+  const record = run([
+    {
+      _type: "create_shape",
+      shape: { kind: "geo", id: "a", geo: "rectangle", x: 0, y: 0 },
+    },
+  ]);
+
+  expect(revertAgentRun(editor, record)).toBe(0);
+  expect(editor.getShape(createShapeId("a"))).toBeUndefined();
+});
+
+test("shapes people added to a created frame survive the revert", () => {
+  const record = run([
+    {
+      _type: "create_shape",
+      shape: { kind: "frame", id: "f1", x: 100, y: 100, w: 400, h: 300 },
+    },
+  ]);
+  const frameId = createShapeId("f1");
+  const childId = createShapeId("child");
+  editor.createShape({
+    id: childId,
+    type: "geo",
+    parentId: frameId,
+    x: 20,
+    y: 30,
+  });
+
+  expect(revertAgentRun(editor, record)).toBe(0);
+  expect(editor.getShape(frameId)).toBeUndefined();
+  const child = editor.getShape(childId);
+  expect(child?.parentId).toBe(editor.getCurrentPageId());
+  expect(child && editor.getShapePageTransform(child).point()).toMatchObject({
+    x: 120,
+    y: 130,
+  });
+});
+
+test("created shapes edited since the run are kept as conflicts", () => {
+  const record = run([
+    {
+      _type: "create_shape",
+      shape: { kind: "geo", id: "a", geo: "rectangle", x: 0, y: 0 },
+    },
+    {
+      _type: "create_shape",
+      shape: { kind: "geo", id: "b", geo: "ellipse", x: 300, y: 0 },
+    },
+  ]);
+  editor.updateShape({ id: createShapeId("a"), type: "geo", x: 50 });
+
+  expect(revertAgentRun(editor, record)).toBe(1);
+  expect(editor.getShape(createShapeId("a"))?.x).toBe(50);
+  expect(editor.getShape(createShapeId("b"))).toBeUndefined();
+});
@@ -0,0 +1,307 @@
+import {
+  type Editor,
+  isEqual,
+  isRecordsDiffEmpty,
+  type JsonObject,
+  type RecordsDiff,
+  squashRecordDiffs,
+  type TLBinding,
+  type TLRecord,
+  type TLShape,
+  type TLShapeId,
+} from "tldraw";
+import type { AgentScope } from "@/app/_agent/policy";
+import type { AgentRunUser } from "@/app/_agent/runLocks";
+import {
+  type AgentPlacementMode,
+  MAX_AGENT_RUNS_PER_SHAPE,
+} from "@/app/_constants/agent";
+import {
+  type AgentAction,
+  applyAgentActions,
+  createAgentApplyReport,
+} from "./agentActions";
+import { placeAgentShapes } from "./agentPlacement";
+import { createAgentPolicyGuard, getBoardPolicy } from "./agentPolicy";
+import type { AgentPromptShape } from "./agentPromptSchema";
+
+/**
+ * What one agent run changed on the canvas, stored on the prompt shape so it
+ * can be reverted later. Only document records that matter for a revert are
+ * kept: shapes and bindings.
+ */
+export type AgentRunRecord = {
+  id: string;
+  prompt: string;
+  createdAt: number;
+  /** The collaborator who started the run. */
+  userId?: string;
+  userName?: string;
+  /** The run's id in the server's run log, for the inspector. */
+  logId?: string;
+  /** Ids of the shapes and bindings the run created. */
+  created: string[];
+  /**
+   * The created shapes and bindings as the run left them, to tell whether
+   * anyone has edited them since. Missing on runs recorded before it existed.
+   */
+  createdState?: JsonObject[];
+  /** Each shape or binding the run modified, before and after. */
+  updated: { before: JsonObject; after: JsonObject }[];
+  /** Shapes and bindings the run deleted, as they were before deletion. */
+  deleted: JsonObject[];
+  /** Set once the run has been reverted. */
+  revertedAt?: number;
+};
+
+function isCanvasRecord(record: TLRecord): record is TLShape | TLBinding {
+  return record.typeName === "shape" || record.typeName === "binding";
+}
+
+function toJson(record: TLRecord): JsonObject {
+  return record as unknown as JsonObject;
+}
+
+/** This editor's user, as runs started here are attributed. */
+export function getAgentRunUser(editor: Editor): AgentRunUser {
+  return {
+    id: editor.user.getId(),
+    name: editor.user.getName() || "Anonymous",
+  };
+}
+
+/** Adds a run to its prompt shape's list, keeping the newest ones. */
+export function appendAgentRun(
+  editor: Editor,
+  promptId: AgentPromptShape["id"],
+  run: AgentRunRecord,
+) {
+  const shape = editor.getShape<AgentPromptShape>(promptId);
+  if (!shape) return;
+  editor.updateShape<AgentPromptShape>({
+    id: promptId,
+    type: "agent-prompt",
+    props: {
+      runs: [...shape.props.runs, run].slice(-MAX_AGENT_RUNS_PER_SHAPE),
+    },
+  });
+}
+
+/** Short summary for the run list, e.g. "+3 ~1 −2". */
+export function summarizeAgentRun(run: AgentRunRecord): string {
+  return `+${run.created.length} ~${run.updated.length} −${run.deleted.length}`;
+}
+
+/**
+ * Applies one run's actions (possibly across several calls, as they stream
+ * in) and records what they changed. The first apply sets a named history
+ * mark, so the run can also be undone as a unit. The board's agent policy
+ * applies throughout; `confirmed` lets deletions past its threshold through.
+ * `place` then moves what the run created out of other shapes' way.
+ */
+export function createAgentRunRecorder(
+  editor: Editor,
+  prompt: string,
+  user: AgentRunUser,
+  opts: { scope?: AgentScope; confirmed?: boolean } = {},
+) {
+  const diffs: RecordsDiff<TLRecord>[] = [];
+  const createdAt = Date.now();
+  const report = createAgentApplyReport();
+  const guard = createAgentPolicyGuard(editor, {
+    policy: getBoardPolicy(editor),
+    ...opts,
+  });
+  let actionCount = 0;
+
+  return {
+    apply(actions: AgentAction[]) {
+      if (diffs.length === 0) {
+        editor.markHistoryStoppingPoint(`agent run: ${prompt.slice(0, 60)}`);
+      }
+      diffs.push(
+        editor.store.extractingChanges(() =>
+          applyAgentActions(editor, actions, {
+            report,
+            firstIndex: actionCount,
+            guard,
+          }),
+        ),
+      );
+      actionCount += actions.length;
+    },
+    /**
+     * Moves the shapes the run created into free space, as `mode` says, once
+     * it has finished; see `placeAgentShapes`.
+     */
+    place(mode: AgentPlacementMode) {
+      if (diffs.length === 0) return;
+      const created = Object.values(squashRecordDiffs(diffs).added)
+        .filter((record) => record.typeName === "shape")
+        .map((record) => record.id as TLShapeId);
+      diffs.push(
+        editor.store.extractingChanges(() =>
+          placeAgentShapes(editor, created, {
+            mode,
+            prompt,
+            within: opts.scope,
+          }),
+        ),
+      );
+    },
+    /** What became of every action applied so far. */
+    getReport() {
+      return report;
+    },
+    /** The run's record, or `null` if it didn't change any shapes. */
+    getRecord(): AgentRunRecord | null {
+      if (diffs.length === 0) return null;
+      const diff = squashRecordDiffs(diffs);
+      if (isRecordsDiffEmpty(diff)) return null;
+
+      const added = Object.values(diff.added).filter(isCanvasRecord);
+      const record: AgentRunRecord = {
+        id: `run-${createdAt.toString(36)}`,
+        prompt,
+        createdAt,
+        userId: user.id,
+        userName: user.name,
+        created: added.map((r) => r.id),
+        createdState: added.map(toJson),
+        updated: Object.values(diff.updated)
+          .filter(([from]) => isCanvasRecord(from))
+          .map(([from, to]) => ({ before: toJson(from), after: toJson(to) })),
+        deleted: Object.values(diff.removed).filter(isCanvasRecord).map(toJson),
+      };
+      const changed =
+        record.created.length + record.updated.length + record.deleted.length;
+      return changed > 0 ? record : null;
+    },
+  };
+}
+
+/**
+ * Restores the fields (and `props` keys) the run changed, but only where they
+ * still hold the value the run left behind. Returns the reverted record and
+ * how many fields were left alone because someone edited them since.
+ */
+function revertFields(
+  before: JsonObject,
+  after: JsonObject,
+  current: JsonObject,
+): { next: JsonObject; conflicts: number } {
+  const next: JsonObject = { ...current };
+  let conflicts = 0;
+
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const from = before[key];
+    const to = after[key];
+    if (isEqual(from, to)) continue;
+
+    if (key === "props" && from && to && typeof from === "object") {
+      const nested = revertFields(
+        from as JsonObject,
+        to as JsonObject,
+        (current.props ?? {}) as JsonObject,
+      );
+      next.props = nested.next;
+      conflicts += nested.conflicts;
+      continue;
+    }
+
+    if (isEqual(current[key], to)) next[key] = from;
+    else conflicts++;
+  }
+
+  return { next, conflicts };
+}
+
+/**
+ * Undoes one run without touching anything else: removes what it created,
+ * restores what it deleted and rolls back the fields it changed, skipping any
+ * a person has edited since. Created shapes and bindings someone edited are
+ * kept, and shapes people added to created frames or groups move up to the
+ * nearest parent that stays. Returns the number of skipped changes.
+ */
+export function revertAgentRun(editor: Editor, run: AgentRunRecord): number {
+  let conflicts = 0;
+
+  editor.markHistoryStoppingPoint(
+    `revert agent run: ${run.prompt.slice(0, 60)}`,
+  );
+  editor.run(() => {
+    const createdState = new Map(
+      (run.createdState ?? []).map((record) => [record.id as string, record]),
+    );
+    const created = run.created.filter((id) => {
+      const current = editor.store.get(id as TLRecord["id"]);
+      if (!current) return false;
+      const state = createdState.get(id);
+      if (state && !isEqual(toJson(current), state)) {
+        conflicts++;
+        return false;
+      }
+      return true;
+    });
+    const createdShapeIds = new Set(
+      created.filter((id) => id.startsWith("shape:")) as TLShapeId[],
+    );
+
+    for (const id of createdShapeIds) {
+      const children = editor
+        .getSortedChildIdsForParent(id)
+        .filter((childId) => !createdShapeIds.has(childId));
+      if (children.length === 0) continue;
+      let parentId = editor.getShape(id)?.parentId;
+      while (parentId && createdShapeIds.has(parentId as TLShapeId)) {
+        parentId = editor.getShape(parentId as TLShapeId)?.parentId;
+      }
+      editor.reparentShapes(children, parentId ?? editor.getCurrentPageId());
+    }
+
+    editor.deleteBindings(
+      created.filter((id) => id.startsWith("binding:")) as TLBinding["id"][],
+    );
+    editor.deleteShapes([...createdShapeIds]);
+
+    const restored: TLRecord[] = [];
+    for (const { before, after } of run.updated) {
+      const current = editor.store.get(before.id as TLRecord["id"]);
+      if (!current) {
+        conflicts++;
+        continue;
+      }
+      const result = revertFields(before, after, toJson(current));
+      restored.push(result.next as unknown as TLRecord);
+      conflicts += result.conflicts;
+    }
+
+    const deleted = run.deleted as unknown as (TLShape | TLBinding)[];
+    const deletedIds = new Set<string>(deleted.map((r) => r.id));
+    const pageId = editor.getCurrentPageId();
+    for (const record of deleted) {
+      if (record.typeName !== "shape" || editor.store.has(record.id)) continue;
+      // The old parent (a frame or group) may be gone for good; fall back to
+      // the page unless it's being restored along with this shape.
+      const parentId =
+        editor.store.has(record.parentId) || deletedIds.has(record.parentId)
+          ? record.parentId
+          : pageId;
+      restored.push({ ...record, parentId });
+    }
+    editor.store.put(restored);
+
+    // Bindings last, and only where both ends exist again.
+    editor.store.put(
+      deleted.filter(
+        (record): record is TLBinding =>
+          record.typeName === "binding" &&
+          !editor.store.has(record.id) &&
+          editor.store.has(record.fromId) &&
+          editor.store.has(record.toId),
+      ),
+    );
+  });
+
+  return conflicts;
+}
@@ -0,0 +1,33 @@
+// Must come first: tldraw needs the DOM globals as soon as it loads.
+import "@/app/_headless/dom";
+import { afterEach, beforeEach, expect, test } from "bun:test";
+import { createShapeId, type Editor } from "tldraw";
+import { createHeadlessEditor } from "@/app/_headless/executor";
+import { createAgentSerializer } from "./agentSerializer";
+
+let editor: Editor;
+beforeEach(() => {
+  editor = createHeadlessEditor();
+});
+afterEach(() => {
+  editor.dispose();
+});
+
+test("shapes inside a locked frame are marked locked", () => {
+  const frameId = createShapeId("frame");
+  const childId = createShapeId("child");
+  editor.createShape({ id: frameId, type: "frame", x: 0, y: 0 });
+  editor.createShape({ id: childId, type: "geo", parentId: frameId });
+  editor.createShape({ id: createShapeId("free"), type: "geo", x: 500 });
+  editor.updateShape({ id: frameId, type: "frame", isLocked: true });
+
+  const { serialize } = createAgentSerializer(editor);
+  const locked = editor
+    .getCurrentPageShapes()
+    .map((shape) => [shape.id, !!serialize(shape).isLocked]);
+  expect(Object.fromEntries(locked)).toEqual({
+    [frameId]: true,
+    [childId]: true,
+    [createShapeId("free")]: false,
+  });
+});
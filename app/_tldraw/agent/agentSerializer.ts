@@ -0,0 +1,128 @@
+import {
+  type Editor,
+  isEqual,
+  renderPlaintextFromRichText,
+  type TLArrowBinding,
+  type TLRichText,
+  type TLShape,
+  type TLShapeId,
+} from "tldraw";
+import type { CanvasShapeSummary } from "@/app/_agent/prompt";
+import type { AgentArrowBinding } from "./agentActions";
+import { isAgentProtected } from "./agentPolicy";
+
+function round(n: number, digits = 0): number {
+  const factor = 10 ** digits;
+  return Math.round(n * factor) / factor;
+}
+
+function isRichText(value: unknown): value is TLRichText {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    (value as { type?: unknown }).type === "doc"
+  );
+}
+
+/**
+ * Serializes shapes into the compact CANVAS_STATE format: short aliases
+ * (`s1`, `s2`, ...) instead of `shape:` ids, rounded coordinates, only the
+ * props that differ from the shape's defaults and rich text flattened to a
+ * `text` string. Aliases are handed out in serialization order, so the most
+ * relevant shapes get the shortest ones; `aliases` maps them back.
+ */
+export function createAgentSerializer(editor: Editor) {
+  const aliases: Record<string, TLShapeId> = {};
+  const aliasById = new Map<TLShapeId, string>();
+
+  function aliasOf(id: TLShapeId): string {
+    let alias = aliasById.get(id);
+    if (!alias) {
+      alias = `s${aliasById.size + 1}`;
+      aliasById.set(id, alias);
+      aliases[alias] = id;
+    }
+    return alias;
+  }
+
+  function getCompactProps(shape: TLShape): Record<string, unknown> {
+    const defaults = editor.getShapeUtil(shape).getDefaultProps() as Record<
+      string,
+      unknown
+    >;
+    const props: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(shape.props)) {
+      if (isEqual(value, defaults[key])) continue;
+      if (key === "richText" && isRichText(value)) {
+        const text = renderPlaintextFromRichText(editor, value);
+        if (text) props.text = text;
+        continue;
+      }
+      props[key] = typeof value === "number" ? round(value, 2) : value;
+    }
+    return props;
+  }
+
+  /** Nearest ancestor of each kind, so the model sees frame and group membership. */
+  function getContainers(shape: TLShape) {
+    let frame: string | undefined;
+    let group: string | undefined;
+    for (const ancestor of editor.getShapeAncestors(shape).toReversed()) {
+      if (!frame && ancestor.type === "frame") frame = aliasOf(ancestor.id);
+      if (!group && ancestor.type === "group") group = aliasOf(ancestor.id);
+    }
+    return { frame, group };
+  }
+
+  function serialize(shape: TLShape): CanvasShapeSummary {
+    const summary: CanvasShapeSummary = {
+      id: aliasOf(shape.id),
+      type: shape.type,
+      x: round(shape.x),
+      y: round(shape.y),
+    };
+
+    const bounds = editor.getShapePageBounds(shape);
+    if (bounds) {
+      summary.bounds = [
+        round(bounds.x),
+        round(bounds.y),
+        round(bounds.w),
+        round(bounds.h),
+      ];
+    }
+
+    const { frame, group } = getContainers(shape);
+    if (frame) summary.frame = frame;
+    if (group) summary.group = group;
+    if (shape.rotation) summary.rotation = round(shape.rotation, 2);
+    if (editor.isShapeOrAncestorLocked(shape)) summary.isLocked = true;
+    if (isAgentProtected(editor, shape)) summary.isProtected = true;
+
+    const props = getCompactProps(shape);
+    if (Object.keys(props).length > 0) summary.props = props;
+
+    if (shape.type === "arrow") {
+      // Include arrow bindings so the agent can describe / edit connections using tldraw's model.
+      summary.bindings = editor
+        .getBindingsFromShape<TLArrowBinding>(shape.id, "arrow")
+        .map(
+          (b) =>
+            ({
+              terminal: b.props.terminal,
+              toId: aliasOf(b.toId),
+              normalizedAnchor: {
+                x: round(b.props.normalizedAnchor.x, 2),
+                y: round(b.props.normalizedAnchor.y, 2),
+              },
+              isExact: b.props.isExact,
+              isPrecise: b.props.isPrecise,
+            }) satisfies AgentArrowBinding,
+        );
+    }
+
+    return summary;
+  }
+
+  return { serialize, aliases };
+}
@@ -0,0 +1,26 @@
+/**
+ * Keeps pointer and key events inside an agent prompt's controls from
+ * reaching tldraw, so typing doesn't trigger tool shortcuts.
+ */
+export function stopEvent(e: {
+  stopPropagation(): void;
+  nativeEvent?: {
+    stopImmediatePropagation?: () => void;
+  };
+}) {
+  // Allow copy/cut/paste shortcuts to work
+  if (
+    e.nativeEvent instanceof KeyboardEvent &&
+    (e.nativeEvent.metaKey || e.nativeEvent.ctrlKey) &&
+    (e.nativeEvent.key === "c" ||
+      e.nativeEvent.key === "x" ||
+      e.nativeEvent.key === "v")
+  ) {
+    return;
+  }
+
+  e.stopPropagation();
+  // Some tldraw listeners are global; stopping immediate propagation helps prevent
+  // key events from becoming tool shortcuts while typing.
+  e.nativeEvent?.stopImmediatePropagation?.();
+}
@@ -0,0 +1,91 @@
+import { getSnapshot, type TLStore } from "tldraw";
+import { DOCUMENT_AUTOSAVE_DELAY_MS } from "@/app/_constants/documents";
+
+export type BoardSaveStatus = "saved" | "unsaved" | "saving" | "error";
+
+/** Failed saves are retried after this long, even without further edits. */
+const RETRY_DELAY_MS = DOCUMENT_AUTOSAVE_DELAY_MS * 5;
+
+export function getBoardUrl(boardId: string) {
+  return `/api/documents/${encodeURIComponent(boardId)}`;
+}
+
+/**
+ * Saves the store's document to `/api/documents/:id` a moment after each
+ * local change (agent runs included). One save is in flight at a time;
+ * changes made meanwhile are saved right after it.
+ */
+export function createBoardAutosave(
+  store: TLStore,
+  boardId: string,
+  onStatus: (status: BoardSaveStatus) => void,
+) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let inFlight: Promise<void> | null = null;
+  let isDirty = false;
+
+  const getBody = () =>
+    JSON.stringify({ snapshot: getSnapshot(store).document });
+
+  const schedule = (delay: number) => {
+    clearTimeout(timer);
+    timer = setTimeout(save, delay);
+  };
+
+  async function save() {
+    timer = undefined;
+    if (inFlight) await inFlight;
+    if (!isDirty || inFlight) return;
+    isDirty = false;
+    onStatus("saving");
+    inFlight = fetch(getBoardUrl(boardId), {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: getBody(),
+    })
+      .then(async (res) => {
+        if (!res.ok) throw new Error(await res.text());
+        onStatus(isDirty ? "unsaved" : "saved");
+      })
+      .catch(() => {
+        isDirty = true;
+        onStatus("error");
+        schedule(RETRY_DELAY_MS);
+      })
+      .finally(() => {
+        inFlight = null;
+      });
+    await inFlight;
+  }
+
+  const unlisten = store.listen(
+    () => {
+      isDirty = true;
+      onStatus("unsaved");
+      schedule(DOCUMENT_AUTOSAVE_DELAY_MS);
+    },
+    { scope: "document", source: "user" },
+  );
+
+  return {
+    hasUnsavedChanges: () => isDirty || !!inFlight,
+    /** Last-chance save while the page unloads. */
+    flush() {
+      if (!isDirty) return;
+      clearTimeout(timer);
+      isDirty = false;
+      fetch(getBoardUrl(boardId), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: getBody(),
+        keepalive: true,
+      }).catch(() => {});
+    },
+    /** Stops listening; pending changes are still saved. */
+    dispose() {
+      unlisten();
+      clearTimeout(timer);
+      if (isDirty) void save();
+    },
+  };
+}
@@ -0,0 +1,147 @@
+import { useSync } from "@tldraw/sync";
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import {
+  createTLStore,
+  defaultBindingUtils,
+  defaultShapeUtils,
+  inlineBase64AssetStore,
+  loadSnapshot,
+  type TLAnyShapeUtilConstructor,
+  type TLStoreWithStatus,
+} from "tldraw";
+import type { BoardDocument, BoardSummary } from "@/app/_documents/types";
+import {
+  type BoardSaveStatus,
+  createBoardAutosave,
+  getBoardUrl,
+} from "./boardAutosave";
+
+/** Autosave progress, or for synced boards whether the sync server is reachable. */
+export type BoardStatus = BoardSaveStatus | "live" | "offline";
+
+export type BoardState = {
+  board: BoardSummary;
+  status: BoardStatus;
+  rename(name: string): Promise<void>;
+};
+
+/** The open board, for UI rendered inside `<Tldraw>`. */
+export const BoardContext = createContext<BoardState | null>(null);
+
+export function useBoard(): BoardState | null {
+  return useContext(BoardContext);
+}
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, init);
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(text || `Request failed: ${res.status}`);
+  }
+  return (await res.json()) as T;
+}
+
+function useBoardSummary(initial: BoardSummary) {
+  const [board, setBoard] = useState(initial);
+  const rename = useCallback(
+    async (name: string) => {
+      const updated = await fetchJson<BoardSummary>(getBoardUrl(initial.id), {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      setBoard(updated);
+    },
+    [initial.id],
+  );
+  return { board, rename };
+}
+
+/**
+ * Loads a board from `/api/documents` into a fresh store and keeps it saved.
+ * Custom shapes must be passed in so their records (and props migrations)
+ * load with the snapshot.
+ */
+export function useBoardStore(
+  initial: BoardSummary,
+  shapeUtils: readonly TLAnyShapeUtilConstructor[],
+): { store: TLStoreWithStatus } & BoardState {
+  const boardId = initial.id;
+  const { board, rename } = useBoardSummary(initial);
+  const [store] = useState(() =>
+    createTLStore({
+      shapeUtils: [...defaultShapeUtils, ...shapeUtils],
+      bindingUtils: defaultBindingUtils,
+    }),
+  );
+  const [storeWithStatus, setStoreWithStatus] = useState<TLStoreWithStatus>({
+    status: "loading",
+  });
+  const [status, setStatus] = useState<BoardSaveStatus>("saved");
+
+  useEffect(() => {
+    let cancelled = false;
+    let autosave: ReturnType<typeof createBoardAutosave> | undefined;
+
+    fetchJson<BoardDocument>(getBoardUrl(boardId)).then(
+      ({ snapshot }) => {
+        if (cancelled) return;
+        if (snapshot) loadSnapshot(store, { document: snapshot });
+        autosave = createBoardAutosave(store, boardId, setStatus);
+        setStoreWithStatus({ status: "not-synced", store });
+      },
+      (error: Error) => {
+        if (!cancelled) setStoreWithStatus({ status: "error", error });
+      },
+    );
+
+    const onPageHide = () => autosave?.flush();
+    const onBeforeUnload = (e: BeforeUnloadEvent) => {
+      if (autosave?.hasUnsavedChanges()) e.preventDefault();
+    };
+    window.addEventListener("pagehide", onPageHide);
+    window.addEventListener("beforeunload", onBeforeUnload);
+    return () => {
+      cancelled = true;
+      autosave?.dispose();
+      window.removeEventListener("pagehide", onPageHide);
+      window.removeEventListener("beforeunload", onBeforeUnload);
+    };
+  }, [boardId, store]);
+
+  return { store: storeWithStatus, board, status, rename };
+}
+
+/**
+ * Joins the board's room on the sync server at `syncUrl`, which loads and
+ * saves it, so every collaborator sees changes (agent runs included) live.
+ */
+export function useSyncedBoardStore(
+  initial: BoardSummary,
+  shapeUtils: readonly TLAnyShapeUtilConstructor[],
+  syncUrl: string,
+): { store: TLStoreWithStatus } & BoardState {
+  const { board, rename } = useBoardSummary(initial);
+  const allShapeUtils = useMemo(
+    () => [...defaultShapeUtils, ...shapeUtils],
+    [shapeUtils],
+  );
+  const store = useSync({
+    uri: `${syncUrl}/connect/${encodeURIComponent(initial.id)}`,
+    assets: inlineBase64AssetStore,
+    shapeUtils: allShapeUtils,
+    bindingUtils: defaultBindingUtils,
+  });
+  const status =
+    store.status === "synced-remote" && store.connectionStatus === "online"
+      ? "live"
+      : "offline";
+  return { store, board, status, rename };
+}
@@ -0,0 +1,48 @@
+export type DiffLine = { op: "same" | "add" | "remove"; text: string };
+
+/** Beyond this many line pairs, texts are shown as replaced wholesale. */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Line-by-line diff of `before` and `after` (longest common subsequence). */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text) => ({ op: "remove" as const, text })),
+      ...b.map((text) => ({ op: "add" as const, text })),
+    ];
+  }
+
+  // lcs[i][j]: length of the longest common subsequence of a[i..] and b[j..].
+  const lcs = Array.from(
+    { length: a.length + 1 },
+    () => new Uint32Array(b.length + 1),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ op: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ op: "remove", text: a[i++] });
+    } else {
+      lines.push({ op: "add", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ op: "remove", text: a[i++] });
+  while (j < b.length) lines.push({ op: "add", text: b[j++] });
+  return lines;
+}
@@ -1,156 +1,193 @@
-import { $ } from "bun";
 import { NextResponse } from "next/server";
-import { MAX_SHAPES_FOR_AGENT } from "@/app/_constants/agent";
-import type { AgentAction } from "@/app/_tldraw/agent/agentActions";
-
-type CanvasShapeSummary = {
-  id: string;
-  type: string;
-  x?: number;
-  y?: number;
-  props?: Record<string, unknown>;
-};
-
-type AgentRequestBody = {
-  message: string;
-  shapes?: CanvasShapeSummary[];
-  extraInstructions?: string;
-};
-
-type AgentPlan = {
-  actions: AgentAction[];
-  notes: string;
-};
-
-function isObject(value: unknown): value is Record<string, unknown> {
-  return !!value && typeof value === "object" && !Array.isArray(value);
-}
+import { resolveActionAliases } from "@/app/_agent/aliases";
+import {
+  type AgentBackend,
+  AgentBackendError,
+  type AgentBackendRequest,
+  getAgentBackend,
+  isAgentBackendId,
+} from "@/app/_agent/backends";
+import { generatePlan } from "@/app/_agent/generatePlan";
+import {
+  type AgentImage,
+  AgentImageError,
+  parseImageDataUrl,
+} from "@/app/_agent/image";
+import { isAgentPromptArea } from "@/app/_agent/placement";
+import { isObject, PlanValidationError } from "@/app/_agent/plan";
+import { isAgentScope, parseAgentPolicy } from "@/app/_agent/policy";
+import {
+  type AgentCanvasImage,
+  type AgentContextOmitted,
+  type AgentHistoryTurn,
+  type AgentRequestBody,
+  buildPrompt,
+} from "@/app/_agent/prompt";
+import { acquireAgentRunLock, isAgentRunUser } from "@/app/_agent/runLocks";
+import { type AgentRunTrace, createAgentRunTrace } from "@/app/_agent/runLog";
+import {
+  AgentQueueFullError,
+  acquireAgentRunSlot,
+  getAgentRunTimeoutMs,
+  isRunTimeout,
+  withRunTimeout,
+} from "@/app/_agent/runQueue";
+import {
+  createPlanValidationContext,
+  type PlanValidationContext,
+} from "@/app/_agent/schema";
+import {
+  AGENT_STREAM_CONTENT_TYPE,
+  type AgentStreamEvent,
+} from "@/app/_agent/stream";
+import {
+  AGENT_BACKEND_IDS,
+  MAX_AGENT_EXTRA_INSTRUCTIONS_LENGTH,
+  MAX_AGENT_HISTORY_TURNS,
+  MAX_SHAPES_FOR_AGENT,
+} from "@/app/_constants/agent";
 
-function buildPrompt(body: AgentRequestBody): string {
-  const shapes = body.shapes ?? [];
-  const shapesText = shapes.length
-    ? JSON.stringify(shapes.slice(0, 200), null, 2)
-    : "[]";
-
-  return `You are an assistant that plans edits to a tldraw canvas.
-
-Return ONLY valid JSON (no markdown, no commentary).
-
-Schema (strict):
-{
-  "actions": [
-    {"_type":"create_shape","shape":{"kind":"geo","id"?:string,"geo":"rectangle"|"ellipse"|"triangle"|"diamond"|"cloud"|"hexagon"|"star","x":number,"y":number,"w"?:number,"h"?:number,"label"?:string,"color"?:string}},
-    {"_type":"create_shape","shape":{"kind":"text","id"?:string,"x":number,"y":number,"w"?:number,"text":string,"color"?:string}},
-    {"_type":"create_shape","shape":{"kind":"arrow","id"?:string,"start":{"x":number,"y":number},"end":{"x":number,"y":number},"color"?:string,"label"?:string,
-      "bindings"?: [{"terminal":"start"|"end","toId":string,"normalizedAnchor"?:{"x":number,"y":number},"isExact"?:boolean,"isPrecise"?:boolean}] }},
-    {"_type":"update_shape","id":string,"patch":{"x"?:number,"y"?:number,"props"?:object}},
-    {"_type":"delete_shape","id":string},
-    {"_type":"select","ids":string[]}
-  ],
-  "notes": string
-}
+type AgentErrorEvent = Extract<AgentStreamEvent, { type: "error" }>;
 
-Rules:
-- Use existing shape ids from CANVAS_STATE when updating/deleting/selecting.
-- If you create multiple shapes that reference each other (e.g. arrows bound to boxes), provide stable ids via shape.id so bindings can refer to them.
-- Prefer small numbers of actions.
-- If the request is ambiguous, return an empty actions array and explain in notes.
+function isContextOmitted(value: unknown): value is AgentContextOmitted {
+  return (
+    isObject(value) && typeof value.count === "number" && isObject(value.types)
+  );
+}
 
-USER_INSTRUCTIONS:
-${body.message}
+function isCanvasImage(value: unknown): value is AgentCanvasImage {
+  return (
+    isObject(value) &&
+    typeof value.dataUrl === "string" &&
+    (value.source === "selection" || value.source === "viewport") &&
+    isObject(value.bounds) &&
+    ["x", "y", "w", "h"].every(
+      (key) =>
+        typeof (value.bounds as Record<string, unknown>)[key] === "number",
+    )
+  );
+}
 
-CANVAS_STATE (array of shapes):
-${shapesText}
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    isObject(value) && Object.values(value).every((v) => typeof v === "string")
+  );
+}
 
-${body.extraInstructions ? `EXTRA_INSTRUCTIONS:\n${body.extraInstructions}\n` : ""}`;
+function isHistoryTurn(value: unknown): value is AgentHistoryTurn {
+  return (
+    isObject(value) &&
+    (value.role === "user" || value.role === "agent") &&
+    typeof value.text === "string"
+  );
 }
 
-function extractJsonObject(text: string): unknown {
-  const trimmed = text.trim();
-  if (!trimmed) return null;
-  try {
-    return JSON.parse(trimmed);
-  } catch {
-    // fall through
+function toErrorEvent(backend: AgentBackend, e: unknown): AgentErrorEvent {
+  if (e instanceof PlanValidationError) {
+    return {
+      type: "error",
+      error: `${backend.id} output was not valid plan JSON`,
+      detail: e.message,
+      issues: e.issues,
+      agentStdout: e.output,
+    };
   }
-
-  const start = trimmed.indexOf("{");
-  const end = trimmed.lastIndexOf("}");
-  if (start >= 0 && end > start) {
-    const slice = trimmed.slice(start, end + 1);
-    return JSON.parse(slice);
+  if (e instanceof AgentBackendError) {
+    return { type: "error", error: e.message, detail: e.detail };
   }
-
-  throw new Error("Could not parse JSON from output");
+  if (e instanceof AgentQueueFullError) {
+    return { type: "error", error: e.message };
+  }
+  if (isRunTimeout(e)) {
+    return {
+      type: "error",
+      error: `${backend.id} timed out after ${Math.round(getAgentRunTimeoutMs() / 1000)}s`,
+    };
+  }
+  return {
+    type: "error",
+    error: `Failed to run ${backend.id}`,
+    detail: e instanceof Error ? e.message : String(e),
+  };
 }
 
-function validatePlan(plan: unknown): AgentPlan {
-  if (!isObject(plan)) throw new Error("Plan is not an object");
-  if (!Array.isArray(plan.actions))
-    throw new Error("Plan.actions must be an array");
-  if (typeof plan.notes !== "string")
-    throw new Error("Plan.notes must be a string");
-
-  // light validation of action structure
-  for (const action of plan.actions) {
-    if (!isObject(action) || typeof action._type !== "string") {
-      throw new Error("Invalid action in actions array");
-    }
-    switch (action._type) {
-      case "create_shape": {
-        if (!isObject(action.shape) || typeof action.shape.kind !== "string") {
-          throw new Error("create_shape.shape is invalid");
-        }
-
-        // Optional additional validation for arrow bindings.
-        if (action.shape.kind === "arrow") {
-          if ("bindings" in action.shape && action.shape.bindings != null) {
-            if (!Array.isArray(action.shape.bindings)) {
-              throw new Error("create_shape.shape.bindings must be an array");
-            }
-            for (const b of action.shape.bindings) {
-              if (!isObject(b)) {
-                throw new Error(
-                  "Invalid binding in create_shape.shape.bindings",
-                );
-              }
-              if (b.terminal !== "start" && b.terminal !== "end") {
-                throw new Error("binding.terminal must be 'start' or 'end'");
-              }
-              if (typeof b.toId !== "string") {
-                throw new Error("binding.toId must be a string");
-              }
-            }
-          }
-        }
-        break;
-      }
-      case "update_shape": {
-        if (typeof action.id !== "string" || !isObject(action.patch)) {
-          throw new Error("update_shape is invalid");
-        }
-        break;
-      }
-      case "delete_shape": {
-        if (typeof action.id !== "string")
-          throw new Error("delete_shape is invalid");
-        break;
-      }
-      case "select": {
-        if (
-          !Array.isArray(action.ids) ||
-          !action.ids.every((v) => typeof v === "string")
-        ) {
-          throw new Error("select.ids is invalid");
-        }
-        break;
+/**
+ * Streams the plan as NDJSON (`AgentStreamEvent` per line). The run first
+ * waits for a slot in the server's queue, reporting its place in line. Each
+ * action is sent as soon as the model has finished writing it and it passes
+ * validation, so the client can apply it right away. The run is aborted when
+ * the client goes away (`signal`) or hits the run timeout; `onEnd` runs once
+ * the stream is closed. The run is logged through `trace`.
+ */
+function streamPlan(
+  backend: AgentBackend,
+  request: AgentBackendRequest,
+  context: PlanValidationContext,
+  aliases: Record<string, string>,
+  trace: AgentRunTrace,
+  signal: AbortSignal,
+  onEnd: () => void,
+): Response {
+  const encoder = new TextEncoder();
+  const cancelled = new AbortController();
+  const clientSignal = AbortSignal.any([signal, cancelled.signal]);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AgentStreamEvent) => {
+        if (clientSignal.aborted) return;
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      let releaseSlot = () => {};
+      try {
+        releaseSlot = await acquireAgentRunSlot(clientSignal, (position) =>
+          send({ type: "queued", position }),
+        );
+        trace.started();
+        send({ type: "started", runId: trace.id });
+        const runRequest = { ...request, signal: withRunTimeout(clientSignal) };
+        const plan = await generatePlan(backend, runRequest, {
+          context,
+          onAttempt: trace.attempt,
+          onAction: (action) =>
+            send({
+              type: "action",
+              action: resolveActionAliases(action, aliases),
+            }),
+          onProgress: (chars) => send({ type: "progress", chars }),
+          onRepair: (attempt, issues) =>
+            send({ type: "repair", attempt, issues }),
+        });
+        trace.succeeded({
+          actions: plan.actions.map((a) => resolveActionAliases(a, aliases)),
+          notes: plan.notes,
+        });
+        send({
+          type: "done",
+          notes: plan.notes,
+          actionCount: plan.actions.length,
+        });
+      } catch (e) {
+        trace.failed(e, clientSignal);
+        send(toErrorEvent(backend, e));
+      } finally {
+        releaseSlot();
+        if (!cancelled.signal.aborted) controller.close();
+        onEnd();
       }
-      default:
-        throw new Error(`Unknown action type: ${action._type}`);
-    }
-  }
+    },
+    cancel() {
+      cancelled.abort();
+    },
+  });
 
-  return plan as AgentPlan;
+  return new Response(stream, {
+    headers: {
+      "Content-Type": AGENT_STREAM_CONTENT_TYPE,
+      "Cache-Control": "no-cache",
+    },
+  });
 }
 
 export async function POST(req: Request) {
@@ -176,55 +213,178 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: "message too long" }, { status: 413 });
   }
 
+  if (body.backend !== undefined && !isAgentBackendId(body.backend)) {
+    return NextResponse.json(
+      { error: `backend must be one of ${AGENT_BACKEND_IDS.join(", ")}` },
+      { status: 400 },
+    );
+  }
+
+  if (
+    body.extraInstructions !== undefined &&
+    (typeof body.extraInstructions !== "string" ||
+      body.extraInstructions.length > MAX_AGENT_EXTRA_INSTRUCTIONS_LENGTH)
+  ) {
+    return NextResponse.json(
+      {
+        error: `extraInstructions must be a string of at most ${MAX_AGENT_EXTRA_INSTRUCTIONS_LENGTH} characters`,
+      },
+      { status: 400 },
+    );
+  }
+
+  if (body.image !== undefined && !isCanvasImage(body.image)) {
+    return NextResponse.json(
+      { error: "image must be { dataUrl, bounds: { x, y, w, h }, source }" },
+      { status: 400 },
+    );
+  }
+
+  if (
+    body.promptId !== undefined &&
+    (typeof body.promptId !== "string" || !isAgentRunUser(body.user))
+  ) {
+    return NextResponse.json(
+      { error: "promptId must be a string sent with user: { id, name }" },
+      { status: 400 },
+    );
+  }
+
+  if (body.scope !== undefined && !isAgentScope(body.scope)) {
+    return NextResponse.json(
+      { error: "scope must be { x, y, w, h } in page coordinates" },
+      { status: 400 },
+    );
+  }
+
+  if (body.promptArea !== undefined && !isAgentPromptArea(body.promptArea)) {
+    return NextResponse.json(
+      { error: "promptArea must be { bounds: { x, y, w, h }, free: [...] }" },
+      { status: 400 },
+    );
+  }
+
+  let image: AgentImage | undefined;
+  try {
+    image = body.image && parseImageDataUrl(body.image.dataUrl);
+  } catch (e) {
+    if (!(e instanceof AgentImageError)) throw e;
+    return NextResponse.json({ error: e.message }, { status: e.status });
+  }
+
+  const shapes = Array.isArray(body.shapes)
+    ? body.shapes.slice(0, MAX_SHAPES_FOR_AGENT)
+    : [];
+  const history = Array.isArray(body.history)
+    ? body.history.filter(isHistoryTurn).slice(-MAX_AGENT_HISTORY_TURNS)
+    : [];
+  const policy = parseAgentPolicy(body.policy);
   const prompt = buildPrompt({
     message: body.message,
-    shapes: Array.isArray(body.shapes)
-      ? body.shapes.slice(0, MAX_SHAPES_FOR_AGENT)
-      : [],
+    history,
+    shapes,
+    omitted: isContextOmitted(body.omitted) ? body.omitted : undefined,
+    image: body.image,
     extraInstructions: body.extraInstructions,
+    policy,
+    scope: body.scope,
+    promptArea: body.promptArea,
   });
 
+  let backend: AgentBackend;
   try {
-    const proc =
-      await $`cursor-agent -p --output-format text ${prompt}`.nothrow();
+    backend = getAgentBackend(body.backend);
+  } catch (e) {
+    return NextResponse.json(
+      {
+        error: "Agent backend is misconfigured",
+        detail: e instanceof Error ? e.message : String(e),
+      },
+      { status: 500 },
+    );
+  }
 
-    const stdout = proc.stdout.toString();
-    const stderr = proc.stderr.toString();
-    const exitCode = proc.exitCode;
+  const request: AgentBackendRequest = {
+    prompt,
+    message: body.message,
+    images: image ? [image] : undefined,
+  };
+  const context = createPlanValidationContext(shapes, {
+    policy,
+    scope: body.scope,
+    promptArea: body.promptArea,
+  });
+  const aliases = isStringRecord(body.aliases) ? body.aliases : {};
 
-    if (exitCode !== 0) {
+  let releaseLock = () => {};
+  if (body.promptId !== undefined && body.user) {
+    const lock = acquireAgentRunLock(body.promptId, body.user);
+    if (!lock.ok) {
       return NextResponse.json(
-        {
-          error: "cursor-agent failed",
-          exitCode,
-          stderr,
-        },
-        { status: 502 },
+        { error: `${lock.holder.name} is already running this prompt` },
+        { status: 409 },
       );
     }
+    releaseLock = lock.release;
+  }
+
+  const trace = createAgentRunTrace({
+    source: "editor",
+    backend: backend.id,
+    message: body.message,
+    boardId: typeof body.boardId === "string" ? body.boardId : undefined,
+    promptId: body.promptId,
+    user: body.user,
+  });
 
-    let plan: AgentPlan;
-    try {
-      plan = validatePlan(extractJsonObject(stdout));
-    } catch (e) {
+  if (req.headers.get("Accept")?.includes(AGENT_STREAM_CONTENT_TYPE)) {
+    return streamPlan(
+      backend,
+      request,
+      context,
+      aliases,
+      trace,
+      req.signal,
+      releaseLock,
+    );
+  }
+
+  let releaseSlot = () => {};
+  try {
+    releaseSlot = await acquireAgentRunSlot(req.signal);
+    trace.started();
+    const plan = await generatePlan(
+      backend,
+      { ...request, signal: withRunTimeout(req.signal) },
+      { context, onAttempt: trace.attempt },
+    );
+    const actions = plan.actions.map((a) => resolveActionAliases(a, aliases));
+    trace.succeeded({ actions, notes: plan.notes });
+    return NextResponse.json({ actions, notes: plan.notes, runId: trace.id });
+  } catch (e) {
+    trace.failed(e, req.signal);
+    const { type: _type, ...error } = toErrorEvent(backend, e);
+    if (e instanceof AgentBackendError) {
       return NextResponse.json(
-        {
-          error: "cursor-agent output was not valid plan JSON",
-          detail: e instanceof Error ? e.message : String(e),
-          agentStdout: stdout,
-        },
+        { error: e.message, ...e.detail, runId: trace.id },
         { status: 502 },
       );
     }
-
-    return NextResponse.json({ actions: plan.actions, notes: plan.notes });
-  } catch (e) {
     return NextResponse.json(
+      { ...error, runId: trace.id },
       {
-        error: "Failed to run cursor-agent",
-        detail: e instanceof Error ? e.message : String(e),
+        status:
+          e instanceof PlanValidationError
+            ? 502
+            : e instanceof AgentQueueFullError
+              ? e.status
+              : isRunTimeout(e)
+                ? 504
+                : 500,
       },
-      { status: 500 },
     );
+  } finally {
+    releaseSlot();
+    releaseLock();
   }
 }
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { isObject } from "@/app/_agent/plan";
+import { getAgentRunLog } from "@/app/_agent/runLog";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** Problem lines kept per result; a runaway plan can fail every action. */
+const MAX_RESULT_PROBLEMS = 50;
+
+/**
+ * Records what happened when a run's plan was applied in the browser:
+ * `{ applied, summary, preview?, reapplied?, userName?, error?, problems? }`.
+ */
+export async function POST(req: Request, { params }: Params) {
+  const { id } = await params;
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (
+    !isObject(body) ||
+    typeof body.applied !== "number" ||
+    typeof body.summary !== "string"
+  ) {
+    return NextResponse.json(
+      { error: "Body must include applied (number) and summary (string)" },
+      { status: 400 },
+    );
+  }
+
+  const log = getAgentRunLog();
+  if (!(await log.get(id))) {
+    return NextResponse.json({ error: "run not found" }, { status: 404 });
+  }
+  const optionalString = (value: unknown) =>
+    typeof value === "string" ? value.slice(0, 2_000) : undefined;
+  await log.addResult(id, {
+    at: Date.now(),
+    applied: body.applied,
+    summary: body.summary.slice(0, 500),
+    preview: body.preview === true || undefined,
+    reapplied: body.reapplied === true || undefined,
+    userName: optionalString(body.userName),
+    error: optionalString(body.error),
+    problems: Array.isArray(body.problems)
+      ? body.problems
+          .filter((problem) => typeof problem === "string")
+          .slice(0, MAX_RESULT_PROBLEMS)
+          .map((problem) => problem.slice(0, 500))
+      : undefined,
+  });
+  return new NextResponse(null, { status: 204 });
+}
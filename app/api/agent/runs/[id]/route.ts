@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getAgentRunLog } from "@/app/_agent/runLog";
+
+type Params = { params: Promise<{ id: string }> };
+
+/** One run with its prompts, raw model output, plan and results. */
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  const run = await getAgentRunLog().get(id);
+  return run
+    ? NextResponse.json(run)
+    : NextResponse.json({ error: "run not found" }, { status: 404 });
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { getAgentRunLog } from "@/app/_agent/runLog";
+
+/** Logged agent runs, newest first: `?boardId=&promptId=&limit=`. */
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const limit = Number(params.get("limit") ?? undefined);
+  const runs = await getAgentRunLog().list({
+    boardId: params.get("boardId") ?? undefined,
+    promptId: params.get("promptId") ?? undefined,
+    limit: Number.isInteger(limit) && limit > 0 ? limit : undefined,
+  });
+  return NextResponse.json({ runs });
+}
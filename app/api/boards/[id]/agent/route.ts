@@ -0,0 +1,355 @@
+import { NextResponse } from "next/server";
+import type { TLStoreSnapshot } from "tldraw";
+import { resolveActionAliases } from "@/app/_agent/aliases";
+import {
+  type AgentBackend,
+  AgentBackendError,
+  getAgentBackend,
+  isAgentBackendId,
+} from "@/app/_agent/backends";
+import { generatePlan } from "@/app/_agent/generatePlan";
+import {
+  type AgentPlan,
+  checkPlan,
+  isObject,
+  PlanValidationError,
+} from "@/app/_agent/plan";
+import { isAgentScope } from "@/app/_agent/policy";
+import { buildPrompt } from "@/app/_agent/prompt";
+import {
+  type AgentRunUser,
+  acquireAgentRunLock,
+  isAgentRunUser,
+} from "@/app/_agent/runLocks";
+import { createAgentRunTrace, getAgentRunLog } from "@/app/_agent/runLog";
+import {
+  AgentQueueFullError,
+  acquireAgentRunSlot,
+  isRunTimeout,
+  withRunTimeout,
+} from "@/app/_agent/runQueue";
+import { createPlanValidationContext } from "@/app/_agent/schema";
+import {
+  AGENT_BACKEND_IDS,
+  AGENT_CONTEXT_MODES,
+  AGENT_PLACEMENT_MODES,
+  type AgentContextMode,
+  type AgentPlacementMode,
+} from "@/app/_constants/agent";
+import { authorizeBoardsApi } from "@/app/_documents/auth";
+import { getDocumentStore } from "@/app/_documents/store";
+import { HeadlessExecutorError, runHeadless } from "@/app/_headless";
+import {
+  fetchLiveSnapshot,
+  getSyncServerUrl,
+  pushLiveChanges,
+} from "@/app/_sync/remote";
+
+type Params = { params: Promise<{ id: string }> };
+
+const API_USER: AgentRunUser = { id: "api", name: "API" };
+
+/** How ready-made `actions` runs, which have no model or message, are logged. */
+const ACTIONS_BACKEND = "none";
+const ACTIONS_MESSAGE = "(ready-made actions)";
+
+function isContextMode(value: unknown): value is AgentContextMode {
+  return AGENT_CONTEXT_MODES.includes(value as AgentContextMode);
+}
+
+function isPlacementMode(value: unknown): value is AgentPlacementMode {
+  return AGENT_PLACEMENT_MODES.includes(value as AgentPlacementMode);
+}
+
+/**
+ * Edits a stored board without a browser: `{ message }` asks the agent for a
+ * plan, `{ actions }` applies a ready-made one. Either way the actions run in
+ * the headless executor with the same semantics as in the editor, and land
+ * on the live board when the sync server is configured. New shapes from a
+ * `message` run are moved into free space unless `placement` says
+ * otherwise. Needs
+ * `Authorization: Bearer <BOARDS_API_TOKEN>`.
+ */
+export async function POST(req: Request, { params }: Params) {
+  const auth = authorizeBoardsApi(req);
+  if (auth === "disabled") {
+    return NextResponse.json(
+      { error: "Set BOARDS_API_TOKEN to enable this API" },
+      { status: 503 },
+    );
+  }
+  if (auth === "unauthorized") {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (
+    !isObject(body) ||
+    (body.message === undefined) === (body.actions === undefined)
+  ) {
+    return NextResponse.json(
+      { error: "Body must include exactly one of message or actions" },
+      { status: 400 },
+    );
+  }
+  const { message, actions } = body;
+  if (
+    message !== undefined &&
+    (typeof message !== "string" || !message.trim())
+  ) {
+    return NextResponse.json(
+      { error: "message must be a non-empty string" },
+      { status: 400 },
+    );
+  }
+  if (typeof message === "string" && message.length > 20_000) {
+    return NextResponse.json({ error: "message too long" }, { status: 413 });
+  }
+  if (actions !== undefined && !Array.isArray(actions)) {
+    return NextResponse.json(
+      { error: "actions must be an array" },
+      { status: 400 },
+    );
+  }
+  if (body.backend !== undefined && !isAgentBackendId(body.backend)) {
+    return NextResponse.json(
+      { error: `backend must be one of ${AGENT_BACKEND_IDS.join(", ")}` },
+      { status: 400 },
+    );
+  }
+  if (body.contextMode !== undefined && !isContextMode(body.contextMode)) {
+    return NextResponse.json(
+      { error: `contextMode must be one of ${AGENT_CONTEXT_MODES.join(", ")}` },
+      { status: 400 },
+    );
+  }
+  if (body.placement !== undefined && !isPlacementMode(body.placement)) {
+    return NextResponse.json(
+      {
+        error: `placement must be one of ${AGENT_PLACEMENT_MODES.join(", ")}`,
+      },
+      { status: 400 },
+    );
+  }
+  if (body.user !== undefined && !isAgentRunUser(body.user)) {
+    return NextResponse.json(
+      { error: "user must be { id, name }" },
+      { status: 400 },
+    );
+  }
+  const scopeFrameId =
+    isObject(body.scope) && typeof body.scope.frameId === "string"
+      ? body.scope.frameId
+      : undefined;
+  if (
+    body.scope !== undefined &&
+    scopeFrameId === undefined &&
+    !isAgentScope(body.scope)
+  ) {
+    return NextResponse.json(
+      { error: "scope must be { x, y, w, h } or { frameId }" },
+      { status: 400 },
+    );
+  }
+  if (body.confirm !== undefined && typeof body.confirm !== "boolean") {
+    return NextResponse.json(
+      { error: "confirm must be a boolean" },
+      { status: 400 },
+    );
+  }
+
+  const syncUrl = getSyncServerUrl();
+  const documents = getDocumentStore();
+  if (!(await documents.getSummary(id))) {
+    return NextResponse.json({ error: "board not found" }, { status: 404 });
+  }
+
+  // One API run per board at a time, so two plans never race on a snapshot.
+  const lock = acquireAgentRunLock(`board:${id}`, body.user ?? API_USER);
+  if (!lock.ok) {
+    return NextResponse.json(
+      { error: `${lock.holder.name} is already editing this board` },
+      { status: 409 },
+    );
+  }
+
+  try {
+    const snapshot: TLStoreSnapshot | undefined = syncUrl
+      ? await fetchLiveSnapshot(syncUrl, id)
+      : (await documents.get(id))?.snapshot;
+    const canvas = await runHeadless({
+      op: "inspect",
+      snapshot,
+      contextMode: body.contextMode ?? "auto",
+      scopeFrameId,
+    });
+    const scope = isAgentScope(body.scope) ? body.scope : canvas.scope;
+    if (scopeFrameId !== undefined && !scope) {
+      return NextResponse.json(
+        { error: `scope.frameId ${scopeFrameId} is not a frame on this board` },
+        { status: 400 },
+      );
+    }
+    const policyOptions = { policy: canvas.policy, scope };
+
+    let plan: AgentPlan;
+    let runId: string | undefined;
+    if (typeof message === "string") {
+      let backend: AgentBackend;
+      try {
+        backend = getAgentBackend(body.backend);
+      } catch (e) {
+        return NextResponse.json(
+          {
+            error: "Agent backend is misconfigured",
+            detail: e instanceof Error ? e.message : String(e),
+          },
+          { status: 500 },
+        );
+      }
+      const trace = createAgentRunTrace({
+        source: "board-api",
+        backend: backend.id,
+        message,
+        boardId: id,
+        user: body.user ?? API_USER,
+      });
+      runId = trace.id;
+      let releaseSlot = () => {};
+      try {
+        releaseSlot = await acquireAgentRunSlot(req.signal);
+        trace.started();
+        const generated = await generatePlan(
+          backend,
+          {
+            prompt: buildPrompt({
+              message,
+              shapes: canvas.shapes,
+              omitted: canvas.omitted,
+              ...policyOptions,
+            }),
+            message,
+            signal: withRunTimeout(req.signal),
+          },
+          {
+            context: createPlanValidationContext(canvas.shapes, policyOptions),
+            onAttempt: trace.attempt,
+          },
+        );
+        plan = {
+          actions: generated.actions.map((a) =>
+            resolveActionAliases(a, canvas.aliases),
+          ),
+          notes: generated.notes,
+        };
+        trace.succeeded(plan);
+      } catch (e) {
+        trace.failed(e, req.signal);
+        if (e instanceof AgentBackendError) {
+          return NextResponse.json(
+            { error: e.message, ...e.detail, runId },
+            { status: 502 },
+          );
+        }
+        if (e instanceof PlanValidationError) {
+          return NextResponse.json(
+            {
+              error: `${backend.id} output was not valid plan JSON`,
+              detail: e.message,
+              issues: e.issues,
+              runId,
+            },
+            { status: 502 },
+          );
+        }
+        if (e instanceof AgentQueueFullError) {
+          return NextResponse.json(
+            { error: e.message, runId },
+            { status: e.status },
+          );
+        }
+        if (isRunTimeout(e)) {
+          return NextResponse.json(
+            { error: `${backend.id} timed out`, runId },
+            { status: 504 },
+          );
+        }
+        throw e;
+      } finally {
+        releaseSlot();
+      }
+    } else {
+      const trace = createAgentRunTrace({
+        source: "board-api",
+        backend: ACTIONS_BACKEND,
+        message: ACTIONS_MESSAGE,
+        boardId: id,
+        user: body.user ?? API_USER,
+      });
+      runId = trace.id;
+      trace.started();
+      const checked = checkPlan(
+        { actions, notes: "" },
+        createPlanValidationContext(canvas.shapeTypes, policyOptions),
+      );
+      if (checked.issues.length > 0) {
+        trace.failed(new PlanValidationError(checked.issues));
+        return NextResponse.json(
+          { error: "Invalid actions", issues: checked.issues, runId },
+          { status: 400 },
+        );
+      }
+      plan = { actions: checked.actions, notes: checked.notes };
+      trace.succeeded(plan);
+    }
+
+    const result = await runHeadless({
+      op: "apply",
+      snapshot,
+      actions: plan.actions,
+      scope,
+      confirmed: body.confirm,
+      // Ready-made actions are placed as given unless asked otherwise.
+      placement:
+        body.placement ??
+        (typeof message === "string" ? "free-space" : "as-planned"),
+      prompt: typeof message === "string" ? message : undefined,
+    });
+    if (syncUrl) await pushLiveChanges(syncUrl, id, result.changes);
+    else await documents.save(id, { snapshot: result.snapshot });
+    if (runId) {
+      await getAgentRunLog().addResult(runId, {
+        at: Date.now(),
+        applied: result.report.applied,
+        summary: result.summary,
+        userName: (body.user ?? API_USER).name,
+        problems: result.problems.length ? result.problems : undefined,
+      });
+    }
+
+    return NextResponse.json({
+      actions: plan.actions,
+      notes: plan.notes,
+      summary: result.summary,
+      report: result.report,
+      problems: result.problems,
+      runId,
+    });
+  } catch (e) {
+    if (e instanceof HeadlessExecutorError) {
+      return NextResponse.json(
+        { error: e.message, detail: e.detail },
+        { status: 500 },
+      );
+    }
+    throw e;
+  } finally {
+    lock.release();
+  }
+}
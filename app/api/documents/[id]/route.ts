@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { isObject } from "@/app/_agent/plan";
+import { MAX_DOCUMENT_BYTES } from "@/app/_constants/documents";
+import {
+  DocumentStoreError,
+  getDocumentStore,
+  isStoreSnapshot,
+  parseBoardName,
+} from "@/app/_documents/store";
+
+type Params = { params: Promise<{ id: string }> };
+
+function notFound() {
+  return NextResponse.json({ error: "board not found" }, { status: 404 });
+}
+
+export async function GET(_req: Request, { params }: Params) {
+  const { id } = await params;
+  const board = await getDocumentStore().get(id);
+  return board ? NextResponse.json(board) : notFound();
+}
+
+/** Saves a board: `{ snapshot?, name? }`, at least one of them. */
+export async function PUT(req: Request, { params }: Params) {
+  const { id } = await params;
+  if (Number(req.headers.get("Content-Length")) > MAX_DOCUMENT_BYTES) {
+    return NextResponse.json({ error: "document too large" }, { status: 413 });
+  }
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (
+    !isObject(body) ||
+    (body.snapshot === undefined && body.name === undefined)
+  ) {
+    return NextResponse.json(
+      { error: "Body must include snapshot and/or name" },
+      { status: 400 },
+    );
+  }
+  if (body.snapshot !== undefined && !isStoreSnapshot(body.snapshot)) {
+    return NextResponse.json(
+      { error: "snapshot must be a tldraw store snapshot ({ store, schema })" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const board = await getDocumentStore().save(id, {
+      name: parseBoardName(body.name),
+      snapshot: body.snapshot,
+    });
+    return NextResponse.json(board);
+  } catch (e) {
+    if (!(e instanceof DocumentStoreError)) throw e;
+    return NextResponse.json({ error: e.message }, { status: e.status });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Params) {
+  const { id } = await params;
+  const deleted = await getDocumentStore().delete(id);
+  return deleted ? new Response(null, { status: 204 }) : notFound();
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { isObject } from "@/app/_agent/plan";
+import {
+  DocumentStoreError,
+  getDocumentStore,
+  isStoreSnapshot,
+  parseBoardName,
+} from "@/app/_documents/store";
+
+export async function GET() {
+  const boards = await getDocumentStore().list();
+  return NextResponse.json({ boards });
+}
+
+/** Creates a board: `{ name?, snapshot? }`. */
+export async function POST(req: Request) {
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+  }
+  if (!isObject(body)) {
+    return NextResponse.json(
+      { error: "Body must be a JSON object" },
+      { status: 400 },
+    );
+  }
+  if (body.snapshot !== undefined && !isStoreSnapshot(body.snapshot)) {
+    return NextResponse.json(
+      { error: "snapshot must be a tldraw store snapshot ({ store, schema })" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const board = await getDocumentStore().create({
+      name: parseBoardName(body.name),
+      snapshot: body.snapshot,
+    });
+    return NextResponse.json(board, { status: 201 });
+  } catch (e) {
+    if (!(e instanceof DocumentStoreError)) throw e;
+    return NextResponse.json({ error: e.message }, { status: e.status });
+  }
+}
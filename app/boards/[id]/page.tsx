@@ -0,0 +1,28 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { Tldr } from "../../_components/Tldr";
+import { getDocumentStore } from "../../_documents/store";
+
+type Props = { params: Promise<{ id: string }> };
+
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params;
+  const board = await getDocumentStore().getSummary(id);
+  return { title: board ? `${board.name} · Tldraw AI` : "Tldraw AI" };
+}
+
+export default async function BoardPage({ params }: Props) {
+  const { id } = await params;
+  const board = await getDocumentStore().getSummary(id);
+  if (!board) notFound();
+  return (
+    <div className="flex min-h-screen bg-zinc-50 font-sans dark:bg-black">
+      <main>
+        {/* Keyed so switching boards starts from a fresh store. */}
+        <Tldr key={id} board={board} />
+      </main>
+    </div>
+  );
+}
@@ -1,10 +1,14 @@
-import { Tldr } from "./_components/Tldr";
+import { BoardPicker } from "./_components/BoardPicker";
+import { getDocumentStore } from "./_documents/store";
 
-export default function Home() {
+export const dynamic = "force-dynamic";
+
+export default async function Home() {
+  const boards = await getDocumentStore().list();
   return (
     <div className="flex min-h-screen bg-zinc-50 font-sans dark:bg-black">
-      <main>
-        <Tldr />
+      <main className="flex flex-1">
+        <BoardPicker boards={boards} />
       </main>
     </div>
   );
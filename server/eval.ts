@@ -0,0 +1,204 @@
+/**
+ * Replays recorded agent runs and scores the boards they produce, so prompt
+ * and plan changes can be judged by numbers instead of by eye:
+ *
+ *   bun run eval                      # every fixture in eval/fixtures
+ *   bun run eval add-cache --json     # one fixture, machine-readable
+ *   bun run eval --record --backend openai
+ *
+ * Each fixture is a board, a message and the model's recorded output (see
+ * `EvalFixture`). `--record` asks the backend again with the current prompt
+ * and saves its first answer, unrepaired, into the fixture. Exits with 1 when
+ * any fixture is over one of its limits.
+ */
+
+// Must come first: tldraw needs the DOM globals as soon as it loads.
+import "@/app/_headless/dom";
+import { readdir } from "node:fs/promises";
+import { basename, dirname, join, resolve } from "node:path";
+import { parseArgs } from "node:util";
+import { getSnapshot, parseTldrawJsonFile, type TLStoreSnapshot } from "tldraw";
+import {
+  type AgentBackend,
+  getAgentBackend,
+  isAgentBackendId,
+} from "@/app/_agent/backends";
+import { generatePlan } from "@/app/_agent/generatePlan";
+import { PlanValidationError } from "@/app/_agent/plan";
+import { createPlanValidationContext } from "@/app/_agent/schema";
+import { AGENT_BACKEND_IDS } from "@/app/_constants/agent";
+import {
+  buildEvalPrompt,
+  type EvalFixture,
+  type EvalMetrics,
+  type EvalResult,
+  evaluateFixture,
+} from "@/app/_headless/evaluate";
+import { createHeadlessEditor } from "@/app/_headless/executor";
+import { boardSchema } from "@/app/_sync/schema";
+import { formatAgentApplyReport } from "@/app/_tldraw/agent/agentActions";
+
+const USAGE = `Usage: bun run eval [fixture ...] [options]
+
+Options:
+  --dir <path>      fixture directory (default: eval/fixtures)
+  --record          re-record each fixture's output before scoring it
+  --backend <id>    ${AGENT_BACKEND_IDS.join(" | ")}, for --record (default: AGENT_BACKEND)
+  --json            print the results as JSON`;
+
+/** Report columns, in order. */
+const COLUMNS: [keyof EvalMetrics, string][] = [
+  ["planIssues", "issues"],
+  ["unresolvedIds", "unresolved"],
+  ["rejectedActions", "rejected"],
+  ["overlaps", "overlaps"],
+  ["unboundArrows", "unbound"],
+  ["danglingArrows", "dangling"],
+  ["overflowingLabels", "overflow"],
+  ["shapes", "shapes"],
+];
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    dir: { type: "string", default: "eval/fixtures" },
+    record: { type: "boolean", default: false },
+    backend: { type: "string" },
+    json: { type: "boolean", default: false },
+    help: { type: "boolean", short: "h", default: false },
+  },
+});
+
+if (options.help) fail(USAGE);
+if (options.backend !== undefined && !isAgentBackendId(options.backend)) {
+  fail(`--backend must be one of ${AGENT_BACKEND_IDS.join(", ")}`);
+}
+
+async function readBoard(file: string): Promise<TLStoreSnapshot> {
+  const parsed = parseTldrawJsonFile({
+    json: await Bun.file(file).text(),
+    schema: boardSchema,
+  });
+  if (!parsed.ok) {
+    throw new Error(`${file} is not a valid .tldr file (${parsed.error.type})`);
+  }
+  return getSnapshot(parsed.value).document;
+}
+
+/** Asks `backend` for a plan once, without repairs, and returns its raw output. */
+async function recordOutput(
+  backend: AgentBackend,
+  fixture: EvalFixture,
+  snapshot?: TLStoreSnapshot,
+): Promise<string> {
+  const editor = createHeadlessEditor(snapshot);
+  try {
+    const { canvas, prompt } = buildEvalPrompt(editor, fixture);
+    let output = "";
+    try {
+      await generatePlan(
+        backend,
+        { prompt, message: fixture.message },
+        {
+          context: createPlanValidationContext(canvas.shapes),
+          maxRepairAttempts: 0,
+          onAttempt: (attempt) => {
+            output = attempt.output;
+          },
+        },
+      );
+    } catch (e) {
+      // An invalid plan is still a result worth recording and scoring.
+      if (!(e instanceof PlanValidationError)) throw e;
+    }
+    return output;
+  } finally {
+    editor.dispose();
+  }
+}
+
+const dir = resolve(options.dir);
+const files = (await readdir(dir))
+  .filter((file) => file.endsWith(".json"))
+  .filter(
+    (file) =>
+      positionals.length === 0 || positionals.includes(basename(file, ".json")),
+  )
+  .sort();
+if (files.length === 0) fail(`No fixtures found in ${dir}`);
+
+const backend = options.record ? getAgentBackend(options.backend) : undefined;
+const results: ({ name: string } & EvalResult)[] = [];
+
+for (const file of files) {
+  const path = join(dir, file);
+  const name = basename(file, ".json");
+  let fixture = (await Bun.file(path).json()) as EvalFixture;
+  const snapshot =
+    fixture.board === undefined
+      ? undefined
+      : await readBoard(join(dirname(path), fixture.board));
+
+  if (backend) {
+    if (!options.json) console.error(`Recording ${name} with ${backend.id}…`);
+    fixture = {
+      ...fixture,
+      output: await recordOutput(backend, fixture, snapshot),
+      recorded: { backend: backend.id, at: new Date().toISOString() },
+    };
+    await Bun.write(path, `${JSON.stringify(fixture, null, 2)}\n`);
+  }
+
+  results.push({ name, ...evaluateFixture(fixture, snapshot) });
+}
+
+const failed = results.filter((result) => result.failures.length > 0);
+
+if (options.json) {
+  console.log(JSON.stringify(results, null, 2));
+} else {
+  const nameWidth = Math.max(7, ...results.map((r) => r.name.length));
+  console.log(
+    ["fixture".padEnd(nameWidth), ...COLUMNS.map(([, label]) => label)].join(
+      "  ",
+    ),
+  );
+  for (const result of results) {
+    console.log(
+      [
+        result.name.padEnd(nameWidth),
+        ...COLUMNS.map(([key, label]) =>
+          String(result.metrics[key]).padStart(label.length),
+        ),
+        result.failures.length > 0 ? "FAIL" : "ok",
+      ].join("  "),
+    );
+  }
+  const totals = COLUMNS.map(([key, label]) =>
+    String(results.reduce((sum, r) => sum + r.metrics[key], 0)).padStart(
+      label.length,
+    ),
+  );
+  console.log(["total".padEnd(nameWidth), ...totals].join("  "));
+
+  for (const result of failed) {
+    console.log(`\n${result.name}: ${result.failures.join(", ")}`);
+    for (const issue of result.issues) {
+      console.log(`  ${issue.path}: ${issue.message}`);
+    }
+    for (const problem of formatAgentApplyReport(result.report)) {
+      console.log(`  ${problem}`);
+    }
+  }
+  console.log(
+    `\n${results.length - failed.length} of ${results.length} fixtures passed`,
+  );
+}
+
+// tldraw leaves timers behind; don't wait for them.
+process.exit(failed.length > 0 ? 1 : 0);
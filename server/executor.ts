@@ -0,0 +1,15 @@
+/**
+ * Headless executor: reads one `HeadlessRequest` as JSON on stdin, runs it
+ * against a tldraw `Editor` and writes the result as JSON to stdout. Spawned
+ * per request by `/api/boards/:id/agent` (see `runHeadless`).
+ */
+
+// Must come first: tldraw needs the DOM globals as soon as it loads.
+import "@/app/_headless/dom";
+import { runHeadlessRequest } from "@/app/_headless/executor";
+import type { HeadlessRequest } from "@/app/_headless/types";
+
+const request = (await Bun.stdin.json()) as HeadlessRequest;
+process.stdout.write(JSON.stringify(runHeadlessRequest(request)));
+// tldraw leaves timers behind; don't wait for them.
+process.exit(0);
@@ -0,0 +1,108 @@
+/**
+ * Multiplayer sync server: a WebSocket room per board at
+ * `/connect/:boardId`, backed by the same document store as
+ * `/api/documents`. Run it with `bun run sync` and point the app at it with
+ * `NEXT_PUBLIC_SYNC_URL`.
+ *
+ * `GET /boards/:id/snapshot` and `POST /boards/:id/changes` let
+ * `/api/boards/:id/agent` edit a board while people are on it. Both need
+ * `Authorization: Bearer <BOARDS_API_TOKEN>`.
+ */
+
+import { DEFAULT_SYNC_PORT } from "@/app/_constants/sync";
+import { authorizeBoardsApi } from "@/app/_documents/auth";
+import { getDocumentStore } from "@/app/_documents/store";
+import type { BoardChanges } from "@/app/_documents/types";
+import { type BoardRoom, createBoardRooms } from "@/app/_sync/rooms";
+
+type SocketData = { room: BoardRoom; sessionId: string };
+
+const rooms = createBoardRooms(getDocumentStore());
+const port = Number(process.env.SYNC_PORT ?? DEFAULT_SYNC_PORT);
+
+/** The board API routes, or `undefined` if `url` isn't one of them. */
+async function handleBoardsApi(
+  req: Request,
+  url: URL,
+): Promise<Response | undefined> {
+  const match = url.pathname.match(/^\/boards\/([^/]+)\/(snapshot|changes)$/);
+  if (!match) return undefined;
+  const auth = authorizeBoardsApi(req);
+  if (auth !== "ok") {
+    return new Response(auth === "disabled" ? "Disabled" : "Unauthorized", {
+      status: auth === "disabled" ? 503 : 401,
+    });
+  }
+  const boardId = decodeURIComponent(match[1]);
+
+  if (match[2] === "snapshot" && req.method === "GET") {
+    const snapshot = await rooms.getSnapshot(boardId);
+    if (!snapshot) return new Response("Board not found", { status: 404 });
+    return Response.json({ snapshot });
+  }
+  if (match[2] === "changes" && req.method === "POST") {
+    let changes: BoardChanges;
+    try {
+      changes = (await req.json()) as BoardChanges;
+    } catch {
+      return new Response("Expected { put, removed }", { status: 400 });
+    }
+    if (!Array.isArray(changes?.put) || !Array.isArray(changes?.removed)) {
+      return new Response("Expected { put, removed }", { status: 400 });
+    }
+    if (!(await rooms.applyChanges(boardId, changes))) {
+      return new Response("Board not found", { status: 404 });
+    }
+    return new Response(null, { status: 204 });
+  }
+  return new Response("Method not allowed", { status: 405 });
+}
+
+const server = Bun.serve<SocketData>({
+  port,
+  async fetch(req, server) {
+    const url = new URL(req.url);
+    const apiResponse = await handleBoardsApi(req, url);
+    if (apiResponse) return apiResponse;
+
+    const match = url.pathname.match(/^\/connect\/([^/]+)$/);
+    if (!match) return new Response("Not found", { status: 404 });
+
+    const sessionId = url.searchParams.get("sessionId");
+    if (!sessionId) {
+      return new Response("Missing sessionId", { status: 400 });
+    }
+    const room = await rooms.getRoom(decodeURIComponent(match[1]));
+    if (!room) return new Response("Board not found", { status: 404 });
+
+    if (server.upgrade(req, { data: { room, sessionId } })) return;
+    return new Response("Expected a WebSocket upgrade", { status: 426 });
+  },
+  websocket: {
+    open(ws) {
+      // The room may have closed while the upgrade was in flight.
+      if (ws.data.room.isClosed()) ws.close(1012, "Room closed");
+      else
+        ws.data.room.handleSocketConnect({
+          sessionId: ws.data.sessionId,
+          socket: ws,
+        });
+    },
+    message(ws, message) {
+      ws.data.room.handleSocketMessage(ws.data.sessionId, message);
+    },
+    close(ws) {
+      ws.data.room.handleSocketClose(ws.data.sessionId);
+    },
+  },
+});
+
+console.log(`Board sync server listening on ws://localhost:${server.port}`);
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, async () => {
+    server.stop();
+    await rooms.flush();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,150 @@
+/**
+ * Runs an agent prompt against a `.tldr` file, no browser or server needed:
+ *
+ *   bun run tldr diagram.tldr "Add a cache between the API and the DB"
+ *
+ * The plan is generated and validated as in `/api/agent`, applied by the
+ * headless executor, and written back to the file (or `--out`). `--diff`
+ * prints the shape changes instead of writing, `--dry-run` prints the
+ * validated plan without applying it.
+ */
+
+// Must come first: tldraw needs the DOM globals as soon as it loads.
+import "@/app/_headless/dom";
+import { parseArgs } from "node:util";
+import { getSnapshot, parseTldrawJsonFile, serializeTldrawJson } from "tldraw";
+import { resolveActionAliases } from "@/app/_agent/aliases";
+import { getAgentBackend, isAgentBackendId } from "@/app/_agent/backends";
+import { generatePlan } from "@/app/_agent/generatePlan";
+import { PlanValidationError } from "@/app/_agent/plan";
+import { buildPrompt } from "@/app/_agent/prompt";
+import { createPlanValidationContext } from "@/app/_agent/schema";
+import {
+  AGENT_BACKEND_IDS,
+  AGENT_CONTEXT_MODES,
+  AGENT_PLACEMENT_MODES,
+  type AgentContextMode,
+  type AgentPlacementMode,
+} from "@/app/_constants/agent";
+import { formatShapeDiff } from "@/app/_headless/diff";
+import {
+  applyBoardActions,
+  createHeadlessEditor,
+  inspectBoard,
+} from "@/app/_headless/executor";
+import { boardSchema } from "@/app/_sync/schema";
+import { formatAgentApplyReport } from "@/app/_tldraw/agent/agentActions";
+
+const USAGE = `Usage: bun run tldr <file.tldr> <prompt> [options]
+
+Options:
+  --backend <id>    ${AGENT_BACKEND_IDS.join(" | ")} (default: AGENT_BACKEND)
+  --context <mode>  ${AGENT_CONTEXT_MODES.join(" | ")} (default: auto)
+  --frame <id>      only let the agent change shapes inside this frame
+  --confirm         allow more deletions than the board's confirmation threshold
+  --placement <m>   ${AGENT_PLACEMENT_MODES.join(" | ")} (default: free-space)
+  --out <file>      write the result here instead of over <file.tldr>
+  --diff            print the shape changes instead of writing the file
+  --dry-run         print the validated plan as JSON and stop`;
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const { values: options, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    backend: { type: "string" },
+    context: { type: "string", default: "auto" },
+    frame: { type: "string" },
+    confirm: { type: "boolean", default: false },
+    placement: { type: "string", default: "free-space" },
+    out: { type: "string" },
+    diff: { type: "boolean", default: false },
+    "dry-run": { type: "boolean", default: false },
+    help: { type: "boolean", short: "h", default: false },
+  },
+});
+
+const [file, message] = positionals;
+if (options.help || !file || !message?.trim()) fail(USAGE);
+if (options.backend !== undefined && !isAgentBackendId(options.backend)) {
+  fail(`--backend must be one of ${AGENT_BACKEND_IDS.join(", ")}`);
+}
+const contextMode = options.context as AgentContextMode;
+if (!AGENT_CONTEXT_MODES.includes(contextMode)) {
+  fail(`--context must be one of ${AGENT_CONTEXT_MODES.join(", ")}`);
+}
+const placement = options.placement as AgentPlacementMode;
+if (!AGENT_PLACEMENT_MODES.includes(placement)) {
+  fail(`--placement must be one of ${AGENT_PLACEMENT_MODES.join(", ")}`);
+}
+
+const json = await Bun.file(file)
+  .text()
+  .catch(() => fail(`Cannot read ${file}`));
+const parsed = parseTldrawJsonFile({ json, schema: boardSchema });
+if (!parsed.ok)
+  fail(`${file} is not a valid .tldr file (${parsed.error.type})`);
+
+const editor = createHeadlessEditor(getSnapshot(parsed.value).document);
+const canvas = inspectBoard(editor, contextMode, options.frame);
+if (options.frame !== undefined && !canvas.scope) {
+  fail(`--frame ${options.frame} is not a frame in ${file}`);
+}
+const backend = getAgentBackend(options.backend);
+
+let plan: Awaited<ReturnType<typeof generatePlan>>;
+try {
+  plan = await generatePlan(
+    backend,
+    {
+      prompt: buildPrompt({
+        message,
+        shapes: canvas.shapes,
+        omitted: canvas.omitted,
+        policy: canvas.policy,
+        scope: canvas.scope,
+      }),
+      message,
+    },
+    {
+      context: createPlanValidationContext(canvas.shapes, {
+        policy: canvas.policy,
+        scope: canvas.scope,
+      }),
+    },
+  );
+} catch (e) {
+  if (e instanceof PlanValidationError) {
+    fail(`${backend.id} output was not a valid plan:\n${e.message}`);
+  }
+  throw e;
+}
+const actions = plan.actions.map((a) =>
+  resolveActionAliases(a, canvas.aliases),
+);
+
+if (options["dry-run"]) {
+  console.log(JSON.stringify({ actions, notes: plan.notes }, null, 2));
+  process.exit(0);
+}
+
+const { diff, summary, report } = applyBoardActions(editor, actions, {
+  scope: canvas.scope,
+  confirmed: options.confirm,
+  placement,
+  prompt: message,
+});
+if (options.diff) {
+  console.log(formatShapeDiff(editor, diff).join("\n") || "No shape changes");
+} else {
+  const out = options.out ?? file;
+  await Bun.write(out, await serializeTldrawJson(editor));
+  console.log(`${summary || "No changes"}; wrote ${out}`);
+}
+if (plan.notes) console.log(plan.notes);
+for (const problem of formatAgentApplyReport(report)) console.error(problem);
+// tldraw leaves timers behind; don't wait for them.
+process.exit(0);